@@ -0,0 +1,191 @@
+import { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { AtlassianHttpClient, AtlassianRequestConfig, ConcurrencyLimiter, DryRunRequest, parseRetryAfter } from './base.js';
+import { ReadOnlyModeError } from '../utils/errors.js';
+import { FieldChange } from '../utils/diff.js';
+
+class TestClient extends AtlassianHttpClient {
+  readonly sent: Array<{ method: string; url: string; data?: unknown }> = [];
+
+  constructor() {
+    process.env.JIRA_URL = 'https://jira.example.com';
+    process.env.JIRA_PERSONAL_TOKEN = 'token';
+    super('jira');
+    // Answers every request that reaches the network with its own body and an ID
+    const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+      const data = config.data ? JSON.parse(config.data) : undefined;
+      this.sent.push({ method: (config.method || 'get').toUpperCase(), url: config.url || '', data });
+      return { data: { ...data, id: '10001', key: 'PROJ-1' }, status: 200, statusText: 'OK', headers: {}, config };
+    };
+    this.client.defaults.adapter = adapter;
+  }
+
+  get http() {
+    return this.client;
+  }
+}
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    jest.useFakeTimers({ now: new Date('2024-05-02T10:00:00Z') });
+    try {
+      expect(parseRetryAfter('Thu, 02 May 2024 10:00:30 GMT')).toBe(30000);
+      expect(parseRetryAfter('Thu, 02 May 2024 09:59:00 GMT')).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('ignores missing and malformed values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter(['120'])).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('holds requests beyond the limit until a slot is released', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const started: number[] = [];
+
+    await limiter.acquire();
+    await limiter.acquire();
+    const third = limiter.acquire().then(() => started.push(3));
+    const fourth = limiter.acquire().then(() => started.push(4));
+
+    await Promise.resolve();
+    expect(started).toEqual([]);
+
+    limiter.release();
+    await third;
+    expect(started).toEqual([3]);
+
+    limiter.release();
+    await fourth;
+    expect(started).toEqual([3, 4]);
+  });
+
+  it('frees the slot when nobody is waiting', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await limiter.acquire();
+    limiter.release();
+
+    let acquired = false;
+    await limiter.acquire().then(() => { acquired = true; });
+    expect(acquired).toBe(true);
+  });
+});
+
+describe('read-only mode', () => {
+  beforeEach(() => {
+    process.env.READ_ONLY_MODE = 'true';
+  });
+  afterEach(() => {
+    delete process.env.READ_ONLY_MODE;
+  });
+
+  it('refuses writes from any caller but sends reads', async () => {
+    const client = new TestClient();
+    await expect(client.http.post('/rest/api/2/issue', { fields: {} })).rejects.toThrow(ReadOnlyModeError);
+    await expect(client.http.delete('/rest/api/2/issue/PROJ-1')).rejects.toThrow('Cannot send DELETE /rest/api/2/issue/PROJ-1: running in read-only mode');
+    await client.http.get('/rest/api/2/issue/PROJ-1');
+    const readOnly: AtlassianRequestConfig = { readOnly: true };
+    await client.http.post('/rest/api/2/jql/parse', { queries: [] }, readOnly);
+    expect(client.sent.map(request => `${request.method} ${request.url}`)).toEqual(['GET /rest/api/2/issue/PROJ-1', 'POST /rest/api/2/jql/parse']);
+  });
+
+  it('allows dry runs, which send no writes', async () => {
+    const client = new TestClient();
+    const result = await client.dryRun(() => client.http.post('/rest/api/2/issue', { fields: { summary: 'x' } }));
+    expect(result.requests).toEqual([{ method: 'POST', path: '/rest/api/2/issue', body: { fields: { summary: 'x' } } }]);
+    expect(client.sent).toEqual([]);
+  });
+});
+
+describe('dry runs', () => {
+  it('records writes instead of sending them and still sends reads', async () => {
+    const client = new TestClient();
+    const result = await client.dryRun(async () => {
+      await client.http.get('/rest/api/2/issue/PROJ-1');
+      await client.http.put('/rest/api/2/issue/PROJ-1', { fields: { summary: 'New' } }, { params: { notifyUsers: false } });
+      await client.http.delete('/rest/api/2/issue/PROJ-2');
+    });
+
+    expect(result).toEqual({
+      dryRun: true,
+      requests: [
+        { method: 'PUT', path: '/rest/api/2/issue/PROJ-1', params: { notifyUsers: false }, body: { fields: { summary: 'New' } } },
+        { method: 'DELETE', path: '/rest/api/2/issue/PROJ-2' }
+      ]
+    });
+    expect(client.sent).toEqual([{ method: 'GET', url: '/rest/api/2/issue/PROJ-1', data: undefined }]);
+  });
+
+  it('answers each write with the next placeholder ID, so later writes can use it', async () => {
+    const client = new TestClient();
+    const keys: string[] = [];
+    const result = await client.dryRun(async () => {
+      const { data: issue } = await client.http.post('/rest/api/2/issue', { fields: { summary: 'Parent' } });
+      const { data: comment } = await client.http.post(`/rest/api/2/issue/${issue.key}/comment`, { body: 'Hello' });
+      keys.push(issue.key, comment.id);
+      expect(comment.body).toBe('Hello');
+    });
+
+    expect(keys).toEqual(['dry-run-1', 'dry-run-2']);
+    expect(result.requests.map(request => `${request.method} ${request.path}`)).toEqual([
+      'POST /rest/api/2/issue',
+      'POST /rest/api/2/issue/dry-run-1/comment'
+    ]);
+    expect(client.sent).toEqual([]);
+  });
+
+  it('ends at a read of an item created earlier in the run and returns the writes so far', async () => {
+    const client = new TestClient();
+    const after = jest.fn();
+    const result = await client.dryRun(async () => {
+      const { data: issue } = await client.http.post('/rest/api/2/issue', { fields: { summary: 'Parent' } });
+      await client.http.get('/rest/api/2/search', { params: { jql: `parent = ${issue.key}` } });
+      after();
+    });
+
+    expect(result.requests).toHaveLength(1);
+    expect(after).not.toHaveBeenCalled();
+    expect(client.sent).toEqual([]);
+  });
+
+  it('passes on other errors', async () => {
+    const client = new TestClient();
+    await expect(client.dryRun(async () => {
+      await client.http.post('/rest/api/2/issue', {});
+      throw new Error('Field "Team" is required');
+    })).rejects.toThrow('Field "Team" is required');
+  });
+
+  it('adds the changes an update would make', async () => {
+    class DescribingClient extends TestClient {
+      protected async describeChanges(request: DryRunRequest): Promise<FieldChange[] | undefined> {
+        return request.method === 'PUT' ? [{ field: 'summary', current: 'Old', proposed: 'New' }] : undefined;
+      }
+    }
+    const client = new DescribingClient();
+    const result = await client.dryRun(async () => {
+      await client.http.post('/rest/api/2/issue', { fields: { summary: 'Other' } });
+      await client.http.put('/rest/api/2/issue/PROJ-1', { fields: { summary: 'New' } });
+    });
+
+    expect(result.requests[0].changes).toBeUndefined();
+    expect(result.requests[1].changes).toEqual([{ field: 'summary', current: 'Old', proposed: 'New' }]);
+  });
+
+  it('sends writes again once the run is over', async () => {
+    const client = new TestClient();
+    await client.dryRun(() => client.http.post('/rest/api/2/issue', {}));
+    await client.http.post('/rest/api/2/issue', {});
+    expect(client.sent.map(request => `${request.method} ${request.url}`)).toEqual(['POST /rest/api/2/issue']);
+  });
+});
@@ -0,0 +1,528 @@
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Logger } from '../utils/logger.js';
+import { FieldChange } from '../utils/diff.js';
+import { getProxyConfig } from '../utils/proxy.js';
+import { getOAuthProvider } from '../utils/oauth.js';
+import { ReadOnlyModeError } from '../utils/errors.js';
+
+export type AtlassianProduct = 'jira' | 'confluence';
+
+export function sanitizeError(error: unknown): string {
+  if (error instanceof AxiosError) {
+    const status = error.response?.status || 'unknown';
+    const statusText = error.response?.statusText || '';
+    const message = error.message;
+    return `HTTP ${status} ${statusText}: ${message}`;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'Unknown error';
+}
+
+/**
+ * Retry and concurrency settings shared by all Atlassian clients.
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the initial attempt */
+  maxRetries: number;
+  /** Base delay for exponential backoff, in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff or Retry-After wait, in milliseconds */
+  maxDelayMs: number;
+  /** Maximum number of in-flight requests per host */
+  maxConcurrency: number;
+}
+
+function parseIntEnv(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value < 0 ? defaultValue : value;
+}
+
+/**
+ * Reads the retry policy from MAX_RETRIES, RETRY_BASE_DELAY, RETRY_MAX_DELAY
+ * and MAX_CONCURRENT_REQUESTS.
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxRetries: parseIntEnv('MAX_RETRIES', 3),
+    baseDelayMs: parseIntEnv('RETRY_BASE_DELAY', 500),
+    maxDelayMs: parseIntEnv('RETRY_MAX_DELAY', 30000),
+    maxConcurrency: Math.max(1, parseIntEnv('MAX_CONCURRENT_REQUESTS', 5))
+  };
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_NETWORK_ERRORS = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'];
+
+/**
+ * Per-request options understood by the client's interceptors. Pass them in
+ * a variable of this type, since axios' own config type does not list them.
+ */
+export interface AtlassianRequestConfig extends AxiosRequestConfig {
+  /**
+   * Whether the request may be repeated after a 5xx or network error.
+   * Defaults to true for GET, HEAD, OPTIONS, PUT and DELETE; uploads set it
+   * to false because a repeat can store the file twice.
+   */
+  idempotent?: boolean;
+  /**
+   * Marks a request other than GET that changes nothing, such as a query
+   * sent by POST. It is sent even during a dry run and not audited as a write.
+   */
+  readOnly?: boolean;
+}
+
+type MarkedRequestConfig = InternalAxiosRequestConfig & Pick<AtlassianRequestConfig, 'idempotent' | 'readOnly'>;
+
+type RetryableRequestConfig = MarkedRequestConfig & {
+  retryCount?: number;
+  holdsConcurrencySlot?: boolean;
+};
+
+/**
+ * Counting semaphore used to cap concurrent requests to a host.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Jira and Confluence Cloud usually share a host, so limits are per host rather than per client
+const hostLimiters = new Map<string, ConcurrencyLimiter>();
+
+function getHostLimiter(baseUrl: string, limit: number): ConcurrencyLimiter {
+  let host: string;
+  try {
+    host = new URL(baseUrl).host;
+  } catch {
+    host = baseUrl;
+  }
+
+  let limiter = hostLimiters.get(host);
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter(limit);
+    hostLimiters.set(host, limiter);
+  }
+  return limiter;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * A write recorded instead of being sent during a dry run.
+ */
+export interface DryRunRequest {
+  method: string;
+  path: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+  /** For updates, the fields that would change */
+  changes?: FieldChange[];
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  requests: DryRunRequest[];
+}
+
+// Requests recorded by the dry run the current async call chain belongs to, if any
+const dryRunRequests = new AsyncLocalStorage<DryRunRequest[]>();
+
+// IDs handed out for items "created" during a dry run
+const DRY_RUN_PLACEHOLDER_PATTERN = /\bdry-run-\d+\b/;
+
+/**
+ * Ends a dry run when the operation reads back an item it "created": the
+ * rest of the operation depends on something that does not exist.
+ */
+class DryRunStop extends Error {
+  constructor(path: string) {
+    super(`${path} refers to an item created earlier in the dry run`);
+    this.name = 'DryRunStop';
+  }
+}
+
+function isWrite(config: MarkedRequestConfig): boolean {
+  return (config.method || 'get').toUpperCase() !== 'GET' && !config.readOnly;
+}
+
+/**
+ * A write sent to Atlassian, as recorded for the audit log.
+ */
+export interface WriteRecord {
+  method: string;
+  path: string;
+  /** HTTP status of the last attempt; missing if no response arrived */
+  status?: number;
+  /** Key or ID of the issue, page or other item the response describes */
+  resource?: string;
+  /** Version number of the content after the write, where it has one */
+  version?: number;
+}
+
+// Writes sent for the audited call the current async call chain belongs to, if any
+const auditedWrites = new AsyncLocalStorage<WriteRecord[]>();
+
+/**
+ * Runs an operation and appends every write it sends, through any client,
+ * to the given list. The list is filled in even if the operation fails.
+ */
+export function recordWrites<T>(writes: WriteRecord[], operation: () => Promise<T>): Promise<T> {
+  return auditedWrites.run(writes, operation);
+}
+
+function describeResponse(data: unknown): Pick<WriteRecord, 'resource' | 'version'> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return {};
+  }
+  const { key, id, version } = data as { key?: unknown; id?: unknown; version?: { number?: unknown } };
+  const resource = key ?? id;
+  return {
+    ...((typeof resource === 'string' || typeof resource === 'number') && { resource: String(resource) }),
+    ...(typeof version?.number === 'number' && { version: version.number })
+  };
+}
+
+/**
+ * Returns true if DRY_RUN_MODE makes every write a preview.
+ */
+export function isDryRunMode(): boolean {
+  return process.env.DRY_RUN_MODE === 'true';
+}
+
+/**
+ * Describes a request body for a preview; file uploads are summarised
+ * rather than included.
+ */
+function describeBody(data: unknown): unknown {
+  if (data instanceof FormData) {
+    return {
+      multipart: [...data.entries()].map(([name, value]) => value instanceof Blob
+        ? { name, filename: (value as File).name, contentType: value.type, size: value.size }
+        : { name, value })
+    };
+  }
+  return data;
+}
+
+/**
+ * Common base for the Jira and Confluence clients: authentication, proxy
+ * wiring, retries with backoff, Retry-After handling and per-host concurrency.
+ */
+export abstract class AtlassianHttpClient {
+  protected client: AxiosInstance;
+  protected logger: Logger;
+  protected baseUrl: string;
+  protected retryPolicy: RetryPolicy;
+  /** Whether the client talks to Atlassian Cloud rather than Server/Data Center */
+  protected isCloud: boolean;
+
+  private static readonly VALID_KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+  constructor(product: AtlassianProduct) {
+    const prefix = product.toUpperCase();
+    const displayName = product === 'jira' ? 'Jira' : 'Confluence';
+
+    this.logger = new Logger(`${product}-client`);
+    this.baseUrl = process.env[`${prefix}_URL`] || '';
+    this.retryPolicy = getRetryPolicy();
+    const oauthProvider = getOAuthProvider();
+
+    if (!this.baseUrl && !oauthProvider) {
+      throw new Error(`${prefix}_URL environment variable is required`);
+    }
+
+    // Setup authentication
+    const auth: Pick<AxiosRequestConfig, 'headers' | 'auth'> = {};
+    const username = process.env[`${prefix}_USERNAME`];
+    const apiToken = process.env[`${prefix}_API_TOKEN`];
+    if (process.env[`${prefix}_PERSONAL_TOKEN`]) {
+      // Personal Access Token for Server/Data Center
+      auth.headers = {
+        'Authorization': `Bearer ${process.env[`${prefix}_PERSONAL_TOKEN`]}`
+      };
+    } else if (username && apiToken) {
+      // Username + API Token for Cloud
+      auth.auth = {
+        username,
+        password: apiToken
+      };
+    } else if (oauthProvider) {
+      // OAuth 2.0 (3LO) for Cloud: requests go through api.atlassian.com with a bearer token
+      this.baseUrl = oauthProvider.getApiBaseUrl(product);
+    } else {
+      throw new Error(`${displayName} authentication credentials not found. Set either ${prefix}_PERSONAL_TOKEN, ${prefix}_USERNAME + ${prefix}_API_TOKEN, or ATLASSIAN_OAUTH_* (see --oauth-setup)`);
+    }
+
+    if (!this.baseUrl) {
+      throw new Error(`${prefix}_URL environment variable is required`);
+    }
+
+    this.isCloud = /\.atlassian\.net|api\.atlassian\.com/i.test(this.baseUrl);
+
+    const sslVerify = process.env[`${prefix}_SSL_VERIFY`] !== 'false';
+    const proxyConfig = getProxyConfig(product, this.baseUrl, sslVerify);
+
+    this.client = axios.create({
+      baseURL: this.baseUrl,
+      timeout: 30000,
+      proxy: false, // disable axios built-in proxy; we use proxy agents
+      ...auth,
+      ...proxyConfig
+    });
+
+    this.installRetryHandling();
+    this.installDryRunHandling();
+    this.installReadOnlyHandling();
+    this.installWriteRecording();
+
+    if (!auth.headers && !auth.auth && oauthProvider) {
+      oauthProvider.attach(this.client);
+    }
+
+    this.logger.info(`${displayName} client initialized for ${this.baseUrl}`);
+  }
+
+  protected validateKey(key: string, label: string): void {
+    if (!AtlassianHttpClient.VALID_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid ${label}: only alphanumeric characters, hyphens, and underscores are allowed`);
+    }
+  }
+
+  /**
+   * Runs an operation without changing anything: inside it, writes are
+   * recorded and answered with a placeholder instead of being sent. Updates
+   * are compared with the current state of their target. An operation that
+   * reads back an item it "created" ends there, with the writes so far.
+   */
+  async dryRun(operation: () => Promise<unknown>): Promise<DryRunResult> {
+    const requests: DryRunRequest[] = [];
+    try {
+      await dryRunRequests.run(requests, operation);
+    } catch (error) {
+      if (!(error instanceof DryRunStop)) {
+        throw error;
+      }
+      this.logger.debug(`Dry run stopped after ${requests.length} request(s): ${error.message}`);
+    }
+
+    for (const request of requests) {
+      try {
+        const changes = await this.describeChanges?.(request);
+        if (changes) {
+          request.changes = changes;
+        }
+      } catch (error) {
+        this.logger.debug(`Could not compare ${request.method} ${request.path} with the current state: ${sanitizeError(error)}`);
+      }
+    }
+
+    this.logger.info(`Dry run recorded ${requests.length} request(s)`);
+    return { dryRun: true, requests };
+  }
+
+  /**
+   * Returns the fields a recorded update would change, or undefined if the
+   * request is not an update of a resource that can be fetched.
+   */
+  protected describeChanges?(request: DryRunRequest): Promise<FieldChange[] | undefined>;
+
+  private installDryRunHandling(): void {
+    this.client.interceptors.request.use((config: MarkedRequestConfig) => {
+      const recorded = dryRunRequests.getStore();
+      if (!recorded) {
+        return config;
+      }
+      if (!isWrite(config)) {
+        const query = JSON.stringify(config.params ?? {});
+        if (DRY_RUN_PLACEHOLDER_PATTERN.test(config.url || '') || DRY_RUN_PLACEHOLDER_PATTERN.test(query)) {
+          throw new DryRunStop(config.url || '');
+        }
+        return config;
+      }
+
+      recorded.push({
+        method: (config.method || 'get').toUpperCase(),
+        path: config.url || '',
+        ...(config.params && Object.keys(config.params).length > 0 && { params: config.params }),
+        ...(config.data !== undefined && { body: describeBody(config.data) })
+      });
+
+      // Callers that chain writes get a placeholder ID for what they "created";
+      // uploads get the list of stored attachments, which is empty
+      const placeholder = `dry-run-${recorded.length}`;
+      const body = config.data && typeof config.data === 'object' && !Array.isArray(config.data) ? config.data : {};
+      config.adapter = async () => ({
+        data: config.data instanceof FormData ? [] : { ...body, id: placeholder, key: placeholder },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config
+      });
+      return config;
+    });
+  }
+
+  /**
+   * Refuses every write while READ_ONLY_MODE is enabled, whichever tool sends
+   * it. Writes recorded by a dry run are not sent, so they pass. Request
+   * interceptors run last-registered first, so this runs before a
+   * concurrency slot is taken.
+   */
+  private installReadOnlyHandling(): void {
+    this.client.interceptors.request.use((config: MarkedRequestConfig) => {
+      if (process.env.READ_ONLY_MODE === 'true' && isWrite(config) && !dryRunRequests.getStore()) {
+        throw new ReadOnlyModeError(`Cannot send ${(config.method || 'get').toUpperCase()} ${config.url}: running in read-only mode`);
+      }
+      return config;
+    });
+  }
+
+  private installWriteRecording(): void {
+    // A retried request settles twice, once inside the retry and once for the caller
+    const recorded = new WeakSet<object>();
+
+    const record = (config: MarkedRequestConfig | undefined, outcome: object, response?: AxiosResponse) => {
+      const writes = auditedWrites.getStore();
+      if (!writes || !config || !isWrite(config) || dryRunRequests.getStore() || recorded.has(outcome)) {
+        return;
+      }
+      recorded.add(outcome);
+      writes.push({
+        method: (config.method || 'get').toUpperCase(),
+        path: config.url || '',
+        ...(response && { status: response.status, ...describeResponse(response.data) })
+      });
+    };
+
+    this.client.interceptors.response.use(
+      (response: AxiosResponse) => {
+        record(response.config, response, response);
+        return response;
+      },
+      (error) => {
+        if (error instanceof AxiosError) {
+          record(error.config, error, error.response);
+        }
+        throw error;
+      }
+    );
+  }
+
+  private installRetryHandling(): void {
+    const limiter = getHostLimiter(this.baseUrl, this.retryPolicy.maxConcurrency);
+
+    const releaseSlot = (config: RetryableRequestConfig | undefined) => {
+      if (config?.holdsConcurrencySlot) {
+        config.holdsConcurrencySlot = false;
+        limiter.release();
+      }
+    };
+
+    this.client.interceptors.request.use(async (config: RetryableRequestConfig) => {
+      await limiter.acquire();
+      config.holdsConcurrencySlot = true;
+      return config;
+    });
+
+    this.client.interceptors.response.use(
+      (response: AxiosResponse) => {
+        releaseSlot(response.config);
+        return response;
+      },
+      async (error) => {
+        const config = error instanceof AxiosError ? error.config as RetryableRequestConfig | undefined : undefined;
+        releaseSlot(config);
+
+        if (!config) {
+          throw error;
+        }
+
+        const attempt = config.retryCount || 0;
+        const delay = this.getRetryDelay(error, config, attempt);
+        if (delay === undefined) {
+          throw error;
+        }
+
+        const reason = error.response ? `HTTP ${error.response.status}` : error.code || 'network error';
+        this.logger.warn(`${config.method?.toUpperCase()} ${config.url} failed (${reason}), retrying in ${delay}ms (attempt ${attempt + 1}/${this.retryPolicy.maxRetries})`);
+
+        await sleep(delay);
+        config.retryCount = attempt + 1;
+        return this.client.request(config);
+      }
+    );
+  }
+
+  /**
+   * Returns how long to wait before retrying, or undefined if the request
+   * should not be retried.
+   */
+  private getRetryDelay(error: AxiosError, config: RetryableRequestConfig, attempt: number): number | undefined {
+    const { maxRetries, baseDelayMs, maxDelayMs } = this.retryPolicy;
+    if (attempt >= maxRetries) {
+      return undefined;
+    }
+
+    const status = error.response?.status;
+    const idempotent = config.idempotent ?? IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase());
+
+    // A 429 means the request was not processed, so any method can be retried.
+    // 5xx and network errors may have partially applied, so only idempotent ones are.
+    const retryable = status === 429
+      || (idempotent && status !== undefined && status >= 500 && status !== 501)
+      || (idempotent && !error.response && RETRYABLE_NETWORK_ERRORS.includes(error.code || ''));
+    if (!retryable) {
+      return undefined;
+    }
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      // Waiting longer than the configured maximum would stall the tool call; give up instead
+      return retryAfter <= maxDelayMs ? retryAfter : undefined;
+    }
+
+    // Exponential backoff with full jitter
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
@@ -0,0 +1,64 @@
+import { AxiosAdapter, AxiosInstance } from 'axios';
+import { ConfluenceClient } from './confluence.js';
+
+function createClient(): ConfluenceClient {
+  process.env.CONFLUENCE_URL = 'https://confluence.example.com';
+  process.env.CONFLUENCE_PERSONAL_TOKEN = 'token';
+  return new ConfluenceClient();
+}
+
+function httpOf(client: ConfluenceClient): AxiosInstance {
+  return (client as unknown as { client: AxiosInstance }).client;
+}
+
+describe('searchByLabels', () => {
+  it('keeps the extra query inside the label restriction', async () => {
+    const client = createClient();
+    const search = jest.spyOn(client, 'search').mockResolvedValue({ results: [] });
+
+    await client.searchByLabels(['runbook'], 'all', 'OPS', undefined, 'title ~ "db" OR title ~ "cache"');
+
+    expect(search).toHaveBeenCalledWith('label = "runbook" AND (title ~ "db" OR title ~ "cache") ORDER BY lastmodified DESC', 'OPS', 10);
+  });
+
+  it('refuses a query that would close the parentheses around it', async () => {
+    const client = createClient();
+    const search = jest.spyOn(client, 'search').mockResolvedValue({ results: [] });
+
+    await expect(client.searchByLabels(['runbook'], 'all', 'OPS', undefined, 'title ~ "db") OR (type = page'))
+      .rejects.toThrow('Unbalanced parentheses');
+    expect(search).not.toHaveBeenCalled();
+  });
+});
+
+describe('copyPage dry run', () => {
+  it('records the copies under the placeholder IDs of their new parents, without sending them', async () => {
+    const client = createClient();
+    const pages: Record<string, object> = {
+      '/rest/api/content/100': { id: '100', type: 'page', title: 'Runbook', space: { key: 'OPS' }, body: { storage: { value: '<p>Steps</p>' } } },
+      '/rest/api/content/101': { id: '101', type: 'page', title: 'Restarts', space: { key: 'OPS' }, body: { storage: { value: '<p>Restart</p>' } } },
+      '/rest/api/content/100/child/page': { results: [{ id: '101' }] },
+      '/rest/api/content/101/child/page': { results: [] }
+    };
+    const sent: string[] = [];
+    const adapter: AxiosAdapter = async config => {
+      sent.push(`${(config.method || 'get').toUpperCase()} ${config.url}`);
+      return { data: pages[config.url || ''], status: 200, statusText: 'OK', headers: {}, config };
+    };
+    httpOf(client).defaults.adapter = adapter;
+
+    const result = await client.dryRun(() => client.copyPage('100', { includeDescendants: true }));
+
+    expect(result.requests.map(request => request.body)).toEqual([
+      expect.objectContaining({ title: 'Copy of Runbook', space: { key: 'OPS' } }),
+      expect.objectContaining({ title: 'Copy of Restarts', ancestors: [{ id: 'dry-run-1' }] })
+    ]);
+    expect(sent).toEqual([
+      'GET /rest/api/content/100',
+      'GET /rest/api/content/100',
+      'GET /rest/api/content/100/child/page',
+      'GET /rest/api/content/101',
+      'GET /rest/api/content/101/child/page'
+    ]);
+  });
+});
@@ -1,70 +1,257 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { Logger } from '../utils/logger.js';
-import { getProxyConfig } from '../utils/proxy.js';
+import { AxiosError } from 'axios';
+import { AtlassianHttpClient, AtlassianRequestConfig, DryRunRequest, sanitizeError } from './base.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import { markdownToStorage, storageToMarkdown } from '../utils/markdown.js';
+import { FieldChange, diffLines, formatUnifiedDiff, merge3 } from '../utils/diff.js';
+import { assertBalancedParentheses, combineQuery } from '../utils/query-builder.js';
+import { PageEdit, applyPageEdits, splitStorageBlocks } from '../utils/storage-edit.js';
+import { AttachmentContent, assertAttachmentSize, buildAttachmentForm, getMaxAttachmentSize } from '../utils/attachments.js';
 
-function sanitizeError(error: unknown): string {
-  if (error instanceof AxiosError) {
-    const status = error.response?.status || 'unknown';
-    const statusText = error.response?.statusText || '';
-    const message = error.message;
-    return `HTTP ${status} ${statusText}: ${message}`;
-  }
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return 'Unknown error';
+// Upper bound on pages loaded into a page tree or copied in one call
+const MAX_TREE_PAGES = 500;
+const CHILD_PAGE_LIMIT = 100;
+
+// Characters Confluence does not allow in labels, plus quotes so labels are always safe to embed in CQL
+const INVALID_LABEL_CHARS = /[\s!#&()*,.:;<>?@[\]^"'\\]/;
+
+export type ContentFormat = 'markdown' | 'storage';
+
+export type CommentLocation = 'footer' | 'inline';
+
+export interface ConfluenceVersion {
+  number: number;
+  when?: string;
+  message?: string;
+  minorEdit?: boolean;
+  by?: { displayName?: string };
 }
 
-export class ConfluenceClient {
-  private client: AxiosInstance;
-  private logger: Logger;
-  private baseUrl: string;
+/**
+ * A page, blog post, comment or attachment as returned by the REST API.
+ * Which properties are present depends on the expansions requested.
+ */
+export interface ConfluenceContent {
+  id: string;
+  type: string;
+  title: string;
+  status?: string;
+  space?: { key: string; name?: string };
+  version?: ConfluenceVersion;
+  body?: Partial<Record<'storage' | 'view' | 'markdown', { value: string; representation: string }>>;
+  ancestors?: Array<{ id: string; title: string }>;
+  children?: { page?: ConfluenceResults<ConfluenceContent> };
+  metadata?: { labels?: ConfluenceResults<ConfluenceLabel>; [key: string]: unknown };
+  _links?: Record<string, string>;
+  [key: string]: unknown;
+}
 
-  constructor() {
-    this.logger = new Logger('confluence-client');
-    this.baseUrl = process.env.CONFLUENCE_URL || '';
-    
-    if (!this.baseUrl) {
-      throw new Error('CONFLUENCE_URL environment variable is required');
-    }
-
-    // Setup authentication
-    let auth: any = {};
-    if (process.env.CONFLUENCE_PERSONAL_TOKEN) {
-      // Personal Access Token for Server/Data Center
-      auth.headers = {
-        'Authorization': `Bearer ${process.env.CONFLUENCE_PERSONAL_TOKEN}`
-      };
-    } else if (process.env.CONFLUENCE_USERNAME && process.env.CONFLUENCE_API_TOKEN) {
-      // Username + API Token for Cloud
-      auth.auth = {
-        username: process.env.CONFLUENCE_USERNAME,
-        password: process.env.CONFLUENCE_API_TOKEN
-      };
-    } else {
-      throw new Error('Confluence authentication credentials not found. Set either CONFLUENCE_PERSONAL_TOKEN or CONFLUENCE_USERNAME + CONFLUENCE_API_TOKEN');
-    }
+export interface ConfluenceLabel {
+  id?: string;
+  prefix?: string;
+  name: string;
+  [key: string]: unknown;
+}
 
-    const sslVerify = process.env.CONFLUENCE_SSL_VERIFY !== 'false';
-    const proxyConfig = getProxyConfig('confluence', this.baseUrl, sslVerify);
+/**
+ * An inline comment as returned by the v2 API.
+ */
+export interface ConfluenceInlineComment {
+  id: string;
+  resolutionStatus?: string;
+  version: { number: number };
+  body?: { storage?: { value: string; representation: string } };
+  [key: string]: unknown;
+}
 
-    this.client = axios.create({
-      baseURL: this.baseUrl,
-      timeout: 30000,
-      proxy: false, // disable axios built-in proxy; we use proxy agents
-      ...auth,
-      ...proxyConfig
-    });
+export interface ConfluenceSpace {
+  key: string;
+  name: string;
+  type?: string;
+  description?: { plain?: { value: string } };
+  homepage?: ConfluenceContent;
+  [key: string]: unknown;
+}
 
-    this.logger.info(`Confluence client initialized for ${this.baseUrl}`);
-  }
+/**
+ * A page of a REST API listing; _links.next is set when there are more.
+ */
+export interface ConfluenceResults<T> {
+  results: T[];
+  start?: number;
+  limit?: number;
+  size?: number;
+  _links?: Record<string, string>;
+  [key: string]: unknown;
+}
 
-  private static readonly VALID_KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+/**
+ * Trims and lowercases labels (Confluence stores them in lowercase) and
+ * rejects names Confluence would refuse.
+ */
+function normalizeLabels(labels: string[]): string[] {
+  if (!Array.isArray(labels) || labels.length === 0) {
+    throw new ValidationError('At least one label is required');
+  }
 
-  private validateKey(key: string, label: string): void {
-    if (!ConfluenceClient.VALID_KEY_PATTERN.test(key)) {
-      throw new Error(`Invalid ${label}: only alphanumeric characters, hyphens, and underscores are allowed`);
+  return labels.map(label => {
+    const name = String(label).trim().toLowerCase();
+    if (!name || INVALID_LABEL_CHARS.test(name)) {
+      throw new ValidationError(`Invalid label '${label}': labels cannot be empty or contain spaces or any of !#&()*,.:;<>?@[]^"'\\`);
     }
+    return name;
+  });
+}
+
+export interface PageUpdate {
+  /** New title (default: keep the current title) */
+  title?: string;
+  /** New body, replacing the current one */
+  content?: string;
+  /** Partial edits applied to the current body instead of a full replacement */
+  edits?: PageEdit[];
+  /** Version the caller's content is based on (default: the current version) */
+  version?: number;
+  /** Format of content and edit content (default: storage) */
+  contentFormat?: ContentFormat;
+  /** What to do if the page changed since version: merge (default), fail or overwrite */
+  onConflict?: 'merge' | 'fail' | 'overwrite';
+  /** Optional version comment */
+  message?: string;
+}
+
+/**
+ * The updated page; merge is set when concurrent changes were merged in.
+ */
+export interface PageUpdateResult extends ConfluenceContent {
+  merge?: { baseVersion: number; mergedWithVersion: number };
+}
+
+export interface CommentNode {
+  id: string;
+  author?: string;
+  created?: string;
+  updated?: string;
+  body: string;
+  /** Inline comments: the page text the comment is attached to */
+  selection?: string;
+  /** Inline comments: open, resolved, reopened or dangling (the text was removed) */
+  resolution?: string;
+  replies: CommentNode[];
+}
+
+export interface PageVersions {
+  pageId: string;
+  start: number;
+  limit: number;
+  hasMore: boolean;
+  /** Newest first, with the author's display name */
+  versions: Array<Omit<ConfluenceVersion, 'by'> & { by?: string }>;
+}
+
+export interface PageVersionDiff {
+  pageId: string;
+  from: PageVersionSummary;
+  to: PageVersionSummary;
+  added: number;
+  removed: number;
+  /** Unified diff of the Markdown renderings, or "No changes" */
+  diff: string;
+}
+
+interface PageVersionSummary {
+  number?: number;
+  by?: string;
+  when?: string;
+  title: string;
+}
+
+export interface PageComments {
+  pageId: string;
+  location: CommentLocation;
+  start: number;
+  limit: number;
+  size: number;
+  hasMore: boolean;
+  /** Top-level comments, with replies nested below them */
+  comments: CommentNode[];
+}
+
+// A comment with the expansions getComments requests
+interface ExpandedComment extends ConfluenceContent {
+  history?: { createdBy?: { displayName?: string }; createdDate?: string };
+  extensions?: { inlineProperties?: { originalSelection?: string }; resolution?: { status?: string } };
+}
+
+// An attachment with the fields downloadAttachment reads
+interface AttachmentMeta extends ConfluenceContent {
+  extensions?: { fileSize?: number; mediaType?: string };
+  metadata?: ConfluenceContent['metadata'] & { mediaType?: string };
+  _links?: Record<string, string> & { download?: string };
+}
+
+export interface PageTreeNode {
+  id: string;
+  title: string;
+  hasChildren: boolean;
+  /** Child pages, present when they were loaded (within the depth limit) */
+  children?: PageTreeNode[];
+}
+
+export interface PageTree {
+  spaceKey: string;
+  rootPageId?: string;
+  depth: number;
+  pageCount: number;
+  /** Set when MAX_TREE_PAGES was reached before the whole tree was loaded */
+  truncated: boolean;
+  pages: PageTreeNode[];
+}
+
+export interface PageAncestors {
+  id: string;
+  title: string;
+  space?: { key: string; name?: string };
+  /** From the top of the space down to the page's parent */
+  ancestors: Array<{ id: string; title: string }>;
+  breadcrumb: string;
+}
+
+export type MovePosition = 'append' | 'before' | 'after';
+
+export interface PageCopyOptions {
+  /** Page to copy under (default: the source page's parent, or spaceKey's top level) */
+  parentId?: string;
+  /** Space to copy to the top level of, when parentId is not given */
+  spaceKey?: string;
+  /** Title of the copied page (default: titlePrefix + the source title) */
+  title?: string;
+  /** Prefix for copied titles (default: "Copy of " within the same space, none otherwise) */
+  titlePrefix?: string;
+  /** Copy the page's descendants as well */
+  includeDescendants?: boolean;
+}
+
+export interface PageCopyResult {
+  id: string;
+  title: string;
+  spaceKey: string;
+  parentId?: string;
+  pageCount: number;
+  /** Every copied page with the page it was copied from */
+  pages: Array<{ sourceId: string; id: string; title: string }>;
+}
+
+/**
+ * Splits Markdown into lines for merging. Joining the lines with '' gives
+ * back the input exactly.
+ */
+function splitMarkdownLines(markdown: string): string[] {
+  return markdown ? markdown.split(/(?<=\n)/) : [];
+}
+
+export class ConfluenceClient extends AtlassianHttpClient {
+  constructor() {
+    super('confluence');
   }
 
   async search(query: string, spaceKey?: string, limit: number = 10): Promise<any> {
@@ -76,18 +263,14 @@ export class ConfluenceClient {
 
       if (spaceKey) {
         this.validateKey(spaceKey, 'space key');
-        params.cql = `space = "${spaceKey}" AND ${query}`;
+        params.cql = combineQuery([`space = "${spaceKey}"`], query);
       }
 
       // Check for spaces filter
-      const spacesFilter = process.env.CONFLUENCE_SPACES_FILTER;
+      const spacesFilter = this.getSpacesFilter();
       if (spacesFilter && !spaceKey) {
-        const spaces = spacesFilter.split(',').map(s => {
-          const trimmed = s.trim();
-          this.validateKey(trimmed, 'space filter key');
-          return `"${trimmed}"`;
-        }).join(',');
-        params.cql = `space in (${spaces}) AND ${query}`;
+        const spaces = spacesFilter.map(space => `"${space}"`).join(',');
+        params.cql = combineQuery([`space in (${spaces})`], query);
       }
 
       const response = await this.client.get('/rest/api/content/search', { params });
@@ -100,28 +283,78 @@ export class ConfluenceClient {
     }
   }
 
-  async getPage(pageId: string, expand?: string): Promise<any> {
+  /**
+   * Returns the space keys from CONFLUENCE_SPACES_FILTER, or undefined if unset.
+   */
+  private getSpacesFilter(): string[] | undefined {
+    const spacesFilter = process.env.CONFLUENCE_SPACES_FILTER;
+    if (!spacesFilter) {
+      return undefined;
+    }
+
+    return spacesFilter.split(',').map(s => {
+      const trimmed = s.trim();
+      this.validateKey(trimmed, 'space filter key');
+      return trimmed;
+    });
+  }
+
+  /**
+   * Throws if CONFLUENCE_SPACES_FILTER is set and does not include the space.
+   */
+  assertSpaceAllowed(spaceKey: string | undefined, resource: string): void {
+    const spaces = this.getSpacesFilter();
+    if (spaces && !spaces.some(space => space.toUpperCase() === spaceKey?.toUpperCase())) {
+      throw new ValidationError(`${resource} is outside the spaces allowed by CONFLUENCE_SPACES_FILTER (${spaces.join(', ')})`);
+    }
+  }
+
+  /**
+   * Gets a page, or a historical version of it when version is given.
+   */
+  async getPage(pageId: string, expand?: string, contentFormat: ContentFormat = 'storage', version?: number): Promise<ConfluenceContent> {
     try {
       const params: any = {};
       if (expand) {
         params.expand = expand;
       }
+      if (version !== undefined) {
+        params.status = 'historical';
+        params.version = version;
+      }
+
+      // Markdown is rendered from the storage body, so make sure it is fetched
+      if (contentFormat === 'markdown') {
+        const expansions = expand ? expand.split(',').map(e => e.trim()) : [];
+        if (!expansions.includes('body.storage')) {
+          expansions.push('body.storage');
+        }
+        params.expand = expansions.join(',');
+      }
 
-      const response = await this.client.get(`/rest/api/content/${pageId}`, { params });
+      const response = await this.client.get<ConfluenceContent>(`/rest/api/content/${pageId}`, { params });
       
-      this.logger.debug(`Retrieved page: ${pageId}`);
-      return response.data;
+      this.logger.debug(`Retrieved page: ${pageId}${version !== undefined ? ` version ${version}` : ''}`);
+
+      const page = response.data;
+      if (contentFormat === 'markdown' && page.body?.storage) {
+        const { storage, ...otherBodies } = page.body;
+        page.body = {
+          ...otherBodies,
+          markdown: {
+            value: storageToMarkdown(storage.value || ''),
+            representation: 'markdown'
+          }
+        };
+      }
+      return page;
     } catch (error) {
-      this.logger.error(`Failed to get page ${pageId}: ${sanitizeError(error)}`);
+      this.logger.error(`Failed to get page ${pageId}${version !== undefined ? ` version ${version}` : ''}: ${sanitizeError(error)}`);
       throw error;
     }
   }
 
-  async createPage(spaceKey: string, title: string, content: string, parentId?: string): Promise<any> {
-    if (process.env.READ_ONLY_MODE === 'true') {
-      throw new Error('Cannot create page: running in read-only mode');
-    }
-
+  async createPage(spaceKey: string, title: string, content: string, parentId?: string, contentFormat: ContentFormat = 'storage'): Promise<ConfluenceContent> {
     try {
       const pageData: any = {
         type: 'page',
@@ -129,7 +362,7 @@ export class ConfluenceClient {
         space: { key: spaceKey },
         body: {
           storage: {
-            value: content,
+            value: contentFormat === 'markdown' ? markdownToStorage(content) : content,
             representation: 'storage'
           }
         }
@@ -149,33 +382,749 @@ export class ConfluenceClient {
     }
   }
 
-  async updatePage(pageId: string, title: string, content: string, version: number): Promise<any> {
-    if (process.env.READ_ONLY_MODE === 'true') {
-      throw new Error('Cannot update page: running in read-only mode');
+  /**
+   * Updates a page without losing concurrent changes. The current version is
+   * fetched first; if the caller's content is based on an older version, the
+   * changes on both sides are merged block by block against that base version
+   * (or the update fails or overwrites, depending on onConflict). Partial edits
+   * are always applied to the current body.
+   */
+  async updatePage(pageId: string, update: PageUpdate): Promise<PageUpdateResult> {
+    try {
+      if (update.content !== undefined && update.edits?.length) {
+        throw new ValidationError('Pass either content or edits, not both');
+      }
+
+      // Another update landing between the read and the write fails with 409; start over once
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await this.writePageUpdate(pageId, update);
+        } catch (error) {
+          if (attempt === 0 && error instanceof AxiosError && error.response?.status === 409) {
+            this.logger.warn(`Page ${pageId} changed during the update, retrying`);
+            continue;
+          }
+          throw error;
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to update page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  private async writePageUpdate(pageId: string, update: PageUpdate): Promise<PageUpdateResult> {
+    const { data: current } = await this.client.get<ConfluenceContent>(`/rest/api/content/${pageId}`, {
+      params: { expand: 'body.storage,version' }
+    });
+    const currentVersion = current.version!.number;
+    const currentBody: string = current.body?.storage?.value || '';
+    const baseVersion = update.version ?? currentVersion;
+
+    if (baseVersion > currentVersion) {
+      throw new ValidationError(`Page ${pageId} has no version ${baseVersion}; the current version is ${currentVersion}`);
+    }
+
+    const toStorage = (content: string) => update.contentFormat === 'markdown' ? markdownToStorage(content) : content;
+
+    let body = currentBody;
+    let merged = false;
+
+    if (update.edits?.length) {
+      body = applyPageEdits(currentBody, update.edits, toStorage);
+    } else if (update.content !== undefined) {
+      body = toStorage(update.content);
+
+      if (baseVersion !== currentVersion) {
+        const onConflict = update.onConflict || 'merge';
+        if (onConflict === 'fail') {
+          throw new ConflictError(`Page ${pageId} is at version ${currentVersion}, but the update is based on version ${baseVersion}`);
+        }
+
+        if (onConflict === 'merge') {
+          const base = await this.getPageVersion(pageId, baseVersion);
+          const baseBody: string = base.body?.storage?.value || '';
+          // Markdown is merged as Markdown: the conversion to storage is lossy, so
+          // comparing it with the stored versions would flag blocks nobody changed
+          const markdown = update.contentFormat === 'markdown';
+          const result = markdown
+            ? merge3(
+              splitMarkdownLines(storageToMarkdown(baseBody)),
+              splitMarkdownLines(update.content),
+              splitMarkdownLines(storageToMarkdown(currentBody))
+            )
+            : merge3(
+              splitStorageBlocks(baseBody),
+              splitStorageBlocks(body),
+              splitStorageBlocks(currentBody)
+            );
+          if (result.conflicts.length > 0) {
+            throw new ConflictError(
+              `Page ${pageId} changed since version ${baseVersion} (now ${currentVersion}) and ${result.conflicts.length} ` +
+              'of the changes overlap. Fetch the current page, reapply your changes and update with the new version',
+              result.conflicts
+            );
+          }
+          body = markdown ? markdownToStorage(result.lines.join('')) : result.lines.join('');
+          merged = true;
+        } else {
+          this.logger.warn(`Overwriting page ${pageId} version ${currentVersion} with content based on version ${baseVersion}`);
+        }
+      }
+    }
+
+    const title = update.title ?? current.title;
+    const pageData = {
+      id: pageId,
+      type: current.type,
+      title,
+      body: {
+        storage: {
+          value: body,
+          representation: 'storage'
+        }
+      },
+      version: {
+        number: currentVersion + 1,
+        ...(update.message && { message: update.message })
+      }
+    };
+
+    const response = await this.client.put<PageUpdateResult>(`/rest/api/content/${pageId}`, pageData);
+
+    this.logger.info(`Updated page: ${title} (${pageId})${merged ? `, merged with changes since version ${baseVersion}` : ''}`);
+    const result = response.data;
+    if (merged) {
+      result.merge = { baseVersion, mergedWithVersion: currentVersion };
+    }
+    return result;
+  }
+
+  /**
+   * Compares a previewed page update with the current page: title, parent,
+   * and the body as a diff of its Markdown rendering.
+   */
+  protected async describeChanges(request: DryRunRequest): Promise<FieldChange[] | undefined> {
+    if (request.method !== 'PUT' || !/^\/rest\/api\/content\/\d+$/.test(request.path)) {
+      return undefined;
+    }
+
+    const { data: current } = await this.client.get<ConfluenceContent>(request.path, { params: { expand: 'body.storage,version,ancestors' } });
+    const proposed = (request.body || {}) as Partial<ConfluenceContent>;
+    const changes: FieldChange[] = [];
+
+    if (proposed.title !== undefined && proposed.title !== current.title) {
+      changes.push({ field: 'title', current: current.title, proposed: proposed.title });
+    }
+
+    const proposedParent = proposed.ancestors?.[0]?.id;
+    const currentParent = current.ancestors?.[current.ancestors.length - 1]?.id;
+    if (proposedParent !== undefined && String(proposedParent) !== String(currentParent)) {
+      changes.push({ field: 'parent', current: currentParent ?? null, proposed: proposedParent });
+    }
+
+    const proposedBody = proposed.body?.storage?.value;
+    if (proposedBody !== undefined) {
+      const before = storageToMarkdown(current.body?.storage?.value || '').split('\n');
+      const diff = formatUnifiedDiff(diffLines(before, storageToMarkdown(proposedBody).split('\n')));
+      if (diff) {
+        changes.push({ field: 'body', diff });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Fetches a historical version of a page, including its body.
+   */
+  async getPageVersion(pageId: string, version: number, contentFormat: ContentFormat = 'storage'): Promise<ConfluenceContent> {
+    return this.getPage(pageId, 'body.storage,version', contentFormat, version);
+  }
+
+  /**
+   * Lists a page's versions, newest first.
+   */
+  async getPageVersions(pageId: string, limit: number = 25, start: number = 0): Promise<PageVersions> {
+    try {
+      // Server/Data Center only has the versions endpoint under the experimental API
+      const path = this.isCloud ? `/rest/api/content/${pageId}/version` : `/rest/experimental/content/${pageId}/version`;
+      const response = await this.client.get<ConfluenceResults<ConfluenceVersion>>(path, { params: { limit, start } });
+
+      const versions = (response.data.results || []).map(version => ({
+        number: version.number,
+        by: version.by?.displayName,
+        when: version.when,
+        message: version.message || undefined,
+        minorEdit: version.minorEdit
+      }));
+
+      this.logger.debug(`Retrieved ${versions.length} versions of page: ${pageId}`);
+      return { pageId, start, limit, hasMore: Boolean(response.data._links?.next), versions };
+    } catch (error) {
+      this.logger.error(`Failed to get versions of page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
     }
+  }
 
+  /**
+   * Diffs two versions of a page line by line after rendering both as
+   * Markdown, so the result shows text changes rather than XHTML noise.
+   * @param toVersion - Newer version (default: the current version)
+   */
+  async diffPageVersions(pageId: string, fromVersion: number, toVersion?: number): Promise<PageVersionDiff> {
     try {
-      const pageData = {
-        id: pageId,
-        type: 'page',
-        title,
+      const [from, to] = await Promise.all([
+        this.getPageVersion(pageId, fromVersion, 'markdown'),
+        toVersion === undefined
+          ? this.getPage(pageId, 'body.storage,version', 'markdown')
+          : this.getPageVersion(pageId, toVersion, 'markdown')
+      ]);
+
+      const fromLines = (from.body?.markdown?.value || '').split('\n');
+      const toLines = (to.body?.markdown?.value || '').split('\n');
+      if (from.title !== to.title) {
+        fromLines.unshift(`# ${from.title}`, '');
+        toLines.unshift(`# ${to.title}`, '');
+      }
+
+      const diff = diffLines(fromLines, toLines);
+      const describe = (page: ConfluenceContent): PageVersionSummary => ({ number: page.version?.number, by: page.version?.by?.displayName, when: page.version?.when, title: page.title });
+
+      this.logger.debug(`Diffed page ${pageId} versions ${fromVersion} and ${to.version?.number}`);
+      return {
+        pageId,
+        from: describe(from),
+        to: describe(to),
+        added: diff.filter(line => line.type === 'added').length,
+        removed: diff.filter(line => line.type === 'removed').length,
+        diff: formatUnifiedDiff(diff) || 'No changes'
+      };
+    } catch (error) {
+      this.logger.error(`Failed to diff page ${pageId} versions: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Restores a previous version by saving its title and body as a new
+   * version; the history in between is kept.
+   */
+  async restorePageVersion(pageId: string, version: number, message?: string): Promise<PageUpdateResult> {
+    try {
+      const old = await this.getPageVersion(pageId, version);
+      const result = await this.updatePage(pageId, {
+        title: old.title,
+        content: old.body?.storage?.value || '',
+        message: message || `Restored version ${version}`
+      });
+
+      this.logger.info(`Restored page ${pageId} to version ${version}`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to restore page ${pageId} to version ${version}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the page hierarchy of a space, or below one page, down to depth
+   * levels. At most MAX_TREE_PAGES pages are loaded.
+   */
+  async getPageTree(spaceKey: string, rootPageId?: string, depth: number = 3): Promise<PageTree> {
+    try {
+      if (!Number.isInteger(depth) || depth < 1 || depth > 10) {
+        throw new ValidationError('depth must be between 1 and 10');
+      }
+
+      let roots: ConfluenceContent[];
+      if (rootPageId) {
+        const { data: root } = await this.client.get<ConfluenceContent>(`/rest/api/content/${rootPageId}`, {
+          params: { expand: 'space' }
+        });
+        if (root.space?.key !== spaceKey) {
+          throw new ValidationError(`Page ${rootPageId} is in space ${root.space?.key}, not ${spaceKey}`);
+        }
+        roots = await this.getChildPages(rootPageId);
+      } else {
+        roots = await this.getAllPages(`/rest/api/space/${encodeURIComponent(spaceKey)}/content/page`, { depth: 'root' });
+      }
+
+      let pageCount = 0;
+      let truncated = false;
+      const toNodes = async (pages: ConfluenceContent[], level: number): Promise<PageTreeNode[]> => {
+        const nodes: PageTreeNode[] = [];
+        for (const page of pages) {
+          if (pageCount >= MAX_TREE_PAGES) {
+            truncated = true;
+            break;
+          }
+          pageCount++;
+
+          const node: PageTreeNode = { id: page.id, title: page.title, hasChildren: (page.children?.page?.size || 0) > 0 };
+          if (node.hasChildren && level < depth) {
+            node.children = await toNodes(await this.getChildPages(page.id), level + 1);
+          }
+          nodes.push(node);
+        }
+        return nodes;
+      };
+
+      const pages = await toNodes(roots, 1);
+
+      this.logger.debug(`Retrieved page tree of space ${spaceKey}: ${pageCount} pages`);
+      return { spaceKey, rootPageId, depth, pageCount, truncated, pages };
+    } catch (error) {
+      this.logger.error(`Failed to get page tree of space ${spaceKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns a page's ancestors from the top of the space down, and a
+   * breadcrumb string.
+   */
+  async getPageAncestors(pageId: string): Promise<PageAncestors> {
+    try {
+      const response = await this.client.get<ConfluenceContent>(`/rest/api/content/${pageId}`, {
+        params: { expand: 'ancestors,space' }
+      });
+      const page = response.data;
+      const ancestors = (page.ancestors || []).map(ancestor => ({ id: ancestor.id, title: ancestor.title }));
+
+      this.logger.debug(`Retrieved ${ancestors.length} ancestors of page: ${pageId}`);
+      return {
+        id: page.id,
+        title: page.title,
+        space: page.space && { key: page.space.key, name: page.space.name },
+        ancestors,
+        breadcrumb: [page.space?.name, ...ancestors.map(ancestor => ancestor.title), page.title].filter(Boolean).join(' > ')
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get ancestors of page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a page, with its descendants, relative to a target page: as the
+   * target's last child (append) or as its sibling (before/after).
+   * Server/Data Center only supports append within a space.
+   */
+  async movePage(pageId: string, targetId: string, position: MovePosition = 'append'): Promise<ConfluenceContent> {
+    try {
+      if (!['append', 'before', 'after'].includes(position)) {
+        throw new ValidationError(`Invalid position '${position}': use append, before or after`);
+      }
+      if (pageId === targetId) {
+        throw new ValidationError('A page cannot be moved relative to itself');
+      }
+
+      let result: ConfluenceContent;
+      if (this.isCloud) {
+        const response = await this.client.put<ConfluenceContent>(`/rest/api/content/${pageId}/move/${position}/${targetId}`);
+        result = response.data;
+      } else {
+        result = await this.reparentPage(pageId, targetId, position);
+      }
+
+      this.logger.info(`Moved page ${pageId} (${position} ${targetId})`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to move page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Server/Data Center has no move endpoint, so a page is moved by updating
+   * its parent.
+   */
+  private async reparentPage(pageId: string, targetId: string, position: MovePosition): Promise<ConfluenceContent> {
+    if (position !== 'append') {
+      throw new ValidationError('Moving a page before or after another page requires Confluence Cloud; use position "append" to move it under a new parent');
+    }
+
+    const [{ data: page }, { data: target }] = await Promise.all([
+      this.client.get<ConfluenceContent>(`/rest/api/content/${pageId}`, { params: { expand: 'body.storage,version,space' } }),
+      this.client.get<ConfluenceContent>(`/rest/api/content/${targetId}`, { params: { expand: 'space' } })
+    ]);
+    if (page.space?.key !== target.space?.key) {
+      throw new ValidationError('Moving pages between spaces requires Confluence Cloud');
+    }
+
+    const response = await this.client.put<ConfluenceContent>(`/rest/api/content/${pageId}`, {
+      id: pageId,
+      type: page.type,
+      title: page.title,
+      ancestors: [{ id: targetId }],
+      body: { storage: { value: page.body?.storage?.value || '', representation: 'storage' } },
+      version: { number: page.version!.number + 1 }
+    });
+    return response.data;
+  }
+
+  /**
+   * Copies a page, and optionally its descendants, by creating new pages with
+   * the same body and labels. Attachments are not copied.
+   */
+  async copyPage(pageId: string, options: PageCopyOptions = {}): Promise<PageCopyResult> {
+    const copied: Array<{ sourceId: string; id: string; title: string }> = [];
+    try {
+      const { data: source } = await this.client.get<ConfluenceContent>(`/rest/api/content/${pageId}`, {
+        params: { expand: 'space,ancestors' }
+      });
+
+      let spaceKey: string = source.space!.key;
+      let parentId: string | undefined = source.ancestors?.[source.ancestors.length - 1]?.id;
+      if (options.parentId) {
+        const { data: parent } = await this.client.get<ConfluenceContent>(`/rest/api/content/${options.parentId}`, {
+          params: { expand: 'space' }
+        });
+        spaceKey = parent.space!.key;
+        parentId = parent.id;
+      } else if (options.spaceKey) {
+        spaceKey = options.spaceKey;
+        parentId = undefined;
+      }
+
+      // Titles are unique per space, so copies within the same space need a different title
+      const titlePrefix = options.titlePrefix ?? (spaceKey === source.space!.key ? 'Copy of ' : '');
+
+      const copyTree = async (sourceId: string, targetParentId: string | undefined, title?: string): Promise<void> => {
+        if (copied.length >= MAX_TREE_PAGES) {
+          throw new ValidationError(`Cannot copy more than ${MAX_TREE_PAGES} pages at once`);
+        }
+
+        const { data: page } = await this.client.get<ConfluenceContent>(`/rest/api/content/${sourceId}`, {
+          params: { expand: 'body.storage,metadata.labels' }
+        });
+        // Listed before the copy is created, in case it is created under one of these pages
+        const children = options.includeDescendants ? await this.getChildPages(sourceId) : [];
+
+        const labels = (page.metadata?.labels?.results || []).map(label => ({ prefix: label.prefix || 'global', name: label.name }));
+        const { data: created } = await this.client.post<ConfluenceContent>('/rest/api/content', {
+          type: 'page',
+          title: title ?? `${titlePrefix}${page.title}`,
+          space: { key: spaceKey },
+          body: { storage: { value: page.body?.storage?.value || '', representation: 'storage' } },
+          ...(targetParentId && { ancestors: [{ id: targetParentId }] }),
+          ...(labels.length > 0 && { metadata: { labels } })
+        });
+        copied.push({ sourceId, id: created.id, title: created.title });
+
+        for (const child of children) {
+          await copyTree(child.id, created.id);
+        }
+      };
+
+      await copyTree(pageId, parentId, options.title);
+
+      this.logger.info(`Copied page ${pageId} to ${copied[0].id} (${copied.length} pages)`);
+      return { id: copied[0].id, title: copied[0].title, spaceKey, parentId, pageCount: copied.length, pages: copied };
+    } catch (error) {
+      const partial = copied.length > 0 ? ` after copying ${copied.length} pages (${copied.map(page => page.id).join(', ')})` : '';
+      this.logger.error(`Failed to copy page ${pageId}${partial}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  private async getChildPages(pageId: string): Promise<ConfluenceContent[]> {
+    return this.getAllPages(`/rest/api/content/${pageId}/child/page`);
+  }
+
+  /**
+   * Fetches every page of a paginated page listing, with each page's direct
+   * children expanded so callers can tell leaves apart.
+   */
+  private async getAllPages(path: string, params: Record<string, string> = {}): Promise<ConfluenceContent[]> {
+    const pages: ConfluenceContent[] = [];
+    while (pages.length < MAX_TREE_PAGES) {
+      const response = await this.client.get<ConfluenceResults<ConfluenceContent>>(path, {
+        params: { ...params, start: pages.length, limit: CHILD_PAGE_LIMIT, expand: 'children.page' }
+      });
+      const results = response.data.results || [];
+      pages.push(...results);
+      // The server may return fewer than asked for, so follow the next link rather than the count
+      if (results.length === 0 || !response.data._links?.next) {
+        break;
+      }
+    }
+    return pages;
+  }
+
+  /**
+   * Lists the footer or inline comments of a page as threads, with replies
+   * nested under the comment they answer.
+   */
+  async getComments(
+    pageId: string,
+    location: CommentLocation = 'footer',
+    contentFormat: ContentFormat = 'markdown',
+    limit: number = 25,
+    start: number = 0
+  ): Promise<PageComments> {
+    try {
+      const params = {
+        location,
+        depth: 'all',
+        limit,
+        start,
+        expand: 'body.storage,history,version,ancestors,extensions.inlineProperties,extensions.resolution'
+      };
+      const response = await this.client.get<ConfluenceResults<ExpandedComment>>(`/rest/api/content/${pageId}/child/comment`, { params });
+      const results = response.data.results || [];
+
+      const nodes = new Map<string, CommentNode>();
+      for (const comment of results) {
+        const storage = comment.body?.storage?.value || '';
+        nodes.set(comment.id, {
+          id: comment.id,
+          author: comment.history?.createdBy?.displayName ?? comment.version?.by?.displayName,
+          created: comment.history?.createdDate,
+          updated: comment.version?.when,
+          body: contentFormat === 'markdown' ? storageToMarkdown(storage) : storage,
+          ...(location === 'inline' && {
+            selection: comment.extensions?.inlineProperties?.originalSelection,
+            resolution: comment.extensions?.resolution?.status
+          }),
+          replies: []
+        });
+      }
+
+      // A reply's ancestors are the comments above it; attach it to the nearest one
+      const threads: CommentNode[] = [];
+      for (const comment of results) {
+        const node = nodes.get(comment.id)!;
+        const parentId = comment.ancestors?.[comment.ancestors.length - 1]?.id;
+        const parent = parentId ? nodes.get(parentId) : undefined;
+        if (parent) {
+          parent.replies.push(node);
+        } else {
+          threads.push(node);
+        }
+      }
+
+      this.logger.debug(`Retrieved ${results.length} ${location} comments for page: ${pageId}`);
+      return { pageId, location, start, limit, size: results.length, hasMore: Boolean(response.data._links?.next), comments: threads };
+    } catch (error) {
+      this.logger.error(`Failed to get comments for page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a footer comment to a page, or a reply to an existing comment.
+   */
+  async addComment(pageId: string, content: string, parentCommentId?: string, contentFormat: ContentFormat = 'storage'): Promise<ConfluenceContent> {
+    try {
+      const commentData: Record<string, unknown> = {
+        type: 'comment',
+        container: { id: pageId, type: 'page' },
         body: {
           storage: {
-            value: content,
+            value: contentFormat === 'markdown' ? markdownToStorage(content) : content,
             representation: 'storage'
           }
-        },
-        version: {
-          number: version + 1
         }
       };
 
-      const response = await this.client.put(`/rest/api/content/${pageId}`, pageData);
-      
-      this.logger.info(`Updated page: ${title} (${pageId})`);
+      if (parentCommentId) {
+        commentData.ancestors = [{ id: parentCommentId }];
+      }
+
+      const response = await this.client.post<ConfluenceContent>('/rest/api/content', commentData);
+
+      this.logger.info(`Added comment ${response.data.id} to page: ${pageId}`);
       return response.data;
     } catch (error) {
-      this.logger.error(`Failed to update page ${pageId}: ${sanitizeError(error)}`);
+      this.logger.error(`Failed to add comment to page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves or reopens an inline comment. Only Cloud exposes this, through
+   * the v2 API.
+   */
+  async resolveInlineComment(commentId: string, resolved: boolean = true): Promise<ConfluenceInlineComment> {
+    try {
+      if (!this.isCloud) {
+        throw new ValidationError('Resolving inline comments requires Confluence Cloud');
+      }
+      this.validateKey(commentId, 'comment ID');
+
+      const { data: comment } = await this.client.get<ConfluenceInlineComment>(`/api/v2/inline-comments/${commentId}`, {
+        params: { 'body-format': 'storage' }
+      });
+
+      const response = await this.client.put<ConfluenceInlineComment>(`/api/v2/inline-comments/${commentId}`, {
+        version: { number: comment.version.number + 1 },
+        body: { representation: 'storage', value: comment.body?.storage?.value || '' },
+        resolved
+      });
+
+      this.logger.info(`${resolved ? 'Resolved' : 'Reopened'} inline comment: ${commentId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to update inline comment ${commentId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async getLabels(pageId: string): Promise<ConfluenceResults<ConfluenceLabel>> {
+    try {
+      const response = await this.client.get<ConfluenceResults<ConfluenceLabel>>(`/rest/api/content/${pageId}/label`, { params: { limit: 200 } });
+
+      this.logger.debug(`Retrieved ${response.data.results?.length || 0} labels for page: ${pageId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get labels for page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async addLabels(pageId: string, labels: string[]): Promise<ConfluenceResults<ConfluenceLabel>> {
+    try {
+      const labelData = normalizeLabels(labels).map(name => ({ prefix: 'global', name }));
+      const response = await this.client.post<ConfluenceResults<ConfluenceLabel>>(`/rest/api/content/${pageId}/label`, labelData);
+
+      this.logger.info(`Added labels ${labelData.map(label => label.name).join(', ')} to page: ${pageId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to add labels to page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async removeLabels(pageId: string, labels: string[]): Promise<ConfluenceResults<ConfluenceLabel>> {
+    try {
+      const names = normalizeLabels(labels);
+      for (const name of names) {
+        await this.client.delete(`/rest/api/content/${pageId}/label/${encodeURIComponent(name)}`);
+      }
+
+      this.logger.info(`Removed labels ${names.join(', ')} from page: ${pageId}`);
+      return this.getLabels(pageId);
+    } catch (error) {
+      this.logger.error(`Failed to remove labels from page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds content by label, newest first. The CQL goes through search(), so
+   * spaceKey and CONFLUENCE_SPACES_FILTER apply as usual.
+   * @param match - Whether content must have all of the labels or any of them
+   * @param query - Optional extra CQL condition (without ORDER BY)
+   */
+  async searchByLabels(
+    labels: string[],
+    match: 'all' | 'any' = 'all',
+    spaceKey?: string,
+    type?: string,
+    query?: string,
+    limit: number = 10
+  ): Promise<ConfluenceResults<ConfluenceContent>> {
+    const names = normalizeLabels(labels);
+    const conditions = match === 'any'
+      ? [`label in (${names.map(name => `"${name}"`).join(', ')})`]
+      : names.map(name => `label = "${name}"`);
+
+    if (type) {
+      this.validateKey(type, 'content type');
+      conditions.push(`type = ${type}`);
+    }
+    if (query?.trim()) {
+      if (/\border\s+by\b/i.test(query)) {
+        throw new ValidationError('query cannot contain ORDER BY; results are sorted by last modification');
+      }
+      assertBalancedParentheses(query);
+      conditions.push(`(${query})`);
+    }
+
+    return this.search(`${conditions.join(' AND ')} ORDER BY lastmodified DESC`, spaceKey, limit);
+  }
+
+  async getSpace(spaceKey: string, expand: string = 'description.plain,homepage'): Promise<ConfluenceSpace> {
+    try {
+      const params = { expand };
+      // Personal space keys start with ~, so encode rather than validate
+      const response = await this.client.get<ConfluenceSpace>(`/rest/api/space/${encodeURIComponent(spaceKey)}`, { params });
+
+      this.logger.debug(`Retrieved space: ${spaceKey}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get space ${spaceKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async getAttachments(pageId: string, limit: number = 25, start: number = 0): Promise<ConfluenceResults<ConfluenceContent>> {
+    try {
+      const params = { limit, start, expand: 'version' };
+      const response = await this.client.get<ConfluenceResults<ConfluenceContent>>(`/rest/api/content/${pageId}/child/attachment`, { params });
+
+      this.logger.debug(`Retrieved ${response.data.results?.length || 0} attachments for page: ${pageId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get attachments for page ${pageId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async downloadAttachment(attachmentId: string): Promise<AttachmentContent> {
+    try {
+      this.validateKey(attachmentId, 'attachment ID');
+
+      const { data: meta } = await this.client.get<AttachmentMeta>(`/rest/api/content/${attachmentId}`, {
+        params: { expand: 'version' }
+      });
+      assertAttachmentSize(meta.extensions?.fileSize || 0, meta.title);
+      if (!meta._links?.download) {
+        throw new ValidationError(`Content ${attachmentId} is not an attachment or has no download link`);
+      }
+
+      // The download link is relative to the Confluence base URL (including /wiki on Cloud)
+      const response = await this.client.get<ArrayBuffer>(meta._links.download, {
+        responseType: 'arraybuffer',
+        maxContentLength: getMaxAttachmentSize()
+      });
+
+      this.logger.debug(`Downloaded attachment ${attachmentId} (${meta.title})`);
+      return new AttachmentContent(
+        `confluence://attachment/${attachmentId}`,
+        meta.title,
+        meta.extensions?.mediaType || meta.metadata?.mediaType || 'application/octet-stream',
+        Buffer.from(response.data)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to download attachment ${attachmentId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Uploads a file to a page, adding a new version if the page already has an
+   * attachment with the same name.
+   */
+  async uploadAttachment(pageId: string, filename: string, data: Buffer, contentType?: string, comment?: string): Promise<ConfluenceResults<ConfluenceContent>> {
+    try {
+      const form = buildAttachmentForm(filename, data, contentType, {
+        minorEdit: 'true',
+        ...(comment && { comment })
+      });
+      const config: AtlassianRequestConfig = {
+        headers: { 'X-Atlassian-Token': 'no-check' },
+        // A repeated upload would add another version of the attachment
+        idempotent: false
+      };
+      const response = await this.client.put<ConfluenceResults<ConfluenceContent>>(`/rest/api/content/${pageId}/child/attachment`, form, config);
+
+      this.logger.info(`Uploaded attachment ${filename} to page: ${pageId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to upload attachment to page ${pageId}: ${sanitizeError(error)}`);
       throw error;
     }
   }
@@ -0,0 +1,191 @@
+import { AxiosInstance } from 'axios';
+import { JiraClient, decodeSearchCursor, encodeSearchCursor } from './jira.js';
+
+function createClient(): JiraClient {
+  process.env.JIRA_URL = 'https://jira.example.com';
+  process.env.JIRA_PERSONAL_TOKEN = 'token';
+  return new JiraClient();
+}
+
+function httpOf(client: JiraClient): AxiosInstance {
+  return (client as unknown as { client: AxiosInstance }).client;
+}
+
+describe('search cursors', () => {
+  const jql = 'project = PROJ ORDER BY created DESC';
+
+  it('round-trips an offset', () => {
+    const cursor = encodeSearchCursor({ startAt: 100 }, jql);
+    expect(decodeSearchCursor(cursor, jql)).toEqual({ startAt: 100, nextPageToken: undefined });
+  });
+
+  it('round-trips a Cloud page token', () => {
+    const cursor = encodeSearchCursor({ nextPageToken: 'CAEaAggD' }, jql);
+    expect(decodeSearchCursor(cursor, jql)).toEqual({ startAt: undefined, nextPageToken: 'CAEaAggD' });
+  });
+
+  it('is URL-safe', () => {
+    const cursor = encodeSearchCursor({ nextPageToken: '+/+/==??' }, jql);
+    expect(cursor).toMatch(/^[\w-]+$/);
+  });
+
+  it('rejects a cursor from a different query', () => {
+    const cursor = encodeSearchCursor({ startAt: 50 }, jql);
+    expect(() => decodeSearchCursor(cursor, 'project = OTHER')).toThrow('does not belong to this JQL query');
+  });
+
+  it('rejects a cursor that is not one of ours', () => {
+    expect(() => decodeSearchCursor('not a cursor', jql)).toThrow('Invalid search cursor');
+    expect(() => decodeSearchCursor(Buffer.from('null').toString('base64url'), jql)).toThrow('does not belong');
+  });
+});
+
+describe('getWorklogReport', () => {
+  it('drops an ORDER BY from the narrowing JQL', async () => {
+    const client = createClient();
+    const search = jest.spyOn(client, 'searchIssues').mockResolvedValue({ issues: [], isLast: true });
+
+    const report = await client.getWorklogReport('2024-05-01', '2024-05-31', 'jdoe', 'project = PROJ OR labels = ops ORDER BY created DESC');
+
+    expect(search).toHaveBeenCalledWith(
+      'worklogAuthor = "jdoe" AND worklogDate >= "2024-05-01" AND worklogDate <= "2024-05-31" AND (project = PROJ OR labels = ops)',
+      ['summary'],
+      100,
+      { fetchAll: true }
+    );
+    expect(report.totalTimeSpentSeconds).toBe(0);
+  });
+
+  it('accepts JQL that is only an ORDER BY', async () => {
+    const client = createClient();
+    const search = jest.spyOn(client, 'searchIssues').mockResolvedValue({ issues: [], isLast: true });
+
+    await client.getWorklogReport('2024-05-01', '2024-05-31', 'jdoe', 'ORDER BY updated');
+
+    expect(search.mock.calls[0][0]).toBe('worklogAuthor = "jdoe" AND worklogDate >= "2024-05-01" AND worklogDate <= "2024-05-31"');
+  });
+});
+
+describe('transitionIssue', () => {
+  function setUp() {
+    const client = createClient();
+    jest.spyOn(client, 'getTransitions').mockResolvedValue({ transitions: [{ id: '31', name: 'Done', to: { name: 'Done' } }] });
+    const post = jest.spyOn(httpOf(client), 'post').mockResolvedValue({ data: {} });
+    return { client, post };
+  }
+
+  it('converts a Markdown comment to wiki markup', async () => {
+    const { client, post } = setUp();
+    await client.transitionIssue('PROJ-1', 'Done', { comment: 'Fixed in **2.4.0**, see `login.ts`' });
+
+    expect(post).toHaveBeenCalledWith('/rest/api/2/issue/PROJ-1/transitions', {
+      transition: { id: '31' },
+      update: { comment: [{ add: { body: 'Fixed in *2.4.0*, see {{login.ts}}' } }] }
+    });
+  });
+
+  it('sends a wiki markup comment as is', async () => {
+    const { client, post } = setUp();
+    await client.transitionIssue('PROJ-1', 'Done', { comment: 'Fixed in *2.4.0*', contentFormat: 'wiki' });
+
+    expect(post.mock.calls[0][1]).toEqual({
+      transition: { id: '31' },
+      update: { comment: [{ add: { body: 'Fixed in *2.4.0*' } }] }
+    });
+  });
+});
+
+describe('getBoards', () => {
+  afterEach(() => {
+    delete process.env.JIRA_PROJECTS_FILTER;
+  });
+
+  it('passes paging through for a single project', async () => {
+    const client = createClient();
+    const get = jest.spyOn(httpOf(client), 'get').mockResolvedValue({ data: { values: [], startAt: 20, maxResults: 10, isLast: true } });
+
+    await client.getBoards('PROJ', undefined, undefined, 20, 10);
+
+    expect(get).toHaveBeenCalledWith('/rest/agile/1.0/board', { params: { startAt: 20, maxResults: 10, projectKeyOrId: 'PROJ' } });
+  });
+
+  it('pages through the boards of all allowed projects', async () => {
+    process.env.JIRA_PROJECTS_FILTER = 'PROJ,OPS';
+    const client = createClient();
+    const boardsByProject: Record<string, Array<{ id: number; name: string }>> = {
+      PROJ: [{ id: 1, name: 'Proj board' }, { id: 2, name: 'Shared board' }],
+      OPS: [{ id: 2, name: 'Shared board' }, { id: 3, name: 'Ops board' }]
+    };
+    jest.spyOn(httpOf(client), 'get').mockImplementation(async (_url, config) => {
+      const { projectKeyOrId, startAt } = config?.params as { projectKeyOrId: string; startAt: number };
+      // Serve one board per request to exercise paging within a project
+      const values = boardsByProject[projectKeyOrId].slice(startAt, startAt + 1);
+      return { data: { values, isLast: startAt + 1 >= boardsByProject[projectKeyOrId].length } };
+    });
+
+    const first = await client.getBoards(undefined, undefined, undefined, 0, 2);
+    expect(first).toEqual({ values: [{ id: 1, name: 'Proj board' }, { id: 2, name: 'Shared board' }], startAt: 0, maxResults: 2, total: 3, isLast: false });
+
+    const second = await client.getBoards(undefined, undefined, undefined, 2, 2);
+    expect(second).toEqual({ values: [{ id: 3, name: 'Ops board' }], startAt: 2, maxResults: 2, total: 3, isLast: true });
+  });
+});
+
+describe('issue keys in URL paths', () => {
+  it('refuses keys with extra path segments before sending anything', async () => {
+    const client = createClient();
+    const http = httpOf(client);
+    const put = jest.spyOn(http, 'put');
+    const post = jest.spyOn(http, 'post');
+
+    await expect(client.updateIssue('PROJ-1/../OTHER-5', { summary: 'x' })).rejects.toThrow('Invalid issue key: PROJ-1/../OTHER-5');
+    await expect(client.addWorklog('PROJ-1/..', { timeSpent: '1h' })).rejects.toThrow('Invalid issue key');
+    await expect(client.setParent(['PROJ-1', '../OTHER-5'], 'PROJ-2')).rejects.toThrow('Invalid issue key: ../OTHER-5');
+    expect(put).not.toHaveBeenCalled();
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('accepts keys and numeric IDs', async () => {
+    const client = createClient();
+    const get = jest.spyOn(httpOf(client), 'get').mockResolvedValue({ data: { key: 'PROJ-1', fields: {} } });
+
+    await client.getIssue('proj_2-1');
+    await client.getIssue('10001');
+    expect(get.mock.calls.map(call => call[0])).toEqual(['/rest/api/2/issue/proj_2-1', '/rest/api/2/issue/10001']);
+  });
+});
+
+describe('board and sprint projects', () => {
+  it('reads the project from the board location', async () => {
+    const client = createClient();
+    jest.spyOn(httpOf(client), 'get').mockImplementation(async (url: string) => url.includes('/sprint/')
+      ? { data: { id: 5, name: 'Sprint 5', originBoardId: 7 } }
+      : { data: { id: 7, name: 'Board', location: { projectKey: 'PROJ' } } });
+
+    await expect(client.getSprintProjectKey(5)).resolves.toBe('PROJ');
+  });
+
+  it('throws when the project cannot be determined', async () => {
+    const client = createClient();
+    const get = jest.spyOn(httpOf(client), 'get').mockResolvedValue({ data: { id: 7, name: 'Board', location: { userId: 42 } } });
+    await expect(client.getBoardProjectKey(7)).rejects.toThrow('Board 7 is not located in a project');
+
+    get.mockResolvedValue({ data: { id: 5, name: 'Sprint 5' } });
+    await expect(client.getSprintProjectKey(5)).rejects.toThrow('Sprint 5 has no board');
+  });
+});
+
+describe('createSubtask', () => {
+  it('passes extra fields to createIssue and keeps the parent', async () => {
+    const client = createClient();
+    jest.spyOn(client, 'getIssue').mockResolvedValue({ id: '1', key: 'PROJ-1', fields: { project: { key: 'PROJ' } } });
+    const create = jest.spyOn(client, 'createIssue').mockResolvedValue({ id: '2', key: 'PROJ-2' });
+
+    await client.createSubtask('PROJ-1', 'Write tests', undefined, undefined, 'Sub-task', { 'Story Points': 2, parent: { key: 'OTHER-1' } }, 'wiki');
+
+    expect(create).toHaveBeenCalledWith('PROJ', 'Sub-task', 'Write tests', undefined, undefined, {
+      'Story Points': 2,
+      parent: { key: 'PROJ-1' }
+    }, 'wiki');
+  });
+});
@@ -1,107 +1,605 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { Logger } from '../utils/logger.js';
-import { getProxyConfig } from '../utils/proxy.js';
+import { AxiosError } from 'axios';
+import { AtlassianHttpClient, AtlassianRequestConfig, DryRunRequest, sanitizeError } from './base.js';
+import { ValidationError } from '../utils/errors.js';
+import { JiraAllowedValue, JiraFieldMeta, translateFields } from '../utils/jira-fields.js';
+import { AdfDocument, adfToMarkdown, isAdfDocument, markdownToAdf } from '../utils/adf.js';
+import { adfToWiki, markdownToWiki, wikiToMarkdown } from '../utils/jira-wiki.js';
+import { combineQuery, quoteQueryValue, splitOrderBy } from '../utils/query-builder.js';
+import { FieldChange, diffFields } from '../utils/diff.js';
+import { AttachmentContent, assertAttachmentSize, buildAttachmentForm, getMaxAttachmentSize } from '../utils/attachments.js';
+import { createHash } from 'crypto';
 
-function sanitizeError(error: unknown): string {
-  if (error instanceof AxiosError) {
-    const status = error.response?.status || 'unknown';
-    const statusText = error.response?.statusText || '';
-    const message = error.message;
-    return `HTTP ${status} ${statusText}: ${message}`;
+// Upper bound on issues collected by a fetchAll search when no limit is given
+const DEFAULT_FETCH_ALL_LIMIT = 1000;
+
+// Sprint length used when starting a sprint without an end date
+const DEFAULT_SPRINT_LENGTH_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Field definitions and create screens rarely change; refetch them after this long
+const FIELD_METADATA_TTL_MS = 10 * 60 * 1000;
+
+// Queries that passed validation are remembered so repeated searches skip the parse call
+const VALIDATED_JQL_CACHE_SIZE = 200;
+
+/**
+ * Format of descriptions and comments: Markdown, converted to ADF on Cloud
+ * and to wiki markup on Server/Data Center, or Jira wiki markup as is.
+ */
+export type JiraContentFormat = 'markdown' | 'wiki';
+
+const CONTENT_FORMATS: JiraContentFormat[] = ['markdown', 'wiki'];
+
+// An issue key (PROJ-123) or numeric issue ID
+const ISSUE_KEY_PATTERN = /^(?:[A-Za-z][A-Za-z0-9_]*-\d+|\d+)$/;
+
+// System fields returned as rich text alongside comment bodies
+const RICH_TEXT_FIELDS = ['description', 'environment'];
+
+/**
+ * Issue fields as returned by the REST API. Which fields are present
+ * depends on the fields requested.
+ */
+export interface JiraIssueFields {
+  summary?: string;
+  status?: { name: string };
+  issuetype?: { id?: string; name: string; subtask?: boolean };
+  priority?: { name: string };
+  project?: { id?: string; key: string; name?: string };
+  parent?: { key: string; fields?: JiraIssueFields };
+  assignee?: JiraUser | null;
+  reporter?: JiraUser | null;
+  labels?: string[];
+  created?: string;
+  updated?: string;
+  /** Rich text: ADF from the v3 API, wiki markup from v2, Markdown once formatted */
+  description?: unknown;
+  comment?: { comments: JiraComment[]; total?: number };
+  [name: string]: unknown;
+}
+
+export interface JiraUser {
+  /** Cloud */
+  accountId?: string;
+  /** Server/Data Center */
+  name?: string;
+  displayName?: string;
+  [key: string]: unknown;
+}
+
+export interface JiraComment {
+  id: string;
+  author?: JiraUser;
+  created?: string;
+  updated?: string;
+  /** Rich text, like the description */
+  body?: unknown;
+  [key: string]: unknown;
+}
+
+export interface JiraIssue {
+  id: string;
+  key: string;
+  fields: JiraIssueFields;
+  [key: string]: unknown;
+}
+
+/**
+ * A page of search results. Raw page tokens are replaced by nextCursor.
+ */
+export interface JiraSearchResult {
+  issues: JiraIssue[];
+  startAt?: number;
+  maxResults?: number;
+  total?: number;
+  isLast: boolean;
+  nextCursor?: string;
+  [key: string]: unknown;
+}
+
+export interface SearchIssuesOptions {
+  /** Index of the first issue to return (Server/Data Center offset paging) */
+  startAt?: number;
+  /** Keep fetching pages until `limit` issues have been collected */
+  fetchAll?: boolean;
+  /** Maximum number of issues to collect when fetchAll is set */
+  limit?: number;
+  /** Opaque cursor returned as nextCursor by a previous search */
+  cursor?: string;
+  /** Format of descriptions and comments in the results (default: markdown) */
+  contentFormat?: JiraContentFormat;
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  /** Status the transition leads to */
+  to?: { name: string };
+  /** Fields on the transition screen, keyed by field ID */
+  fields?: Record<string, JiraFieldMeta>;
+  [key: string]: unknown;
+}
+
+/**
+ * The transitions available for an issue, from /issue/{key}/transitions.
+ */
+export interface JiraTransitionList {
+  transitions?: JiraTransition[];
+}
+
+export interface JiraIssueLinkType {
+  id: string;
+  name: string;
+  /** How the link reads from the inward issue, e.g. "is blocked by" */
+  inward: string;
+  /** How the link reads from the outward issue, e.g. "blocks" */
+  outward: string;
+}
+
+/**
+ * The issue link types of the site, from /issueLinkType.
+ */
+export interface JiraIssueLinkTypeList {
+  issueLinkTypes?: JiraIssueLinkType[];
+}
+
+export interface JiraIssueLink {
+  id: string;
+  type: JiraIssueLinkType;
+  inwardIssue?: { id?: string; key: string };
+  outwardIssue?: { id?: string; key: string };
+  [key: string]: unknown;
+}
+
+export interface JiraIssueType {
+  id: string;
+  name: string;
+  subtask?: boolean;
+  description?: string;
+}
+
+/**
+ * What can be set when creating an issue: the project's issue types, or,
+ * when an issue type was given, that type and its fields.
+ */
+export interface CreateMetaDescription {
+  projectKey: string;
+  issueTypes?: JiraIssueType[];
+  issueType?: { id: string; name: string };
+  fields?: Array<Pick<JiraFieldMeta, 'fieldId' | 'name' | 'required' | 'schema' | 'allowedValues'>>;
+}
+
+export interface TransitionOptions {
+  /** Additional fields to set on the transition screen */
+  fields?: Record<string, unknown>;
+  /** Resolution name (e.g. Done, Won't Do) */
+  resolution?: string;
+  /** Comment to add as part of the transition */
+  comment?: string;
+  /** Format of the comment (default: markdown) */
+  contentFormat?: JiraContentFormat;
+  /** Assignee: account ID on Cloud, username on Server/Data Center */
+  assignee?: string;
+}
+
+/**
+ * How a worklog change affects the issue's remaining estimate.
+ */
+export interface EstimateAdjustment {
+  /** auto (default), leave, new (set to newEstimate), manual (change by reduceBy/increaseBy) */
+  adjustEstimate?: 'auto' | 'leave' | 'new' | 'manual';
+  /** Remaining estimate to set when adjustEstimate is new (e.g. 2d) */
+  newEstimate?: string;
+  /** Amount to reduce the estimate by when adding with adjustEstimate manual */
+  reduceBy?: string;
+  /** Amount to increase the estimate by when deleting with adjustEstimate manual */
+  increaseBy?: string;
+}
+
+export interface JiraAttachment {
+  id: string;
+  filename: string;
+  mimeType?: string;
+  size?: number;
+  created?: string;
+  author?: { displayName?: string };
+  /** Download URL, on the site itself */
+  content: string;
+  [key: string]: unknown;
+}
+
+export interface JiraWorklog {
+  id: string;
+  author?: { accountId?: string; name?: string; displayName?: string };
+  started?: string;
+  timeSpent?: string;
+  timeSpentSeconds?: number;
+  comment?: string;
+  [key: string]: unknown;
+}
+
+export interface JiraWorklogPage {
+  worklogs: JiraWorklog[];
+  startAt?: number;
+  maxResults?: number;
+  total?: number;
+}
+
+/**
+ * Time a user logged between two dates, per issue and per day.
+ */
+export interface WorklogReport {
+  author: string;
+  startDate: string;
+  endDate: string;
+  totalTimeSpentSeconds: number;
+  totalHours: number;
+  /** Seconds logged per day (YYYY-MM-DD), in date order */
+  byDate: Record<string, number>;
+  issues: Array<{
+    key: string;
+    summary?: string;
+    timeSpentSeconds: number;
+    worklogs: Array<Pick<JiraWorklog, 'id' | 'started' | 'timeSpent' | 'timeSpentSeconds' | 'comment'>>;
+  }>;
+}
+
+export interface JiraBoard {
+  id: number;
+  name: string;
+  type?: string;
+  location?: { projectKey?: string; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+export interface JiraSprint {
+  id: number;
+  name: string;
+  state?: string;
+  startDate?: string;
+  endDate?: string;
+  goal?: string;
+  originBoardId?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * A page of an Agile API listing.
+ */
+export interface AgilePage<T> {
+  values: T[];
+  startAt?: number;
+  maxResults?: number;
+  total?: number;
+  isLast?: boolean;
+  [key: string]: unknown;
+}
+
+export interface WorklogInput {
+  /** Time spent in Jira duration syntax, e.g. 1h 30m or 2d */
+  timeSpent?: string;
+  /** When the work started (ISO 8601); defaults to now when adding */
+  started?: string;
+  comment?: string;
+}
+
+// Jira duration syntax: one or more of <number><w|d|h|m>, e.g. "1w 2d 4h 30m" or "1.5h"
+const JIRA_DURATION_PATTERN = /^\s*(\d+(\.\d+)?\s*[wdhm]\s*)+$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateDuration(value: string, label: string): void {
+  if (!JIRA_DURATION_PATTERN.test(value)) {
+    throw new ValidationError(`Invalid ${label} '${value}': use Jira duration syntax such as 30m, 1h 30m, 2d or 1w`);
   }
-  if (error instanceof Error) {
-    return error.message;
+}
+
+/**
+ * Converts an ISO 8601 timestamp into the format the worklog API expects
+ * (yyyy-MM-dd'T'HH:mm:ss.SSSZ with a +hhmm offset).
+ */
+function toJiraTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid timestamp '${value}': use ISO 8601, e.g. 2024-05-01T09:00:00Z`);
   }
-  return 'Unknown error';
+  return date.toISOString().replace('Z', '+0000');
 }
 
-export class JiraClient {
-  private client: AxiosInstance;
-  private logger: Logger;
-  private baseUrl: string;
+interface CachedMetadata<T> {
+  value: T;
+  expiresAt: number;
+}
 
-  constructor() {
-    this.logger = new Logger('jira-client');
-    this.baseUrl = process.env.JIRA_URL || '';
-    
-    if (!this.baseUrl) {
-      throw new Error('JIRA_URL environment variable is required');
-    }
-
-    // Setup authentication
-    let auth: any = {};
-    if (process.env.JIRA_PERSONAL_TOKEN) {
-      // Personal Access Token for Server/Data Center
-      auth.headers = {
-        'Authorization': `Bearer ${process.env.JIRA_PERSONAL_TOKEN}`
-      };
-    } else if (process.env.JIRA_USERNAME && process.env.JIRA_API_TOKEN) {
-      // Username + API Token for Cloud
-      auth.auth = {
-        username: process.env.JIRA_USERNAME,
-        password: process.env.JIRA_API_TOKEN
-      };
-    } else {
-      throw new Error('Jira authentication credentials not found. Set either JIRA_PERSONAL_TOKEN or JIRA_USERNAME + JIRA_API_TOKEN');
-    }
+interface CreateMeta {
+  issueType: { id: string; name: string };
+  fields: JiraFieldMeta[];
+}
 
-    const sslVerify = process.env.JIRA_SSL_VERIFY !== 'false';
-    const proxyConfig = getProxyConfig('jira', this.baseUrl, sslVerify);
+// A page of a createmeta endpoint: Cloud lists entries under issueTypes/fields, Server/Data Center under values
+type CreateMetaPage<T> = Partial<Record<'issueTypes' | 'fields' | 'values', T[]>> & { isLast?: boolean; total?: number };
 
-    this.client = axios.create({
-      baseURL: this.baseUrl,
-      timeout: 30000,
-      proxy: false, // disable axios built-in proxy; we use proxy agents
-      ...auth,
-      ...proxyConfig
-    });
+// Response of /rest/api/2/jql/parse
+interface JqlParseResult {
+  queries?: Array<{ query: string; errors?: string[] }>;
+}
+
+interface SearchPosition {
+  startAt?: number;
+  nextPageToken?: string;
+}
+
+// A page as returned by /rest/api/2/search (Server/Data Center) or /rest/api/3/search/jql (Cloud)
+interface SearchPage {
+  issues?: JiraIssue[];
+  startAt?: number;
+  total?: number;
+  nextPageToken?: string;
+  isLast?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Finds a transition by ID, by name, or by the name of its target status.
+ */
+function findTransition(transitions: JiraTransition[], transition: string): JiraTransition | undefined {
+  const wanted = transition.trim().toLowerCase();
+  return transitions.find(t => String(t.id) === transition.trim())
+    || transitions.find(t => t.name?.toLowerCase() === wanted)
+    || transitions.find(t => t.to?.name?.toLowerCase() === wanted);
+}
+
+function validateContentFormat(format: string): void {
+  if (!CONTENT_FORMATS.includes(format as JiraContentFormat)) {
+    throw new ValidationError(`Invalid content format '${format}': use ${CONTENT_FORMATS.join(' or ')}`);
+  }
+}
 
-    this.logger.info(`Jira client initialized for ${this.baseUrl}`);
+/**
+ * Converts a rich text value as returned by Jira (ADF from the v3 API, wiki
+ * markup from v2) to the requested format.
+ */
+function formatRichText(value: unknown, format: JiraContentFormat): unknown {
+  if (isAdfDocument(value)) {
+    return format === 'markdown' ? adfToMarkdown(value) : adfToWiki(value);
   }
+  return typeof value === 'string' && format === 'markdown' ? wikiToMarkdown(value) : value;
+}
 
-  private static readonly VALID_KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+/**
+ * Converts the description, environment, comments and any other ADF fields
+ * of an issue in place.
+ */
+function formatIssueText<T extends { fields?: JiraIssueFields }>(issue: T, format: JiraContentFormat): T {
+  const fields = issue?.fields;
+  if (!fields) {
+    return issue;
+  }
 
-  private validateKey(key: string, label: string): void {
-    if (!JiraClient.VALID_KEY_PATTERN.test(key)) {
-      throw new Error(`Invalid ${label}: only alphanumeric characters, hyphens, and underscores are allowed`);
+  for (const [key, value] of Object.entries(fields)) {
+    if (RICH_TEXT_FIELDS.includes(key) || isAdfDocument(value)) {
+      fields[key] = formatRichText(value, format);
     }
   }
+  for (const comment of fields.comment?.comments || []) {
+    comment.body = formatRichText(comment.body, format);
+  }
+  return issue;
+}
 
-  async searchIssues(jql: string, fields?: string[], maxResults: number = 50): Promise<any> {
+function hashJql(jql: string): string {
+  return createHash('sha256').update(jql).digest('hex').slice(0, 16);
+}
+
+export function encodeSearchCursor(position: SearchPosition, jql: string): string {
+  return Buffer.from(JSON.stringify({ ...position, q: hashJql(jql) })).toString('base64url');
+}
+
+export function decodeSearchCursor(cursor: string, jql: string): SearchPosition {
+  let decoded: (SearchPosition & { q?: string }) | null;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid search cursor');
+  }
+  if (!decoded || decoded.q !== hashJql(jql)) {
+    throw new Error('Search cursor does not belong to this JQL query; repeat the search with the original query');
+  }
+  return { startAt: decoded.startAt, nextPageToken: decoded.nextPageToken };
+}
+
+export class JiraClient extends AtlassianHttpClient {
+  private fieldCache?: CachedMetadata<JiraFieldMeta[]>;
+  private createMetaCache = new Map<string, CachedMetadata<CreateMeta>>();
+  private validatedJql = new Set<string>();
+  private jqlParseUnavailable = false;
+
+  constructor() {
+    super('jira');
+  }
+
+  async searchIssues(jql: string, fields?: string[], maxResults: number = 50, options: SearchIssuesOptions = {}): Promise<JiraSearchResult> {
     try {
-      const params: any = {
-        jql,
-        maxResults
-      };
+      const effectiveJql = this.applyProjectFilter(jql);
+      const limit = options.fetchAll ? options.limit ?? DEFAULT_FETCH_ALL_LIMIT : maxResults;
 
-      if (fields && fields.length > 0) {
-        params.fields = fields.join(',');
+      if (!options.cursor) {
+        // Cloud's search pages by token only, so an offset would silently return the first page
+        if (this.isCloud && options.startAt) {
+          throw new ValidationError('startAt is not supported on Jira Cloud: pass the nextCursor of the previous response as cursor instead');
+        }
+        await this.validateJql(effectiveJql);
       }
 
-      // Apply project filter if configured
-      const projectsFilter = process.env.JIRA_PROJECTS_FILTER;
-      if (projectsFilter) {
-        const projects = projectsFilter.split(',').map(p => {
-          const trimmed = p.trim();
-          this.validateKey(trimmed, 'project filter key');
-          return `"${trimmed}"`;
-        }).join(',');
-        params.jql = `project in (${projects}) AND (${jql})`;
+      let position: SearchPosition | undefined = options.cursor
+        ? decodeSearchCursor(options.cursor, effectiveJql)
+        : { startAt: options.startAt ?? 0 };
+
+      const issues: JiraIssue[] = [];
+      let firstPage: SearchPage | undefined;
+
+      // Without fetchAll this runs exactly once; with it, pages are fetched until the limit is hit
+      do {
+        const pageSize = Math.min(maxResults, limit - issues.length);
+        const page = await this.fetchSearchPage(effectiveJql, fields, pageSize, position);
+        firstPage = firstPage || page.data;
+        issues.push(...(page.data.issues || []));
+        position = page.next;
+      } while (options.fetchAll && position && issues.length < limit);
+
+      const contentFormat = options.contentFormat || 'markdown';
+      validateContentFormat(contentFormat);
+      issues.forEach(issue => formatIssueText(issue, contentFormat));
+
+      // Raw page tokens are replaced by an opaque cursor that works for both deployment types
+      const result: JiraSearchResult = { ...firstPage, issues, isLast: !position };
+      delete result.nextPageToken;
+      if (position) {
+        result.nextCursor = encodeSearchCursor(position, effectiveJql);
       }
 
-      const response = await this.client.get('/rest/api/2/search', { params });
-      
-      this.logger.debug(`Search completed: ${response.data.issues?.length || 0} issues found`);
-      return response.data;
+      this.logger.debug(`Search completed: ${issues.length} issues found`);
+      return result;
     } catch (error) {
       this.logger.error(`Issue search failed: ${sanitizeError(error)}`);
       throw error;
     }
   }
 
-  async getIssue(issueKey: string, fields?: string[], expand?: string[]): Promise<any> {
+  /**
+   * Checks a query with Jira's JQL parser, so mistakes are reported with the
+   * parser's messages rather than as an opaque 400 from the search. Skipped
+   * when the deployment has no parse endpoint.
+   */
+  private async validateJql(jql: string): Promise<void> {
+    if (this.jqlParseUnavailable || !jql.trim() || this.validatedJql.has(jql)) {
+      return;
+    }
+
+    let parsed: JqlParseResult;
+    try {
+      const config: AtlassianRequestConfig = { params: { validation: 'strict' }, readOnly: true };
+      const response = await this.client.post<JqlParseResult>('/rest/api/2/jql/parse', { queries: [jql] }, config);
+      parsed = response.data;
+    } catch (error) {
+      const status = error instanceof AxiosError ? error.response?.status : undefined;
+      if (status === 404 || status === 405) {
+        this.jqlParseUnavailable = true;
+        this.logger.debug('JQL parse endpoint not available; queries are not validated before searching');
+        return;
+      }
+      // Some versions answer an invalid query with 400 and the same body
+      if (status !== 400 || !(error as AxiosError<JqlParseResult>).response?.data?.queries) {
+        throw error;
+      }
+      parsed = (error as AxiosError<JqlParseResult>).response!.data;
+    }
+
+    const errors: string[] = parsed.queries?.[0]?.errors || [];
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid JQL: ${errors.join('; ')}. Query: ${jql}`);
+    }
+
+    if (this.validatedJql.size >= VALIDATED_JQL_CACHE_SIZE) {
+      this.validatedJql.clear();
+    }
+    this.validatedJql.add(jql);
+  }
+
+  /**
+   * Fetches one page of search results. Cloud uses the enhanced
+   * /rest/api/3/search/jql endpoint with nextPageToken; Server/DC uses startAt.
+   */
+  private async fetchSearchPage(
+    jql: string,
+    fields: string[] | undefined,
+    maxResults: number,
+    position: SearchPosition
+  ): Promise<{ data: SearchPage; next?: SearchPosition }> {
+    const params: Record<string, string | number> = {
+      jql,
+      maxResults
+    };
+
+    if (fields && fields.length > 0) {
+      params.fields = fields.join(',');
+    }
+
+    if (this.isCloud) {
+      // The enhanced search only returns issue IDs unless fields are requested
+      params.fields = params.fields || '*navigable';
+      if (position.nextPageToken) {
+        params.nextPageToken = position.nextPageToken;
+      }
+
+      const response = await this.client.get<SearchPage>('/rest/api/3/search/jql', { params });
+      const data = response.data;
+      const next = data.nextPageToken && !data.isLast ? { nextPageToken: data.nextPageToken } : undefined;
+      return { data, next };
+    }
+
+    const startAt = position.startAt ?? 0;
+    params.startAt = startAt;
+
+    const response = await this.client.get<SearchPage>('/rest/api/2/search', { params });
+    const data = response.data;
+    const fetched = data.issues?.length || 0;
+    const nextStartAt = (data.startAt ?? startAt) + fetched;
+    const next = fetched > 0 && nextStartAt < (data.total ?? 0) ? { startAt: nextStartAt } : undefined;
+    return { data, next };
+  }
+
+  /**
+   * Checks that an issue key or ID is safe to put in a URL path, where a
+   * value such as PROJ-1/../OTHER-5 would reach a different issue.
+   */
+  private validateIssueKey(issueKey: string): void {
+    if (!ISSUE_KEY_PATTERN.test(issueKey)) {
+      throw new ValidationError(`Invalid issue key: ${issueKey}; use a key such as PROJ-123 or a numeric issue ID`);
+    }
+  }
+
+  /**
+   * Returns the project keys from JIRA_PROJECTS_FILTER, or undefined if unset.
+   */
+  private getProjectsFilter(): string[] | undefined {
+    const projectsFilter = process.env.JIRA_PROJECTS_FILTER;
+    if (!projectsFilter) {
+      return undefined;
+    }
+
+    return projectsFilter.split(',').map(p => {
+      const trimmed = p.trim();
+      this.validateKey(trimmed, 'project filter key');
+      return trimmed;
+    });
+  }
+
+  /**
+   * Restricts a JQL query to JIRA_PROJECTS_FILTER, if configured.
+   */
+  private applyProjectFilter(jql: string): string {
+    const projects = this.getProjectsFilter();
+    if (!projects) {
+      return jql;
+    }
+
+    return combineQuery([`project in (${projects.map(p => `"${p}"`).join(',')})`], jql);
+  }
+
+  /**
+   * Throws if JIRA_PROJECTS_FILTER is set and does not include the project.
+   */
+  assertProjectAllowed(projectKey: string | undefined, resource: string): void {
+    const projects = this.getProjectsFilter();
+    if (projects && !projects.some(p => p.toUpperCase() === projectKey?.toUpperCase())) {
+      throw new ValidationError(`${resource} is outside the projects allowed by JIRA_PROJECTS_FILTER (${projects.join(', ')})`);
+    }
+  }
+
+  async getIssue(issueKey: string, fields?: string[], expand?: string[], contentFormat: JiraContentFormat = 'markdown'): Promise<JiraIssue> {
     try {
-      const params: any = {};
+      this.validateIssueKey(issueKey);
+      validateContentFormat(contentFormat);
+      const params: Record<string, string> = {};
       
       if (fields && fields.length > 0) {
         params.fields = fields.join(',');
@@ -111,24 +609,34 @@ export class JiraClient {
         params.expand = expand.join(',');
       }
 
-      const response = await this.client.get(`/rest/api/2/issue/${issueKey}`, { params });
+      const response = await this.client.get<JiraIssue>(`/rest/api/2/issue/${issueKey}`, { params });
       
       this.logger.debug(`Retrieved issue: ${issueKey}`);
-      return response.data;
+      return formatIssueText(response.data, contentFormat);
     } catch (error) {
       this.logger.error(`Failed to get issue ${issueKey}: ${sanitizeError(error)}`);
       throw error;
     }
   }
 
-  async createIssue(projectKey: string, issueType: string, summary: string, description?: string, priority?: string): Promise<any> {
-    if (process.env.READ_ONLY_MODE === 'true') {
-      throw new Error('Cannot create issue: running in read-only mode');
-    }
-
+  async createIssue(
+    projectKey: string,
+    issueType: string,
+    summary: string,
+    description?: string,
+    priority?: string,
+    extraFields: Record<string, unknown> = {},
+    contentFormat: JiraContentFormat = 'markdown'
+  ): Promise<Pick<JiraIssue, 'id' | 'key'>> {
     try {
+      const writer = this.richTextWriter(contentFormat);
+      const translatedFields = Object.keys(extraFields).length > 0
+        ? await this.translateCreateFields(projectKey, issueType, extraFields, writer.convert)
+        : {};
+
       const issueData: any = {
         fields: {
+          ...translatedFields,
           project: { key: projectKey },
           issuetype: { name: issueType },
           summary
@@ -136,14 +644,14 @@ export class JiraClient {
       };
 
       if (description) {
-        issueData.fields.description = description;
+        issueData.fields.description = writer.convert ? writer.convert(description) : description;
       }
 
       if (priority) {
         issueData.fields.priority = { name: priority };
       }
 
-      const response = await this.client.post('/rest/api/2/issue', issueData);
+      const response = await this.client.post(`/rest/api/${writer.apiVersion}/issue`, issueData);
       
       this.logger.info(`Created issue: ${response.data.key}`);
       return response.data;
@@ -153,15 +661,13 @@ export class JiraClient {
     }
   }
 
-  async updateIssue(issueKey: string, fields: Record<string, any>): Promise<any> {
-    if (process.env.READ_ONLY_MODE === 'true') {
-      throw new Error('Cannot update issue: running in read-only mode');
-    }
-
+  async updateIssue(issueKey: string, fields: Record<string, unknown>, contentFormat: JiraContentFormat = 'markdown'): Promise<unknown> {
     try {
-      const issueData = { fields };
-      
-      const response = await this.client.put(`/rest/api/2/issue/${issueKey}`, issueData);
+      this.validateIssueKey(issueKey);
+      const writer = this.richTextWriter(contentFormat);
+      const issueData = { fields: await this.translateUpdateFields(issueKey, fields, writer.convert) };
+
+      const response = await this.client.put(`/rest/api/${writer.apiVersion}/issue/${issueKey}`, issueData);
       
       this.logger.info(`Updated issue: ${issueKey}`);
       return response.data;
@@ -171,24 +677,976 @@ export class JiraClient {
     }
   }
 
-  async addComment(issueKey: string, body: string): Promise<any> {
-    if (process.env.READ_ONLY_MODE === 'true') {
-      throw new Error('Cannot add comment: running in read-only mode');
+  /**
+   * Lists all system and custom fields, optionally filtered by a case-insensitive
+   * substring of the field name or ID.
+   */
+  async getFields(search?: string): Promise<Array<Pick<JiraFieldMeta, 'id' | 'name' | 'custom' | 'schema'>>> {
+    try {
+      const fields = await this.loadFields();
+      const wanted = search?.trim().toLowerCase();
+      const matches = wanted
+        ? fields.filter(field => field.name?.toLowerCase().includes(wanted) || field.id?.toLowerCase().includes(wanted))
+        : fields;
+
+      this.logger.debug(`Retrieved ${matches.length} fields`);
+      return matches.map(field => ({
+        id: field.id,
+        name: field.name,
+        custom: field.custom,
+        schema: field.schema
+      }));
+    } catch (error) {
+      this.logger.error(`Failed to get fields: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Describes what can be set when creating an issue: the project's issue types,
+   * or, for a given issue type, its fields with required flags and allowed values.
+   */
+  async getCreateMeta(projectKey: string, issueType?: string): Promise<CreateMetaDescription> {
+    try {
+      this.validateKey(projectKey, 'project key');
+
+      if (!issueType) {
+        const issueTypes = await this.getCreateMetaValues<JiraIssueType>(`/rest/api/2/issue/createmeta/${projectKey}/issuetypes`, 'issueTypes');
+        return {
+          projectKey,
+          issueTypes: issueTypes.map(t => ({ id: t.id, name: t.name, subtask: t.subtask, description: t.description }))
+        };
+      }
+
+      const meta = await this.loadCreateMeta(projectKey, issueType);
+      this.logger.debug(`Retrieved create metadata for ${projectKey} ${meta.issueType.name}`);
+      return {
+        projectKey,
+        issueType: meta.issueType,
+        fields: meta.fields.map(field => ({
+          fieldId: field.fieldId,
+          name: field.name,
+          required: field.required,
+          schema: field.schema,
+          ...(field.allowedValues && {
+            allowedValues: field.allowedValues.map((v: JiraAllowedValue) => ({
+              id: v.id,
+              ...(v.name !== undefined && { name: v.name }),
+              ...(v.value !== undefined && { value: v.value })
+            }))
+          })
+        }))
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get create metadata for ${projectKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  private async loadFields(): Promise<JiraFieldMeta[]> {
+    if (this.fieldCache && this.fieldCache.expiresAt > Date.now()) {
+      return this.fieldCache.value;
+    }
+
+    const response = await this.client.get<JiraFieldMeta[]>('/rest/api/2/field');
+    this.fieldCache = { value: response.data, expiresAt: Date.now() + FIELD_METADATA_TTL_MS };
+    return response.data;
+  }
+
+  private async loadCreateMeta(projectKey: string, issueType: string): Promise<CreateMeta> {
+    const cacheKey = `${projectKey}/${issueType.trim().toLowerCase()}`;
+    const cached = this.createMetaCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const basePath = `/rest/api/2/issue/createmeta/${projectKey}/issuetypes`;
+    const issueTypes = await this.getCreateMetaValues<JiraIssueType>(basePath, 'issueTypes');
+    const wanted = issueType.trim().toLowerCase();
+    const type = issueTypes.find(t => String(t.id) === issueType.trim() || t.name?.toLowerCase() === wanted);
+
+    if (!type) {
+      const available = issueTypes.map(t => `"${t.name}"`).join(', ');
+      throw new ValidationError(`Issue type '${issueType}' is not available in project ${projectKey}. Available issue types: ${available}`);
     }
 
+    const fields = await this.getCreateMetaValues<JiraFieldMeta>(`${basePath}/${type.id}`, 'fields');
+    const value = { issueType: { id: type.id, name: type.name }, fields };
+    this.createMetaCache.set(cacheKey, { value, expiresAt: Date.now() + FIELD_METADATA_TTL_MS });
+    return value;
+  }
+
+  /**
+   * Collects all pages of a createmeta endpoint. Cloud returns the entries under
+   * issueTypes/fields, Server/Data Center under values.
+   */
+  private async getCreateMetaValues<T>(path: string, key: 'issueTypes' | 'fields'): Promise<T[]> {
+    const values: T[] = [];
+    let startAt = 0;
+
+    for (;;) {
+      const response = await this.client.get<CreateMetaPage<T>>(path, { params: { startAt, maxResults: 100 } });
+      const page = response.data[key] || response.data.values || [];
+      values.push(...page);
+      startAt += page.length;
+
+      if (page.length === 0 || response.data.isLast || startAt >= (response.data.total ?? startAt)) {
+        return values;
+      }
+    }
+  }
+
+  /**
+   * Maps field names to IDs and shapes values using the project's create screen,
+   * falling back to the global field list if create metadata is unavailable.
+   */
+  private async translateCreateFields(
+    projectKey: string,
+    issueType: string,
+    fields: Record<string, unknown>,
+    convertRichText?: (text: string) => unknown
+  ): Promise<Record<string, unknown>> {
+    let screenFields: JiraFieldMeta[] = [];
     try {
-      const commentData = { body };
+      screenFields = (await this.loadCreateMeta(projectKey, issueType)).fields;
+    } catch (error) {
+      this.logger.warn(`Create metadata unavailable for ${projectKey} ${issueType}, using global field list: ${sanitizeError(error)}`);
+    }
+
+    return translateFields(fields, screenFields, await this.loadFields(), this.isCloud, convertRichText);
+  }
+
+  /**
+   * Maps field names to IDs and shapes values using the issue's edit screen,
+   * falling back to the global field list if edit metadata is unavailable.
+   */
+  private async translateUpdateFields(
+    issueKey: string,
+    fields: Record<string, unknown>,
+    convertRichText?: (text: string) => unknown
+  ): Promise<Record<string, unknown>> {
+    let screenFields: JiraFieldMeta[] = [];
+    try {
+      const response = await this.client.get<{ fields?: Record<string, JiraFieldMeta> }>(`/rest/api/2/issue/${issueKey}/editmeta`);
+      screenFields = Object.entries(response.data.fields || {})
+        .map(([fieldId, meta]) => ({ ...meta, fieldId }));
+    } catch (error) {
+      this.logger.warn(`Edit metadata unavailable for ${issueKey}, using global field list: ${sanitizeError(error)}`);
+    }
+
+    return translateFields(fields, screenFields, await this.loadFields(), this.isCloud, convertRichText);
+  }
+
+  async addComment(issueKey: string, body: string, contentFormat: JiraContentFormat = 'markdown'): Promise<JiraComment> {
+    try {
+      this.validateIssueKey(issueKey);
+      const writer = this.richTextWriter(contentFormat);
+      const commentData = { body: writer.convert ? writer.convert(body) : body };
       
-      const response = await this.client.post(`/rest/api/2/issue/${issueKey}/comment`, commentData);
+      const response = await this.client.post<JiraComment>(`/rest/api/${writer.apiVersion}/issue/${issueKey}/comment`, commentData);
       
       this.logger.info(`Added comment to issue: ${issueKey}`);
-      return response.data;
+      return { ...response.data, body: formatRichText(response.data.body, contentFormat) };
     } catch (error) {
       this.logger.error(`Failed to add comment to issue ${issueKey}: ${sanitizeError(error)}`);
       throw error;
     }
   }
 
+  /**
+   * Chooses the API version and converter for rich text being written:
+   * Markdown goes to the Cloud v3 API as ADF or to the Server/Data Center v2
+   * API as wiki markup; wiki markup goes to v2, which accepts it on both.
+   */
+  private richTextWriter(format: JiraContentFormat): { apiVersion: 2 | 3; convert?: (text: string) => AdfDocument | string } {
+    validateContentFormat(format);
+    if (format === 'wiki') {
+      return { apiVersion: 2 };
+    }
+    return this.isCloud ? { apiVersion: 3, convert: markdownToAdf } : { apiVersion: 2, convert: markdownToWiki };
+  }
+
+  /**
+   * Compares a previewed issue, worklog or sprint update with the current
+   * state. Rich text is compared as Markdown.
+   */
+  protected async describeChanges(request: DryRunRequest): Promise<FieldChange[] | undefined> {
+    const proposed = (request.body || {}) as Record<string, unknown> & { fields?: JiraIssueFields };
+
+    if (request.method === 'PUT' && /^\/rest\/api\/[23]\/issue\/[^/]+$/.test(request.path) && proposed.fields) {
+      const response = await this.client.get<JiraIssue>(request.path, { params: { fields: Object.keys(proposed.fields).join(',') } });
+      const current = formatIssueText({ fields: { ...response.data.fields } }, 'markdown').fields;
+      return diffFields(current, formatIssueText({ fields: { ...proposed.fields } }, 'markdown').fields);
+    }
+
+    const isWorklogUpdate = request.method === 'PUT' && /^\/rest\/api\/2\/issue\/[^/]+\/worklog\/[^/]+$/.test(request.path);
+    const isSprintUpdate = request.method === 'POST' && /^\/rest\/agile\/1\.0\/sprint\/\d+$/.test(request.path);
+    if (isWorklogUpdate || isSprintUpdate) {
+      const response = await this.client.get<Record<string, unknown>>(request.path);
+      return diffFields(response.data, proposed);
+    }
+
+    return undefined;
+  }
+
+  async getTransitions(issueKey: string): Promise<JiraTransitionList> {
+    try {
+      this.validateIssueKey(issueKey);
+      const params = { expand: 'transitions.fields' };
+      const response = await this.client.get<JiraTransitionList>(`/rest/api/2/issue/${issueKey}/transitions`, { params });
+
+      this.logger.debug(`Retrieved ${response.data.transitions?.length || 0} transitions for issue: ${issueKey}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get transitions for issue ${issueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async transitionIssue(issueKey: string, transition: string, options: TransitionOptions = {}): Promise<{ issueKey: string; transition: { id: string; name: string }; status?: string }> {
+    try {
+      const contentFormat = options.contentFormat || 'markdown';
+      validateContentFormat(contentFormat);
+      const { transitions = [] } = await this.getTransitions(issueKey);
+      const match = findTransition(transitions, transition);
+
+      if (!match) {
+        const available = transitions
+          .map(t => `"${t.name}" (id ${t.id}${t.to?.name ? `, to ${t.to.name}` : ''})`)
+          .join(', ');
+        throw new ValidationError(
+          `Transition '${transition}' is not available for ${issueKey}. ` +
+          (available ? `Available transitions: ${available}` : 'No transitions are available from the current status')
+        );
+      }
+
+      const fields: Record<string, unknown> = { ...options.fields };
+      if (options.resolution) {
+        fields.resolution = { name: options.resolution };
+      }
+      if (options.assignee) {
+        fields.assignee = this.toUserField(options.assignee);
+      }
+
+      const transitionData: { transition: { id: string }; fields?: Record<string, unknown>; update?: Record<string, unknown> } = {
+        transition: { id: match.id }
+      };
+
+      if (Object.keys(fields).length > 0) {
+        transitionData.fields = fields;
+      }
+
+      // The v2 endpoint keeps the other fields in their v2 shape and takes wiki markup on Cloud and Server/Data Center alike
+      if (options.comment) {
+        transitionData.update = {
+          comment: [{ add: { body: contentFormat === 'wiki' ? options.comment : markdownToWiki(options.comment) } }]
+        };
+      }
+
+      await this.client.post(`/rest/api/2/issue/${issueKey}/transitions`, transitionData);
+
+      this.logger.info(`Transitioned issue ${issueKey} via "${match.name}"`);
+      return {
+        issueKey,
+        transition: { id: match.id, name: match.name },
+        status: match.to?.name
+      };
+    } catch (error) {
+      this.logger.error(`Failed to transition issue ${issueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds a user reference: Cloud identifies users by account ID, Server/DC by username.
+   */
+  private toUserField(user: string): Record<string, string> {
+    return this.isCloud ? { accountId: user } : { name: user };
+  }
+
+  async getIssueLinkTypes(): Promise<JiraIssueLinkTypeList> {
+    try {
+      const response = await this.client.get<JiraIssueLinkTypeList>('/rest/api/2/issueLinkType');
+
+      this.logger.debug(`Retrieved ${response.data.issueLinkTypes?.length || 0} issue link types`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get issue link types: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Links two issues so that "issueKey <linkType> targetIssueKey" reads naturally,
+   * e.g. PROJ-1 blocks PROJ-2. linkType may be the type name or either of its
+   * outward/inward descriptions; an inward description reverses the direction.
+   */
+  async createIssueLink(
+    issueKey: string,
+    linkType: string,
+    targetIssueKey: string,
+    comment?: string
+  ): Promise<{ issueKey: string; linkType: string; relationship: string; targetIssueKey: string }> {
+    try {
+      const { issueLinkTypes = [] } = await this.getIssueLinkTypes();
+      const wanted = linkType.trim().toLowerCase();
+
+      let type = issueLinkTypes.find(t => t.name?.toLowerCase() === wanted || t.outward?.toLowerCase() === wanted);
+      let [from, to] = [issueKey, targetIssueKey];
+      if (!type) {
+        type = issueLinkTypes.find(t => t.inward?.toLowerCase() === wanted);
+        [from, to] = [targetIssueKey, issueKey];
+      }
+
+      if (!type) {
+        const available = issueLinkTypes
+          .map(t => `"${t.name}" (${t.outward} / ${t.inward})`)
+          .join(', ');
+        throw new ValidationError(`Unknown issue link type '${linkType}'. Available link types: ${available}`);
+      }
+
+      // Jira reads a link as "inwardIssue <outward description> outwardIssue"
+      const linkData: { type: { name: string }; inwardIssue: { key: string }; outwardIssue: { key: string }; comment?: { body: string } } = {
+        type: { name: type.name },
+        inwardIssue: { key: from },
+        outwardIssue: { key: to }
+      };
+
+      if (comment) {
+        linkData.comment = { body: comment };
+      }
+
+      await this.client.post('/rest/api/2/issueLink', linkData);
+
+      this.logger.info(`Linked issues: ${from} ${type.outward} ${to}`);
+      return { issueKey: from, linkType: type.name, relationship: type.outward, targetIssueKey: to };
+    } catch (error) {
+      this.logger.error(`Failed to link issue ${issueKey} to ${targetIssueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async getIssueLink(linkId: string): Promise<JiraIssueLink> {
+    try {
+      this.validateKey(linkId, 'issue link ID');
+      const response = await this.client.get<JiraIssueLink>(`/rest/api/2/issueLink/${linkId}`);
+
+      this.logger.debug(`Retrieved issue link: ${linkId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get issue link ${linkId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async deleteIssueLink(linkId: string): Promise<{ linkId: string; deleted: boolean }> {
+    try {
+      this.validateKey(linkId, 'issue link ID');
+      await this.client.delete(`/rest/api/2/issueLink/${linkId}`);
+
+      this.logger.info(`Deleted issue link: ${linkId}`);
+      return { linkId, deleted: true };
+    } catch (error) {
+      this.logger.error(`Failed to delete issue link ${linkId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async createSubtask(
+    parentKey: string,
+    summary: string,
+    description?: string,
+    priority?: string,
+    issueType?: string,
+    extraFields: Record<string, unknown> = {},
+    contentFormat: JiraContentFormat = 'markdown'
+  ): Promise<Pick<JiraIssue, 'id' | 'key'>> {
+    try {
+      const parent = await this.getIssue(parentKey, ['project']);
+      const projectKey = parent.fields.project!.key;
+
+      // Company-managed projects call it "Sub-task", team-managed ones "Subtask"
+      let subtaskType = issueType;
+      if (!subtaskType) {
+        const project = await this.client.get<{ issueTypes?: Array<{ name: string; subtask: boolean }> }>(`/rest/api/2/project/${projectKey}`);
+        subtaskType = project.data.issueTypes?.find(t => t.subtask)?.name;
+        if (!subtaskType) {
+          throw new ValidationError(`Project ${projectKey} has no sub-task issue type`);
+        }
+      }
+
+      return await this.createIssue(projectKey, subtaskType, summary, description, priority, {
+        ...extraFields,
+        parent: { key: parentKey }
+      }, contentFormat);
+    } catch (error) {
+      this.logger.error(`Failed to create sub-task under ${parentKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Assigns issues to an epic or other parent issue, or removes their parent
+   * when parentKey is null. Cloud uses the parent field, which covers both
+   * company-managed and team-managed projects; Server/Data Center uses the
+   * Agile epic API, which maintains the Epic Link field.
+   */
+  async setParent(issueKeys: string[], parentKey: string | null): Promise<{ issueKeys: string[]; parentKey: string | null }> {
+    try {
+      issueKeys.forEach(issueKey => this.validateIssueKey(issueKey));
+      if (this.isCloud) {
+        for (const issueKey of issueKeys) {
+          await this.client.put(`/rest/api/2/issue/${issueKey}`, {
+            fields: { parent: parentKey ? { key: parentKey } : null }
+          });
+        }
+      } else {
+        const epic = parentKey || 'none';
+        this.validateKey(epic, 'epic key');
+        await this.client.post(`/rest/agile/1.0/epic/${epic}/issue`, { issues: issueKeys });
+      }
+
+      this.logger.info(`Set parent of ${issueKeys.join(', ')} to ${parentKey || 'none'}`);
+      return { issueKeys, parentKey };
+    } catch (error) {
+      this.logger.error(`Failed to set parent of ${issueKeys.join(', ')}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async getAttachments(issueKey: string): Promise<{ issueKey: string; attachments: Array<Omit<JiraAttachment, 'author'> & { author?: string }> }> {
+    try {
+      const issue = await this.getIssue(issueKey, ['attachment']);
+      const attachments = ((issue.fields?.attachment || []) as JiraAttachment[]).map(attachment => ({
+        id: attachment.id,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        created: attachment.created,
+        author: attachment.author?.displayName
+      }));
+
+      this.logger.debug(`Retrieved ${attachments.length} attachments for issue: ${issueKey}`);
+      return { issueKey, attachments };
+    } catch (error) {
+      this.logger.error(`Failed to get attachments for issue ${issueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async downloadAttachment(attachmentId: string): Promise<AttachmentContent> {
+    try {
+      this.validateKey(attachmentId, 'attachment ID');
+
+      const { data: meta } = await this.client.get<JiraAttachment>(`/rest/api/2/attachment/${attachmentId}`);
+      assertAttachmentSize(meta.size || 0, meta.filename);
+
+      // The content link points at the site itself, which OAuth tokens for
+      // api.atlassian.com cannot access, so Cloud uses the REST content endpoint
+      const contentUrl = this.isCloud ? `/rest/api/2/attachment/content/${attachmentId}` : meta.content;
+      const response = await this.client.get(contentUrl, {
+        responseType: 'arraybuffer',
+        maxContentLength: getMaxAttachmentSize()
+      });
+
+      this.logger.debug(`Downloaded attachment ${attachmentId} (${meta.filename})`);
+      return new AttachmentContent(
+        `jira://attachment/${attachmentId}`,
+        meta.filename,
+        meta.mimeType || 'application/octet-stream',
+        Buffer.from(response.data)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to download attachment ${attachmentId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async uploadAttachment(issueKey: string, filename: string, data: Buffer, contentType?: string): Promise<Array<Pick<JiraAttachment, 'id' | 'filename' | 'mimeType' | 'size'>>> {
+    try {
+      this.validateIssueKey(issueKey);
+      const form = buildAttachmentForm(filename, data, contentType);
+      const response = await this.client.post<JiraAttachment[]>(`/rest/api/2/issue/${issueKey}/attachments`, form, {
+        headers: { 'X-Atlassian-Token': 'no-check' }
+      });
+
+      this.logger.info(`Uploaded attachment ${filename} to issue: ${issueKey}`);
+      return (response.data || []).map(attachment => ({
+        id: attachment.id,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size
+      }));
+    } catch (error) {
+      this.logger.error(`Failed to upload attachment to issue ${issueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async getWorklogs(issueKey: string, startAt: number = 0, maxResults: number = 100): Promise<JiraWorklogPage> {
+    try {
+      this.validateIssueKey(issueKey);
+      const params = { startAt, maxResults };
+      const response = await this.client.get<JiraWorklogPage>(`/rest/api/2/issue/${issueKey}/worklog`, { params });
+
+      this.logger.debug(`Retrieved ${response.data.worklogs?.length || 0} worklogs for issue: ${issueKey}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get worklogs for issue ${issueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async addWorklog(issueKey: string, worklog: WorklogInput, adjustment: EstimateAdjustment = {}): Promise<JiraWorklog> {
+    try {
+      this.validateIssueKey(issueKey);
+      if (!worklog.timeSpent) {
+        throw new ValidationError('timeSpent is required when adding a worklog');
+      }
+
+      const params = this.toEstimateParams(adjustment, 'reduceBy');
+      const worklogData = this.toWorklogData({ ...worklog, started: worklog.started || new Date().toISOString() });
+
+      const response = await this.client.post<JiraWorklog>(`/rest/api/2/issue/${issueKey}/worklog`, worklogData, { params });
+
+      this.logger.info(`Logged ${worklog.timeSpent} on issue: ${issueKey}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to add worklog to issue ${issueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async updateWorklog(issueKey: string, worklogId: string, worklog: WorklogInput, adjustment: EstimateAdjustment = {}): Promise<JiraWorklog> {
+    try {
+      this.validateIssueKey(issueKey);
+      this.validateKey(worklogId, 'worklog ID');
+      if (adjustment.adjustEstimate === 'manual') {
+        throw new ValidationError('adjustEstimate manual is not supported when updating a worklog; use auto, leave or new');
+      }
+
+      const params = this.toEstimateParams(adjustment);
+      const response = await this.client.put<JiraWorklog>(`/rest/api/2/issue/${issueKey}/worklog/${worklogId}`, this.toWorklogData(worklog), { params });
+
+      this.logger.info(`Updated worklog ${worklogId} on issue: ${issueKey}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to update worklog ${worklogId} on issue ${issueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async deleteWorklog(issueKey: string, worklogId: string, adjustment: EstimateAdjustment = {}): Promise<{ issueKey: string; worklogId: string; deleted: boolean }> {
+    try {
+      this.validateIssueKey(issueKey);
+      this.validateKey(worklogId, 'worklog ID');
+
+      const params = this.toEstimateParams(adjustment, 'increaseBy');
+      await this.client.delete(`/rest/api/2/issue/${issueKey}/worklog/${worklogId}`, { params });
+
+      this.logger.info(`Deleted worklog ${worklogId} on issue: ${issueKey}`);
+      return { issueKey, worklogId, deleted: true };
+    } catch (error) {
+      this.logger.error(`Failed to delete worklog ${worklogId} on issue ${issueKey}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Summarises the time a user logged between two dates (inclusive), per issue
+   * and per day. Candidate issues are found with JQL worklogAuthor/worklogDate;
+   * their worklogs are then fetched and filtered, since the search only says an
+   * issue has matching worklogs, not which ones.
+   * @param author - Account ID on Cloud, username on Server/Data Center (default: current user)
+   * @param startDate - First day, YYYY-MM-DD
+   * @param endDate - Last day, YYYY-MM-DD
+   * @param jql - Optional JQL to narrow the issues, e.g. project = PROJ; any ORDER BY is ignored
+   */
+  async getWorklogReport(startDate: string, endDate: string, author?: string, jql?: string): Promise<WorklogReport> {
+    try {
+      if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+        throw new ValidationError('startDate and endDate must be dates in YYYY-MM-DD format');
+      }
+
+      const user = author
+        ? { id: author, jql: quoteQueryValue(author) }
+        : await this.getCurrentUserRef();
+
+      const clauses = [
+        `worklogAuthor = ${user.jql}`,
+        `worklogDate >= "${startDate}"`,
+        `worklogDate <= "${endDate}"`
+      ];
+      // The order of the issues does not matter here, and an ORDER BY inside the parentheses would be invalid
+      const { where } = splitOrderBy(jql || '');
+
+      const search = await this.searchIssues(combineQuery(clauses, where), ['summary'], 100, { fetchAll: true });
+
+      const issues = await Promise.all(search.issues.map(async issue => {
+        const worklogs = (await this.getAllWorklogs(issue.key)).filter(worklog => {
+          const day = String(worklog.started || '').slice(0, 10);
+          const authorId = this.isCloud ? worklog.author?.accountId : worklog.author?.name;
+          return authorId === user.id && day >= startDate && day <= endDate;
+        });
+
+        return {
+          key: issue.key,
+          summary: issue.fields?.summary,
+          timeSpentSeconds: worklogs.reduce((sum, worklog) => sum + (worklog.timeSpentSeconds || 0), 0),
+          worklogs: worklogs.map(worklog => ({
+            id: worklog.id,
+            started: worklog.started,
+            timeSpent: worklog.timeSpent,
+            timeSpentSeconds: worklog.timeSpentSeconds,
+            comment: worklog.comment
+          }))
+        };
+      }));
+
+      const byDate: Record<string, number> = {};
+      for (const issue of issues) {
+        for (const worklog of issue.worklogs) {
+          const day = String(worklog.started).slice(0, 10);
+          byDate[day] = (byDate[day] || 0) + (worklog.timeSpentSeconds || 0);
+        }
+      }
+
+      const totalSeconds = issues.reduce((sum, issue) => sum + issue.timeSpentSeconds, 0);
+
+      this.logger.debug(`Worklog report: ${issues.length} issues, ${totalSeconds}s logged`);
+      return {
+        author: user.id,
+        startDate,
+        endDate,
+        totalTimeSpentSeconds: totalSeconds,
+        totalHours: Math.round(totalSeconds / 36) / 100,
+        byDate: Object.fromEntries(Object.entries(byDate).sort(([a], [b]) => a.localeCompare(b))),
+        issues: issues.filter(issue => issue.worklogs.length > 0)
+      };
+    } catch (error) {
+      this.logger.error(`Failed to build worklog report: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the current user's identifier (account ID or username) and a JQL
+   * reference to them.
+   */
+  private async getCurrentUserRef(): Promise<{ id: string; jql: string }> {
+    const response = await this.client.get<{ accountId?: string; name?: string }>('/rest/api/2/myself');
+    const id = (this.isCloud ? response.data.accountId : response.data.name) || '';
+    return { id, jql: 'currentUser()' };
+  }
+
+  private async getAllWorklogs(issueKey: string): Promise<JiraWorklog[]> {
+    const worklogs: JiraWorklog[] = [];
+    for (;;) {
+      const page = await this.getWorklogs(issueKey, worklogs.length, 1000);
+      const fetched = page.worklogs || [];
+      worklogs.push(...fetched);
+      if (fetched.length === 0 || worklogs.length >= (page.total ?? 0)) {
+        return worklogs;
+      }
+    }
+  }
+
+  private toWorklogData(worklog: WorklogInput): Record<string, string> {
+    const worklogData: Record<string, string> = {};
+    if (worklog.timeSpent) {
+      validateDuration(worklog.timeSpent, 'timeSpent');
+      worklogData.timeSpent = worklog.timeSpent;
+    }
+    if (worklog.started) {
+      worklogData.started = toJiraTimestamp(worklog.started);
+    }
+    if (worklog.comment !== undefined) {
+      worklogData.comment = worklog.comment;
+    }
+    return worklogData;
+  }
+
+  /**
+   * Builds the adjustEstimate query parameters, checking that the value each
+   * mode needs is present.
+   * @param manualParam - Parameter used by the manual mode, if this operation supports it
+   */
+  private toEstimateParams(adjustment: EstimateAdjustment, manualParam?: 'reduceBy' | 'increaseBy'): Record<string, string> {
+    const mode = adjustment.adjustEstimate;
+    if (!mode) {
+      return {};
+    }
+
+    const params: Record<string, string> = { adjustEstimate: mode };
+    if (mode === 'new') {
+      if (!adjustment.newEstimate) {
+        throw new ValidationError('newEstimate is required when adjustEstimate is new');
+      }
+      validateDuration(adjustment.newEstimate, 'newEstimate');
+      params.newEstimate = adjustment.newEstimate;
+    } else if (mode === 'manual') {
+      const amount = manualParam && adjustment[manualParam];
+      if (!manualParam || !amount) {
+        throw new ValidationError(`${manualParam || 'reduceBy'} is required when adjustEstimate is manual`);
+      }
+      validateDuration(amount, manualParam);
+      params[manualParam] = amount;
+    }
+    return params;
+  }
+
+  /**
+   * Lists Scrum and Kanban boards. With JIRA_PROJECTS_FILTER set, only boards
+   * located in the allowed projects are returned.
+   */
+  async getBoards(projectKey?: string, type?: string, name?: string, startAt: number = 0, maxResults: number = 50): Promise<AgilePage<JiraBoard>> {
+    try {
+      const params: Record<string, string | number> = { startAt, maxResults };
+      if (type) {
+        params.type = type;
+      }
+      if (name) {
+        params.name = name;
+      }
+
+      const projects = this.getProjectsFilter();
+      if (projectKey) {
+        this.assertProjectAllowed(projectKey, `Project ${projectKey}`);
+        params.projectKeyOrId = projectKey;
+      } else if (projects) {
+        // The board API filters by a single project, so collect the boards of
+        // each allowed project and page through the combined list
+        const boards = new Map<number, JiraBoard>();
+        for (const project of projects) {
+          for (let offset = 0; ;) {
+            const pageParams = { ...params, projectKeyOrId: project, startAt: offset, maxResults: 50 };
+            const response = await this.client.get<AgilePage<JiraBoard>>('/rest/agile/1.0/board', { params: pageParams });
+            const page = response.data.values || [];
+            for (const board of page) {
+              boards.set(board.id, board);
+            }
+            offset += page.length;
+            if (page.length === 0 || response.data.isLast !== false) {
+              break;
+            }
+          }
+        }
+        const all = [...boards.values()];
+        const values = all.slice(startAt, startAt + maxResults);
+        this.logger.debug(`Retrieved ${values.length} boards`);
+        return { values, startAt, maxResults, total: all.length, isLast: startAt + values.length >= all.length };
+      }
+
+      const response = await this.client.get<AgilePage<JiraBoard>>('/rest/agile/1.0/board', { params });
+
+      this.logger.debug(`Retrieved ${response.data.values?.length || 0} boards`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get boards: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the sprints of a board.
+   * @param state - Comma-separated sprint states: active, future, closed (default: all)
+   */
+  async getSprints(boardId: number, state?: string, startAt: number = 0, maxResults: number = 50): Promise<AgilePage<JiraSprint>> {
+    try {
+      await this.assertBoardAllowed(boardId);
+
+      const params: Record<string, string | number> = { startAt, maxResults };
+      if (state) {
+        params.state = state;
+      }
+
+      const response = await this.client.get<AgilePage<JiraSprint>>(`/rest/agile/1.0/board/${boardId}/sprint`, { params });
+
+      this.logger.debug(`Retrieved ${response.data.values?.length || 0} sprints for board ${boardId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get sprints for board ${boardId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async getSprintIssues(sprintId: number, jql?: string, fields?: string[], startAt: number = 0, maxResults: number = 50): Promise<JiraSearchResult> {
+    try {
+      await this.assertSprintAllowed(sprintId);
+
+      const params: Record<string, string | number> = { startAt, maxResults };
+      const effectiveJql = this.applyProjectFilter(jql || '');
+      if (effectiveJql) {
+        params.jql = effectiveJql;
+      }
+      if (fields && fields.length > 0) {
+        params.fields = fields.join(',');
+      }
+
+      const response = await this.client.get<JiraSearchResult>(`/rest/agile/1.0/sprint/${sprintId}/issue`, { params });
+
+      this.logger.debug(`Retrieved ${response.data.issues?.length || 0} issues for sprint ${sprintId}`);
+      (response.data.issues || []).forEach(issue => formatIssueText(issue, 'markdown'));
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to get issues for sprint ${sprintId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async moveIssuesToSprint(sprintId: number, issueKeys: string[]): Promise<{ sprintId: number; issueKeys: string[] }> {
+    try {
+      this.assertIssuesAllowed(issueKeys);
+      await this.assertSprintAllowed(sprintId);
+
+      await this.client.post(`/rest/agile/1.0/sprint/${sprintId}/issue`, { issues: issueKeys });
+
+      this.logger.info(`Moved ${issueKeys.join(', ')} to sprint ${sprintId}`);
+      return { sprintId, issueKeys };
+    } catch (error) {
+      this.logger.error(`Failed to move issues to sprint ${sprintId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async moveIssuesToBacklog(issueKeys: string[]): Promise<{ issueKeys: string[]; backlog: boolean }> {
+    try {
+      this.assertIssuesAllowed(issueKeys);
+
+      await this.client.post('/rest/agile/1.0/backlog/issue', { issues: issueKeys });
+
+      this.logger.info(`Moved ${issueKeys.join(', ')} to the backlog`);
+      return { issueKeys, backlog: true };
+    } catch (error) {
+      this.logger.error(`Failed to move issues to backlog: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  async createSprint(boardId: number, name: string, startDate?: string, endDate?: string, goal?: string): Promise<JiraSprint> {
+    try {
+      await this.assertBoardAllowed(boardId);
+
+      const sprintData: Partial<JiraSprint> = { name, originBoardId: boardId };
+      if (startDate) {
+        sprintData.startDate = startDate;
+      }
+      if (endDate) {
+        sprintData.endDate = endDate;
+      }
+      if (goal) {
+        sprintData.goal = goal;
+      }
+
+      const response = await this.client.post<JiraSprint>('/rest/agile/1.0/sprint', sprintData);
+
+      this.logger.info(`Created sprint ${response.data.id} on board ${boardId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to create sprint on board ${boardId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a future sprint. Jira requires start and end dates, so missing ones
+   * default to now and two weeks from the start.
+   */
+  async startSprint(sprintId: number, startDate?: string, endDate?: string, goal?: string): Promise<JiraSprint> {
+    try {
+      await this.assertSprintAllowed(sprintId);
+      const { data: sprint } = await this.client.get<JiraSprint>(`/rest/agile/1.0/sprint/${sprintId}`);
+
+      const start = startDate || sprint.startDate || new Date().toISOString();
+      const end = endDate || sprint.endDate || new Date(Date.parse(start) + DEFAULT_SPRINT_LENGTH_MS).toISOString();
+
+      const sprintData: Partial<JiraSprint> = { state: 'active', startDate: start, endDate: end };
+      if (goal) {
+        sprintData.goal = goal;
+      }
+
+      const response = await this.client.post<JiraSprint>(`/rest/agile/1.0/sprint/${sprintId}`, sprintData);
+
+      this.logger.info(`Started sprint ${sprintId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to start sprint ${sprintId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Closes an active sprint. Jira moves incomplete issues back to the backlog.
+   */
+  async closeSprint(sprintId: number): Promise<JiraSprint> {
+    try {
+      await this.assertSprintAllowed(sprintId);
+
+      const response = await this.client.post<JiraSprint>(`/rest/agile/1.0/sprint/${sprintId}`, { state: 'closed' });
+
+      this.logger.info(`Closed sprint ${sprintId}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to close sprint ${sprintId}: ${sanitizeError(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks that a board belongs to a project allowed by JIRA_PROJECTS_FILTER.
+   */
+  private async assertBoardAllowed(boardId: number): Promise<void> {
+    if (!this.getProjectsFilter()) {
+      return;
+    }
+
+    this.assertProjectAllowed(await this.getBoardProjectKey(boardId), `Board ${boardId}`);
+  }
+
+  /**
+   * Checks that a sprint's board is allowed by JIRA_PROJECTS_FILTER.
+   */
+  private async assertSprintAllowed(sprintId: number): Promise<void> {
+    if (!this.getProjectsFilter()) {
+      return;
+    }
+
+    this.assertProjectAllowed(await this.getSprintProjectKey(sprintId), `Sprint ${sprintId}`);
+  }
+
+  /**
+   * Returns the key of the project a board belongs to. Throws if the board is
+   * not located in a project, since project restrictions cannot be checked.
+   */
+  async getBoardProjectKey(boardId: number): Promise<string> {
+    const response = await this.client.get<JiraBoard>(`/rest/agile/1.0/board/${boardId}`);
+    const projectKey = response.data.location?.projectKey;
+    if (!projectKey) {
+      throw new ValidationError(`Board ${boardId} is not located in a project, so project restrictions cannot be checked`);
+    }
+    return projectKey;
+  }
+
+  /**
+   * Returns the key of the project of the board a sprint was created on.
+   */
+  async getSprintProjectKey(sprintId: number): Promise<string> {
+    const response = await this.client.get<JiraSprint>(`/rest/agile/1.0/sprint/${sprintId}`);
+    if (response.data.originBoardId === undefined) {
+      throw new ValidationError(`Sprint ${sprintId} has no board, so project restrictions cannot be checked`);
+    }
+    return await this.getBoardProjectKey(response.data.originBoardId);
+  }
+
+  /**
+   * Checks that every issue key belongs to a project allowed by JIRA_PROJECTS_FILTER.
+   */
+  assertIssuesAllowed(issueKeys: string[]): void {
+    for (const issueKey of issueKeys) {
+      this.assertProjectAllowed(issueKey.split('-')[0], `Issue ${issueKey}`);
+    }
+  }
+
   async getProjects(): Promise<any> {
     try {
       const response = await this.client.get('/rest/api/2/project');
@@ -21,7 +21,7 @@ program
   .option('--transport <type>', 'Transport type (stdio, sse, or streamable-http)', 'stdio')
   .option('--port <number>', 'Port to listen on for SSE or Streamable HTTP transport', '8000')
   .option('--host <host>', 'Host to bind to for SSE or Streamable HTTP transport', '0.0.0.0')
-  .option('--path <path>', 'Path for Streamable HTTP transport', '/mcp')
+  .option('--path <path>', 'Path for SSE (default: /sse) or Streamable HTTP (default: /mcp) transport')
   .option('--confluence-url <url>', 'Confluence URL')
   .option('--confluence-username <username>', 'Confluence username/email')
   .option('--confluence-token <token>', 'Confluence API token')
@@ -35,7 +35,14 @@ program
   .option('--jira-ssl-verify', 'Verify SSL certificates for Jira', true)
   .option('--jira-projects-filter <projects>', 'Comma-separated list of Jira project keys')
   .option('--read-only', 'Run in read-only mode (disables all write operations)')
+  .option('--dry-run', 'Preview write operations instead of performing them')
   .option('--enabled-tools <tools>', 'Comma-separated list of tools to enable')
+  .option('--policy-file <path>', 'YAML or JSON policy restricting tools, write targets and fields')
+  .option('--audit-log <path>', 'Append a JSON Lines audit record of every tool call to this file')
+  .option('--max-retries <number>', 'Maximum retries for rate-limited or failed Atlassian requests (default: 3)')
+  .option('--retry-base-delay <ms>', 'Base delay for exponential retry backoff in milliseconds (default: 500)')
+  .option('--retry-max-delay <ms>', 'Maximum delay before a retry in milliseconds (default: 30000)')
+  .option('--max-concurrent-requests <number>', 'Maximum concurrent requests per Atlassian host (default: 5)')
   .option('--oauth-client-id <id>', 'OAuth 2.0 client ID for Atlassian Cloud')
   .option('--oauth-client-secret <secret>', 'OAuth 2.0 client secret for Atlassian Cloud')
   .option('--oauth-redirect-uri <uri>', 'OAuth 2.0 redirect URI for Atlassian Cloud')
@@ -66,6 +73,9 @@ program
         return;
       }
 
+      // Flags whose environment variable is not the option name in upper case
+      const envNames: Record<string, string> = { readOnly: 'READ_ONLY_MODE', dryRun: 'DRY_RUN_MODE' };
+
       // Set environment variables from CLI options
       Object.entries(options).forEach(([key, value]) => {
         if (value !== undefined && key !== 'envFile' && key !== 'oauthSetup' && typeof value !== 'function') {
@@ -84,7 +94,7 @@ program
           } else if (key.startsWith('oauth')) {
             process.env[`ATLASSIAN_${envKey.replace('OAUTH_', 'OAUTH_')}`] = stringValue;
           } else {
-            process.env[envKey] = stringValue;
+            process.env[envNames[key] || envKey] = stringValue;
           }
         }
       });
@@ -102,7 +112,9 @@ program
       } else {
         const port = parseInt(options.port || process.env.PORT || '8000');
         const host = options.host || process.env.HOST || '0.0.0.0';
-        const path = options.path || process.env.STREAMABLE_HTTP_PATH || '/mcp';
+        const path = transport === 'sse'
+          ? options.path || '/sse'
+          : options.path || process.env.STREAMABLE_HTTP_PATH || '/mcp';
         
         logger.info(`Starting server with ${transport.toUpperCase()} transport on http://${host}:${port}${path}`);
         
@@ -0,0 +1,193 @@
+import winston from 'winston';
+import { Implementation } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosError } from 'axios';
+import { sanitizeError, WriteRecord } from '../clients/base.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * One line of the audit log (AUDIT_LOG), written for every tool call.
+ */
+export interface AuditEntry {
+  timestamp: string;
+  /** MCP session ID; missing for stdio, which has a single session */
+  sessionId?: string;
+  /** Name and version the MCP client reported when it connected */
+  client?: Implementation;
+  tool: string;
+  /** Tool arguments with secrets redacted and long texts shortened */
+  arguments: Record<string, unknown>;
+  /** Issues, pages, sprints and other items named in the arguments */
+  target?: Record<string, unknown>;
+  outcome: 'success' | 'error' | 'dry-run';
+  /** HTTP status of the last write, or of the request that failed */
+  status?: number;
+  /** Version of the content after the last versioned write */
+  version?: number;
+  /** Writes sent to Atlassian, in order */
+  writes: WriteRecord[];
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * A finished tool call, as reported by the request handler.
+ */
+export interface AuditedCall {
+  sessionId?: string;
+  client?: Implementation;
+  tool: string;
+  args?: Record<string, unknown>;
+  dryRun: boolean;
+  writes: WriteRecord[];
+  startedAt: number;
+  error?: unknown;
+}
+
+// Arguments that name the items a tool reads or changes
+const TARGET_ARGUMENTS = [
+  'issueKey', 'issueKeys', 'parentKey', 'targetIssueKey', 'projectKey',
+  'linkId', 'worklogId', 'sprintId', 'boardId',
+  'pageId', 'parentId', 'targetId', 'rootPageId', 'commentId', 'parentCommentId', 'spaceKey',
+  'attachmentId'
+];
+
+const REDACTED = '[REDACTED]';
+const MAX_STRING_LENGTH = 1000;
+
+// Argument names whose values are never logged
+const SECRET_ARGUMENT_PATTERN = /pass(word)?|secret|token|api[-_]?key|authori[sz]ation|cookie|credential/i;
+
+// Credentials that may appear inside free text
+const SECRET_VALUE_PATTERNS = [
+  /\bBearer\s+[\w\-.~+/]{16,}=*/gi,
+  /\bBasic\s+[A-Za-z0-9+/]{16,}={0,2}/g,
+  /\bATATT[\w\-=]{16,}/g,
+  /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g
+];
+
+// Configured credentials, redacted wherever they appear verbatim
+const SECRET_ENVIRONMENT = [
+  'JIRA_API_TOKEN',
+  'JIRA_PERSONAL_TOKEN',
+  'CONFLUENCE_API_TOKEN',
+  'CONFLUENCE_PERSONAL_TOKEN',
+  'ATLASSIAN_OAUTH_CLIENT_SECRET',
+  'ATLASSIAN_OAUTH_ACCESS_TOKEN',
+  'ATLASSIAN_OAUTH_REFRESH_TOKEN'
+];
+
+/**
+ * Masks configured credentials and credential-like tokens in free text, and
+ * shortens text longer than 1000 characters.
+ */
+export function redactText(text: string): string {
+  let redacted = text;
+  for (const name of SECRET_ENVIRONMENT) {
+    const secret = process.env[name];
+    if (secret && secret.length >= 8) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  for (const pattern of SECRET_VALUE_PATTERNS) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  if (redacted.length > MAX_STRING_LENGTH) {
+    redacted = `${redacted.slice(0, MAX_STRING_LENGTH)}[... ${redacted.length - MAX_STRING_LENGTH} more characters]`;
+  }
+  return redacted;
+}
+
+/**
+ * Copies tool arguments for the audit log: values of secret-looking
+ * arguments are dropped, credentials in text are masked and long texts,
+ * such as page bodies and attachment content, are shortened.
+ */
+export function sanitizeArguments(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(sanitizeArguments);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_ARGUMENT_PATTERN.test(key) ? REDACTED : sanitizeArguments(item)
+    ]));
+  }
+  return value;
+}
+
+function getTarget(args: Record<string, unknown>): Record<string, unknown> | undefined {
+  const target = Object.fromEntries(TARGET_ARGUMENTS
+    .filter(name => args[name] !== undefined && args[name] !== null && args[name] !== '')
+    .map(name => [name, args[name]]));
+  return Object.keys(target).length > 0 ? target : undefined;
+}
+
+function parseSizeEnv(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value <= 0 ? defaultValue : value;
+}
+
+/**
+ * Append-only JSON Lines record of tool calls and the writes they sent.
+ * The file is rotated once it reaches AUDIT_LOG_MAX_SIZE bytes (default
+ * 10MB); AUDIT_LOG_MAX_FILES files are kept (default 10), and the newest
+ * entries are always in the configured path.
+ */
+export class AuditLog {
+  private logger = new Logger('audit');
+  private writer?: winston.Logger;
+
+  constructor(path: string | undefined = process.env.AUDIT_LOG) {
+    if (!path) {
+      return;
+    }
+
+    const transport = new winston.transports.File({
+      filename: path,
+      maxsize: parseSizeEnv('AUDIT_LOG_MAX_SIZE', 10 * 1024 * 1024),
+      maxFiles: parseSizeEnv('AUDIT_LOG_MAX_FILES', 10),
+      tailable: true
+    });
+    // An unwritable audit log is reported, but does not stop the server
+    transport.on('error', error => this.logger.error(`Cannot write audit log ${path}: ${sanitizeError(error)}`));
+
+    this.writer = winston.createLogger({
+      level: 'info',
+      format: winston.format.printf(({ message }) => String(message)),
+      transports: [transport]
+    });
+    this.logger.info(`Writing audit log to ${path}`);
+  }
+
+  record(call: AuditedCall): void {
+    if (!this.writer) {
+      return;
+    }
+
+    const args = call.args || {};
+    const target = getTarget(args);
+    const lastWrite = call.writes[call.writes.length - 1];
+    const version = [...call.writes].reverse().find(write => write.version !== undefined)?.version;
+    const status = call.error instanceof AxiosError ? call.error.response?.status : lastWrite?.status;
+
+    const entry: AuditEntry = {
+      timestamp: new Date(call.startedAt).toISOString(),
+      ...(call.sessionId && { sessionId: call.sessionId }),
+      ...(call.client && { client: { name: call.client.name, version: call.client.version } }),
+      tool: call.tool,
+      arguments: sanitizeArguments(args) as Record<string, unknown>,
+      ...(target && { target: sanitizeArguments(target) as Record<string, unknown> }),
+      outcome: call.error !== undefined ? 'error' : call.dryRun ? 'dry-run' : 'success',
+      ...(status !== undefined && { status }),
+      ...(version !== undefined && { version }),
+      writes: call.writes.map(write => ({ ...write, path: redactText(write.path) })),
+      ...(call.error !== undefined && { error: redactText(sanitizeError(call.error)) }),
+      durationMs: Date.now() - call.startedAt
+    };
+
+    this.writer.info(JSON.stringify(entry));
+  }
+}
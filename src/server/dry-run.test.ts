@@ -0,0 +1,22 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { withDryRunArgument } from './dry-run.js';
+
+function tool(name: string): Tool {
+  return { name, inputSchema: { type: 'object', properties: { issueKey: { type: 'string' } }, required: ['issueKey'] } };
+}
+
+describe('withDryRunArgument', () => {
+  it('adds dryRun to write tools and keeps their other arguments', () => {
+    const { inputSchema } = withDryRunArgument(tool('jira_update_issue'));
+    expect(inputSchema.properties).toEqual({
+      issueKey: { type: 'string' },
+      dryRun: expect.objectContaining({ type: 'boolean', default: false })
+    });
+    expect(inputSchema.required).toEqual(['issueKey']);
+  });
+
+  it('leaves read tools alone', () => {
+    const read = tool('jira_get_issue');
+    expect(withDryRunArgument(read)).toBe(read);
+  });
+});
@@ -0,0 +1,26 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { WRITE_TOOLS } from './policy.js';
+
+/**
+ * Adds the dryRun argument to the input schema of write tools.
+ */
+export function withDryRunArgument(tool: Tool): Tool {
+  if (!WRITE_TOOLS.has(tool.name)) {
+    return tool;
+  }
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview the change without making it: returns the requests that would be sent and, for updates, the fields that would change (default: false)',
+          default: false
+        }
+      }
+    }
+  };
+}
@@ -1,28 +1,145 @@
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { Server as HttpServer } from 'http';
+import { randomUUID } from 'crypto';
 import { Logger } from '../utils/logger.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import {
+  StreamableHTTPServerTransport,
+  EventStore,
+  EventId,
+  StreamId
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ErrorCode, JSONRPCMessage, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 
 export interface HttpTransportOptions {
   host: string;
   port: number;
   path?: string;
+  /** Endpoint that SSE clients POST messages to (SSE transport only) */
+  messagesPath?: string;
+}
+
+/**
+ * Creates a fresh MCP server instance. HTTP transports call this once per
+ * client session, since an MCP server can only be connected to one transport.
+ */
+export type McpServerFactory = () => Server;
+
+class BodyTooLargeError extends Error {}
+
+/**
+ * Reads and JSON-parses a request body, enforcing MCP_MAX_BODY_SIZE.
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const maxBodySize = parseInt(process.env.MCP_MAX_BODY_SIZE || '1048576', 10); // 1MB default
+
+  return new Promise((resolve, reject) => {
+    let body = '';
+    let bodyTooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (bodyTooLarge) return;
+      if (body.length + chunk.length > maxBodySize) {
+        bodyTooLarge = true;
+        reject(new BodyTooLargeError('Request body too large'));
+        return;
+      }
+      body += chunk.toString();
+    });
+
+    req.on('end', () => {
+      if (bodyTooLarge) return;
+      try {
+        resolve(JSON.parse(body));
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function containsInitializeRequest(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+}
+
+/**
+ * Minimal in-memory event store used to support resumption of Streamable HTTP
+ * SSE streams via the Last-Event-ID header. Only the most recent events are kept.
+ */
+class InMemoryEventStore implements EventStore {
+  private events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+
+  constructor(private maxEvents: number = 1000) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${Date.now()}_${randomUUID().slice(0, 8)}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Map preserves insertion order, so the first key is always the oldest event
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value as EventId;
+      this.events.delete(oldest);
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && streamId === lastEvent.streamId) {
+        await send(eventId, message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
 }
 
 export class SSETransport {
   private server: HttpServer;
   private logger: Logger;
+  private sessions = new Map<string, SSEServerTransport>();
 
   constructor(private options: HttpTransportOptions) {
     this.logger = new Logger('sse-transport');
     this.server = createServer();
   }
 
-  async start(mcpServer: Server): Promise<void> {
+  async start(createMcpServer: McpServerFactory): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server.on('request', (req: IncomingMessage, res: ServerResponse) => {
-        this.handleRequest(req, res, mcpServer);
+        this.handleRequest(req, res, createMcpServer).catch((error) => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.error(`Error handling request: ${errorMessage}`);
+          if (!res.headersSent) {
+            sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+          }
+        });
       });
 
       this.server.on('error', reject);
@@ -34,9 +151,10 @@ export class SSETransport {
     });
   }
 
-  private handleRequest(req: IncomingMessage, res: ServerResponse, mcpServer: Server): void {
+  private async handleRequest(req: IncomingMessage, res: ServerResponse, createMcpServer: McpServerFactory): Promise<void> {
     const url = new URL(req.url || '/', `http://${req.headers.host}`);
     const path = this.options.path || '/sse';
+    const messagesPath = this.options.messagesPath || '/messages';
 
     // Enable CORS - restrict origin to configured value or deny by default
     const allowedOrigin = process.env.MCP_CORS_ORIGIN || '';
@@ -53,58 +171,54 @@ export class SSETransport {
     }
 
     if (url.pathname === path && req.method === 'GET') {
-      // SSE endpoint
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      });
-
-      res.write('data: {"jsonrpc": "2.0", "method": "initialized", "params": {}}\n\n');
+      // Each event stream is its own session; the first event tells the client where to POST
+      const transport = new SSEServerTransport(messagesPath, res);
+      const sessionId = transport.sessionId;
+      this.sessions.set(sessionId, transport);
 
       // Keep connection alive
       const keepAlive = setInterval(() => {
         res.write(': keepalive\n\n');
       }, 30000);
 
-      req.on('close', () => {
+      transport.onclose = () => {
         clearInterval(keepAlive);
-        this.logger.debug('SSE connection closed');
-      });
+        this.sessions.delete(sessionId);
+        this.logger.debug(`SSE connection closed: ${sessionId}`);
+      };
 
-    } else if (url.pathname === path && req.method === 'POST') {
-      // Handle incoming messages with body size limit
-      let body = '';
-      let bodyTooLarge = false;
-      const maxBodySize = parseInt(process.env.MCP_MAX_BODY_SIZE || '1048576', 10); // 1MB default
-      req.on('data', (chunk: Buffer) => {
-        if (body.length + chunk.length > maxBodySize) {
-          bodyTooLarge = true;
-          req.destroy();
-          return;
-        }
-        body += chunk.toString();
-      });
+      const mcpServer = createMcpServer();
+      await mcpServer.connect(transport);
+      this.logger.debug(`SSE connection opened: ${sessionId}`);
+
+    } else if (url.pathname === messagesPath && req.method === 'POST') {
+      const sessionId = url.searchParams.get('sessionId') || '';
+      const transport = this.sessions.get(sessionId);
+      if (!transport) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Session not found' }));
+        return;
+      }
 
-      req.on('end', () => {
-        if (bodyTooLarge) {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof BodyTooLargeError) {
           res.writeHead(413, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ error: 'Request body too large' }));
-          return;
-        }
-        try {
-          const message = JSON.parse(body);
-          this.logger.debug('Received message:', message);
-          
-          // Process with MCP server (simplified)
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, result: {} }));
-        } catch (error) {
+        } else {
           this.logger.error('Error processing message');
           res.writeHead(400, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ error: 'Invalid JSON' }));
         }
-      });
+        return;
+      }
+
+      this.logger.debug('Received message:', body);
+
+      // The response is acknowledged with 202 here and delivered on the session's event stream
+      await transport.handlePostMessage(req, res, body);
 
     } else {
       res.writeHead(404);
@@ -113,6 +227,11 @@ export class SSETransport {
   }
 
   async close(): Promise<void> {
+    for (const transport of this.sessions.values()) {
+      await transport.close();
+    }
+    this.sessions.clear();
+
     return new Promise((resolve) => {
       this.server.close(() => {
         this.logger.info('SSE server closed');
@@ -125,16 +244,23 @@ export class SSETransport {
 export class StreamableHttpTransport {
   private server: HttpServer;
   private logger: Logger;
+  private sessions = new Map<string, StreamableHTTPServerTransport>();
 
   constructor(private options: HttpTransportOptions) {
     this.logger = new Logger('streamable-http-transport');
     this.server = createServer();
   }
 
-  async start(mcpServer: Server): Promise<void> {
+  async start(createMcpServer: McpServerFactory): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server.on('request', (req: IncomingMessage, res: ServerResponse) => {
-        this.handleRequest(req, res, mcpServer);
+        this.handleRequest(req, res, createMcpServer).catch((error) => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.error(`Error handling request: ${errorMessage}`);
+          if (!res.headersSent) {
+            sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+          }
+        });
       });
 
       this.server.on('error', reject);
@@ -146,7 +272,7 @@ export class StreamableHttpTransport {
     });
   }
 
-  private handleRequest(req: IncomingMessage, res: ServerResponse, mcpServer: Server): void {
+  private async handleRequest(req: IncomingMessage, res: ServerResponse, createMcpServer: McpServerFactory): Promise<void> {
     const url = new URL(req.url || '/', `http://${req.headers.host}`);
     const path = this.options.path || '/mcp';
 
@@ -155,8 +281,9 @@ export class StreamableHttpTransport {
     if (allowedOrigin) {
       res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
     }
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
 
     if (req.method === 'OPTIONS') {
       res.writeHead(200);
@@ -165,47 +292,55 @@ export class StreamableHttpTransport {
     }
 
     if (url.pathname === path && req.method === 'POST') {
-      let body = '';
-      let bodyTooLarge = false;
-      const maxBodySize = parseInt(process.env.MCP_MAX_BODY_SIZE || '1048576', 10); // 1MB default
-      req.on('data', (chunk: Buffer) => {
-        if (body.length + chunk.length > maxBodySize) {
-          bodyTooLarge = true;
-          req.destroy();
-          return;
-        }
-        body += chunk.toString();
-      });
-
-      req.on('end', async () => {
-        if (bodyTooLarge) {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof BodyTooLargeError) {
           res.writeHead(413, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ error: 'Request body too large' }));
-          return;
-        }
-        try {
-          const message = JSON.parse(body);
-          this.logger.debug('Received message:', message);
-          
-          // Process with MCP server (simplified)
-          // In a real implementation, we'd need to integrate with the MCP protocol properly
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ 
-            jsonrpc: '2.0', 
-            id: message.id, 
-            result: { message: 'Streamable HTTP transport not fully implemented yet' }
-          }));
-        } catch (error) {
+        } else {
           this.logger.error('Error processing message');
-          res.writeHead(400, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Invalid JSON' }));
+          sendJsonRpcError(res, 400, ErrorCode.ParseError, 'Invalid JSON');
         }
-      });
+        return;
+      }
+
+      this.logger.debug('Received message:', body);
+
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      if (sessionId) {
+        const transport = this.sessions.get(sessionId);
+        if (!transport) {
+          sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+          return;
+        }
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!containsInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'Bad Request: Mcp-Session-Id header is required');
+        return;
+      }
+
+      const transport = await this.createSession(createMcpServer);
+      await transport.handleRequest(req, res, body);
+
+    } else if (url.pathname === path && (req.method === 'GET' || req.method === 'DELETE')) {
+      // GET opens (or resumes, via Last-Event-ID) the server-to-client stream; DELETE ends the session
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      const transport = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (!transport) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, ErrorCode.InvalidRequest, 'Invalid or missing Mcp-Session-Id header');
+        return;
+      }
+      await transport.handleRequest(req, res);
 
     } else if (url.pathname === '/' && req.method === 'GET') {
       // Health check endpoint
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ status: 'healthy', transport: 'streamable-http' }));
+      res.end(JSON.stringify({ status: 'healthy', transport: 'streamable-http', sessions: this.sessions.size }));
 
     } else {
       res.writeHead(404);
@@ -213,7 +348,34 @@ export class StreamableHttpTransport {
     }
   }
 
+  private async createSession(createMcpServer: McpServerFactory): Promise<StreamableHTTPServerTransport> {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, transport);
+        this.logger.debug(`Session initialized: ${sessionId}`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+        this.logger.debug(`Session closed: ${transport.sessionId}`);
+      }
+    };
+
+    const mcpServer = createMcpServer();
+    await mcpServer.connect(transport);
+    return transport;
+  }
+
   async close(): Promise<void> {
+    for (const transport of this.sessions.values()) {
+      await transport.close();
+    }
+    this.sessions.clear();
+
     return new Promise((resolve) => {
       this.server.close(() => {
         this.logger.info('Streamable HTTP server closed');
@@ -221,4 +383,4 @@ export class StreamableHttpTransport {
       });
     });
   }
-} 
\ No newline at end of file
+}
@@ -2,15 +2,32 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { 
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  Tool
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  Tool,
+  UnsubscribeRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
+import { AtlassianHttpClient, isDryRunMode, recordWrites, WriteRecord } from '../clients/base.js';
+import { toToolErrorResult } from '../utils/errors.js';
+import { AttachmentContent, decodeAttachmentContent } from '../utils/attachments.js';
+import { resolveQuery } from '../utils/query-builder.js';
 import { ConfluenceClient } from '../clients/confluence.js';
 import { JiraClient } from '../clients/jira.js';
 import { createConfluenceTools } from '../tools/confluence.js';
 import { createJiraTools } from '../tools/jira.js';
 import { SSETransport, StreamableHttpTransport, HttpTransportOptions } from './http-transports.js';
+import { AtlassianResources, ResourceSubscriptions, resourceTemplates } from './resources.js';
+import { AtlassianPrompts } from './prompts.js';
+import { formatToolOutput, shapeToolResult, withDetailArgument } from './response-shaping.js';
+import { isToolAllowed, loadPolicyConfig, ToolPolicy, WRITE_TOOLS } from './policy.js';
+import { withDryRunArgument } from './dry-run.js';
+import { AuditLog } from './audit.js';
 
 interface ConnectionOptions {
   type: 'stdio' | 'sse' | 'streamable-http';
@@ -21,17 +38,6 @@ interface ConnectionOptions {
 
 export function createAtlassianMCPServer() {
   const logger = new Logger('mcp-server');
-  const server = new Server(
-    {
-      name: 'mcp-atlassian',
-      version: '1.0.0'
-    },
-    {
-      capabilities: {
-        tools: {}
-      }
-    }
-  );
 
   // Initialize clients
   const confluenceClient = new ConfluenceClient();
@@ -43,59 +49,181 @@ export function createAtlassianMCPServer() {
     ...createJiraTools(jiraClient)
   ];
 
+  const policyConfig = loadPolicyConfig();
+  if (process.env.POLICY_FILE) {
+    logger.info(`Loaded tool policy from ${process.env.POLICY_FILE}`);
+  }
+
   // Filter tools based on configuration
   const enabledToolsEnv = process.env.ENABLED_TOOLS;
   const enabledToolNames = enabledToolsEnv ? enabledToolsEnv.split(',').map(t => t.trim()) : null;
   
-  const tools = enabledToolNames 
+  const tools = (enabledToolNames
     ? allTools.filter(tool => enabledToolNames.includes(tool.name))
-    : allTools;
+    : allTools
+  ).filter(tool => isToolAllowed(policyConfig, tool.name)).map(withDetailArgument).map(withDryRunArgument);
 
   logger.info(`Loaded ${tools.length} tools: ${tools.map(t => t.name).join(', ')}`);
 
-  // Handle tool listing
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools };
-  });
-
-  // Handle tool execution
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-    
-    logger.debug(`Executing tool: ${name}`, args);
-
-    try {
-      // Find the tool
-      const tool = tools.find(t => t.name === name);
-      if (!tool) {
-        throw new Error(`Tool '${name}' not found`);
+  const auditLog = new AuditLog();
+
+  const isToolEnabled = (name: string) => tools.some(tool => tool.name === name);
+  const resources = new AtlassianResources(confluenceClient, jiraClient, isToolEnabled);
+  const promptBuilder = new AtlassianPrompts(confluenceClient, jiraClient, resources, isToolEnabled);
+
+  // Builds an MCP server with all handlers registered. The clients and tool list
+  // are shared, but HTTP transports need a separate Server instance per session.
+  const createServer = (): Server => {
+    const server = new Server(
+      {
+        name: 'mcp-atlassian',
+        version: '1.0.0'
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {
+            subscribe: true
+          },
+          prompts: {}
+        }
       }
+    );
+
+    const subscriptions = new ResourceSubscriptions(server, resources);
+    server.onclose = () => subscriptions.close();
+
+    const policy = new ToolPolicy(policyConfig, confluenceClient, jiraClient);
 
-      // Execute the tool based on its type
-      let result: any;
+    // Handle tool listing
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return { tools };
+    });
+
+    // Handle tool execution
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
       
-      if (name.startsWith('confluence_')) {
-        result = await executeConfluenceTool(confluenceClient, name, args);
-      } else if (name.startsWith('jira_')) {
-        result = await executeJiraTool(jiraClient, name, args);
-      } else {
-        throw new Error(`Unknown tool category for '${name}'`);
+      logger.debug(`Executing tool: ${name}`, args);
+
+      // Every call is audited, with the session and client it came from and the writes it sent
+      const writes: WriteRecord[] = [];
+      const startedAt = Date.now();
+      let dryRun = false;
+      const audit = (error?: unknown) => auditLog.record({
+        sessionId: extra.sessionId,
+        client: server.getClientVersion(),
+        tool: name,
+        args,
+        dryRun,
+        writes,
+        startedAt,
+        error
+      });
+
+      try {
+        // Find the tool
+        const tool = tools.find(t => t.name === name);
+        if (!tool) {
+          throw new Error(`Tool '${name}' not found`);
+        }
+
+        // Writes are only previewed when asked to or when the server runs in dry-run mode
+        dryRun = WRITE_TOOLS.has(name) && (args?.dryRun === true || isDryRunMode());
+        await policy.check(name, args, dryRun);
+
+        // Execute the tool based on its type
+        let client: AtlassianHttpClient;
+        let execute: () => Promise<unknown>;
+
+        if (name.startsWith('confluence_')) {
+          client = confluenceClient;
+          execute = () => executeConfluenceTool(confluenceClient, name, args);
+        } else if (name.startsWith('jira_')) {
+          client = jiraClient;
+          execute = () => executeJiraTool(jiraClient, name, args);
+        } else {
+          throw new Error(`Unknown tool category for '${name}'`);
+        }
+
+        const result = await recordWrites(writes, () => dryRun ? client.dryRun(execute) : execute());
+        audit();
+
+        if (dryRun) {
+          policy.recordPreview(name, args);
+        }
+
+        if (result instanceof AttachmentContent) {
+          return { content: result.toToolContent() };
+        }
+
+        // Only searches and reads take a list of field names; create and transition take a fields object
+        const requestedFields = Array.isArray(args?.fields) ? args.fields.filter((field): field is string => typeof field === 'string') : undefined;
+        // Previews are returned as recorded, without the projections meant for API payloads
+        const shaped = dryRun ? result : shapeToolResult(result, args?.detail === 'full' ? 'full' : 'summary', requestedFields);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolOutput(shaped)
+            }
+          ]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`Error executing tool ${name}: ${errorMessage}`);
+        audit(error);
+        // Report failures as tool results so the model can see what went wrong and self-correct
+        return toToolErrorResult(error);
       }
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: await resources.list() };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      logger.debug(`Reading resource: ${uri}`);
 
       return {
-        content: [
+        contents: [
           {
-            type: 'text',
-            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
+            uri,
+            mimeType: 'text/markdown',
+            text: await resources.read(uri)
           }
         ]
       };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(`Error executing tool ${name}: ${errorMessage}`);
-      throw error;
-    }
-  });
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await subscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: promptBuilder.list() };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      return await promptBuilder.get(name, args);
+    });
+
+    return server;
+  };
+
+  const server = createServer();
 
   return {
     ...server,
@@ -113,7 +241,7 @@ export function createAtlassianMCPServer() {
         };
         
         const transport = new SSETransport(transportOptions);
-        await transport.start(server);
+        await transport.start(createServer);
         logger.info(`MCP server started with SSE transport on http://${transportOptions.host}:${transportOptions.port}${transportOptions.path}`);
         
       } else if (options.type === 'streamable-http') {
@@ -124,7 +252,7 @@ export function createAtlassianMCPServer() {
         };
         
         const transport = new StreamableHttpTransport(transportOptions);
-        await transport.start(server);
+        await transport.start(createServer);
         logger.info(`MCP server started with Streamable HTTP transport on http://${transportOptions.host}:${transportOptions.port}${transportOptions.path}`);
         
       } else {
@@ -137,15 +265,70 @@ export function createAtlassianMCPServer() {
 async function executeConfluenceTool(client: ConfluenceClient, toolName: string, args: any): Promise<any> {
   switch (toolName) {
     case 'confluence_search':
-      return await client.search(args.query, args.spaceKey, args.limit);
+      return await client.search(resolveQuery(args.query, args.structuredQuery, 'cql'), args.spaceKey, args.limit);
     case 'confluence_get_page':
-      return await client.getPage(args.pageId, args.expand);
+      return await client.getPage(args.pageId, args.expand, args.contentFormat);
     case 'confluence_create_page':
-      return await client.createPage(args.spaceKey, args.title, args.content, args.parentId);
+      return await client.createPage(args.spaceKey, args.title, args.content, args.parentId, args.contentFormat);
     case 'confluence_update_page':
-      return await client.updatePage(args.pageId, args.title, args.content, args.version);
+      return await client.updatePage(args.pageId, {
+        title: args.title,
+        content: args.content,
+        edits: args.edits,
+        version: args.version,
+        contentFormat: args.contentFormat,
+        onConflict: args.onConflict
+      });
     case 'confluence_get_spaces':
       return await client.getSpaces(args.limit, args.start);
+    case 'confluence_get_page_versions':
+      return await client.getPageVersions(args.pageId, args.limit, args.start);
+    case 'confluence_get_page_version':
+      return await client.getPageVersion(args.pageId, args.version, args.contentFormat || 'markdown');
+    case 'confluence_diff_page_versions':
+      return await client.diffPageVersions(args.pageId, args.fromVersion, args.toVersion);
+    case 'confluence_restore_page_version':
+      return await client.restorePageVersion(args.pageId, args.version, args.message);
+    case 'confluence_get_page_tree':
+      return await client.getPageTree(args.spaceKey, args.rootPageId, args.depth);
+    case 'confluence_get_page_ancestors':
+      return await client.getPageAncestors(args.pageId);
+    case 'confluence_move_page':
+      return await client.movePage(args.pageId, args.targetId, args.position);
+    case 'confluence_copy_page':
+      return await client.copyPage(args.pageId, {
+        parentId: args.parentId,
+        spaceKey: args.spaceKey,
+        title: args.title,
+        titlePrefix: args.titlePrefix,
+        includeDescendants: args.includeDescendants
+      });
+    case 'confluence_get_comments':
+      return await client.getComments(args.pageId, args.location, args.contentFormat, args.limit, args.start);
+    case 'confluence_add_comment':
+      return await client.addComment(args.pageId, args.content, args.parentCommentId, args.contentFormat);
+    case 'confluence_resolve_inline_comment':
+      return await client.resolveInlineComment(args.commentId, args.resolved);
+    case 'confluence_get_labels':
+      return await client.getLabels(args.pageId);
+    case 'confluence_add_labels':
+      return await client.addLabels(args.pageId, args.labels);
+    case 'confluence_remove_labels':
+      return await client.removeLabels(args.pageId, args.labels);
+    case 'confluence_search_by_labels':
+      return await client.searchByLabels(args.labels, args.match, args.spaceKey, args.type, args.query, args.limit);
+    case 'confluence_get_attachments':
+      return await client.getAttachments(args.pageId, args.limit, args.start);
+    case 'confluence_download_attachment':
+      return await client.downloadAttachment(args.attachmentId);
+    case 'confluence_upload_attachment':
+      return await client.uploadAttachment(
+        args.pageId,
+        args.filename,
+        decodeAttachmentContent(args.content, args.encoding),
+        args.contentType,
+        args.comment
+      );
     default:
       throw new Error(`Unknown Confluence tool: ${toolName}`);
   }
@@ -154,15 +337,106 @@ async function executeConfluenceTool(client: ConfluenceClient, toolName: string,
 async function executeJiraTool(client: JiraClient, toolName: string, args: any): Promise<any> {
   switch (toolName) {
     case 'jira_search_issues':
-      return await client.searchIssues(args.jql, args.fields, args.maxResults);
+      return await client.searchIssues(resolveQuery(args.jql, args.structuredQuery, 'jql'), args.fields, args.maxResults, {
+        startAt: args.startAt,
+        cursor: args.cursor,
+        fetchAll: args.fetchAll,
+        limit: args.limit,
+        contentFormat: args.contentFormat
+      });
     case 'jira_get_issue':
-      return await client.getIssue(args.issueKey, args.fields, args.expand);
+      return await client.getIssue(args.issueKey, args.fields, args.expand, args.contentFormat);
     case 'jira_create_issue':
-      return await client.createIssue(args.projectKey, args.issueType, args.summary, args.description, args.priority);
+      return await client.createIssue(
+        args.projectKey,
+        args.issueType,
+        args.summary,
+        args.description,
+        args.priority,
+        {
+          ...args.fields,
+          ...(args.parentKey && { parent: { key: args.parentKey } })
+        },
+        args.contentFormat
+      );
     case 'jira_update_issue':
-      return await client.updateIssue(args.issueKey, args.fields);
+      return await client.updateIssue(args.issueKey, args.fields, args.contentFormat);
     case 'jira_add_comment':
-      return await client.addComment(args.issueKey, args.body);
+      return await client.addComment(args.issueKey, args.body, args.contentFormat);
+    case 'jira_get_transitions':
+      return await client.getTransitions(args.issueKey);
+    case 'jira_transition_issue':
+      return await client.transitionIssue(args.issueKey, args.transition, {
+        fields: args.fields,
+        resolution: args.resolution,
+        comment: args.comment,
+        contentFormat: args.contentFormat,
+        assignee: args.assignee
+      });
+    case 'jira_get_link_types':
+      return await client.getIssueLinkTypes();
+    case 'jira_create_issue_link':
+      return await client.createIssueLink(args.issueKey, args.linkType, args.targetIssueKey, args.comment);
+    case 'jira_delete_issue_link':
+      return await client.deleteIssueLink(args.linkId);
+    case 'jira_create_subtask':
+      return await client.createSubtask(args.parentKey, args.summary, args.description, args.priority, args.issueType, args.fields, args.contentFormat);
+    case 'jira_set_parent':
+      return await client.setParent(args.issueKeys, args.parentKey || null);
+    case 'jira_get_fields':
+      return await client.getFields(args.search);
+    case 'jira_get_create_meta':
+      return await client.getCreateMeta(args.projectKey, args.issueType);
+    case 'jira_get_attachments':
+      return await client.getAttachments(args.issueKey);
+    case 'jira_download_attachment':
+      return await client.downloadAttachment(args.attachmentId);
+    case 'jira_upload_attachment':
+      return await client.uploadAttachment(
+        args.issueKey,
+        args.filename,
+        decodeAttachmentContent(args.content, args.encoding),
+        args.contentType
+      );
+    case 'jira_get_worklogs':
+      return await client.getWorklogs(args.issueKey, args.startAt, args.maxResults);
+    case 'jira_add_worklog':
+      return await client.addWorklog(
+        args.issueKey,
+        { timeSpent: args.timeSpent, started: args.started, comment: args.comment },
+        { adjustEstimate: args.adjustEstimate, newEstimate: args.newEstimate, reduceBy: args.reduceBy }
+      );
+    case 'jira_update_worklog':
+      return await client.updateWorklog(
+        args.issueKey,
+        args.worklogId,
+        { timeSpent: args.timeSpent, started: args.started, comment: args.comment },
+        { adjustEstimate: args.adjustEstimate, newEstimate: args.newEstimate }
+      );
+    case 'jira_delete_worklog':
+      return await client.deleteWorklog(args.issueKey, args.worklogId, {
+        adjustEstimate: args.adjustEstimate,
+        newEstimate: args.newEstimate,
+        increaseBy: args.increaseBy
+      });
+    case 'jira_get_worklog_report':
+      return await client.getWorklogReport(args.startDate, args.endDate, args.author, args.jql);
+    case 'jira_get_boards':
+      return await client.getBoards(args.projectKey, args.type, args.name, args.startAt, args.maxResults);
+    case 'jira_get_sprints':
+      return await client.getSprints(args.boardId, args.state, args.startAt, args.maxResults);
+    case 'jira_get_sprint_issues':
+      return await client.getSprintIssues(args.sprintId, args.jql, args.fields, args.startAt, args.maxResults);
+    case 'jira_move_issues_to_sprint':
+      return await client.moveIssuesToSprint(args.sprintId, args.issueKeys);
+    case 'jira_move_issues_to_backlog':
+      return await client.moveIssuesToBacklog(args.issueKeys);
+    case 'jira_create_sprint':
+      return await client.createSprint(args.boardId, args.name, args.startDate, args.endDate, args.goal);
+    case 'jira_start_sprint':
+      return await client.startSprint(args.sprintId, args.startDate, args.endDate, args.goal);
+    case 'jira_close_sprint':
+      return await client.closeSprint(args.sprintId);
     case 'jira_get_projects':
       return await client.getProjects();
     default:
@@ -0,0 +1,157 @@
+import { PolicyConfig, ToolPolicy, WRITE_TOOLS, isToolAllowed, validatePolicyConfig } from './policy.js';
+import { ConfluenceClient } from '../clients/confluence.js';
+import { JiraClient } from '../clients/jira.js';
+import { PolicyError, ReadOnlyModeError, ValidationError } from '../utils/errors.js';
+import { createConfluenceTools } from '../tools/confluence.js';
+import { createJiraTools } from '../tools/jira.js';
+
+function createPolicy(config: PolicyConfig) {
+  const confluenceClient = {
+    getPage: jest.fn(async (pageId: string) => ({ id: pageId, space: { key: pageId === '200' ? 'OTHER' : 'DOCS' } }))
+  };
+  const jiraClient = {
+    getFields: jest.fn(async () => [{ id: 'customfield_10010', name: 'Security Level' }]),
+    getBoardProjectKey: jest.fn(async () => 'PROJ'),
+    getSprintProjectKey: jest.fn(async (sprintId: number): Promise<string> => {
+      throw new ValidationError(`Sprint ${sprintId} has no board, so project restrictions cannot be checked`);
+    }),
+    getIssueLink: jest.fn(async () => ({ inwardIssue: { key: 'PROJ-1' }, outwardIssue: { key: 'OPS-2' } }))
+  };
+  const policy = new ToolPolicy(config, confluenceClient as unknown as ConfluenceClient, jiraClient as unknown as JiraClient);
+  return { policy, confluenceClient, jiraClient };
+}
+
+describe('validatePolicyConfig', () => {
+  it('accepts a complete policy', () => {
+    const config = {
+      tools: { allow: ['jira_*'], deny: ['jira_close_sprint'] },
+      jira: { writeProjects: ['PROJ'], forbiddenFields: ['reporter'] },
+      confluence: { writeSpaces: ['DOCS'] },
+      requireDryRun: ['jira_delete_*']
+    };
+    expect(validatePolicyConfig(config)).toBe(config);
+  });
+
+  it('rejects unknown settings and malformed lists', () => {
+    expect(() => validatePolicyConfig([])).toThrow('the policy must be an object');
+    expect(() => validatePolicyConfig({ tool: {} })).toThrow("unknown setting 'tool'");
+    expect(() => validatePolicyConfig({ jira: { writeProject: ['PROJ'] } })).toThrow("unknown setting 'jira.writeProject'");
+    expect(() => validatePolicyConfig({ jira: ['PROJ'] })).toThrow('jira must be an object');
+    expect(() => validatePolicyConfig({ confluence: { writeSpaces: 'DOCS' } })).toThrow('confluence.writeSpaces must be a list of names');
+    expect(() => validatePolicyConfig({ requireDryRun: [''] })).toThrow('requireDryRun must be a list of names');
+  });
+});
+
+describe('isToolAllowed', () => {
+  it('applies allow and deny patterns', () => {
+    const config = { tools: { allow: ['jira_*', 'confluence_get_page'], deny: ['jira_*_sprint'] } };
+    expect(isToolAllowed(config, 'jira_get_issue')).toBe(true);
+    expect(isToolAllowed(config, 'JIRA_GET_ISSUE')).toBe(true);
+    expect(isToolAllowed(config, 'jira_close_sprint')).toBe(false);
+    expect(isToolAllowed(config, 'confluence_update_page')).toBe(false);
+    expect(isToolAllowed({}, 'confluence_update_page')).toBe(true);
+  });
+});
+
+describe('ToolPolicy.check', () => {
+  it('refuses denied tools', async () => {
+    const { policy } = createPolicy({ tools: { deny: ['confluence_move_page'] } });
+    await expect(policy.check('confluence_move_page', { pageId: '100' })).rejects.toThrow(PolicyError);
+  });
+
+  it('does not restrict reads', async () => {
+    const { policy, confluenceClient } = createPolicy({ confluence: { writeSpaces: ['DOCS'] } });
+    await expect(policy.check('confluence_get_page', { pageId: '200' })).resolves.toBeUndefined();
+    expect(confluenceClient.getPage).not.toHaveBeenCalled();
+  });
+
+  describe('in read-only mode', () => {
+    beforeEach(() => {
+      process.env.READ_ONLY_MODE = 'true';
+    });
+    afterEach(() => {
+      delete process.env.READ_ONLY_MODE;
+    });
+
+    it('refuses writes', async () => {
+      const { policy } = createPolicy({});
+      await expect(policy.check('jira_update_issue', { issueKey: 'PROJ-1' })).rejects.toThrow(ReadOnlyModeError);
+      await expect(policy.check('confluence_add_labels', { pageId: '100' }))
+        .rejects.toThrow('Cannot run confluence_add_labels: running in read-only mode');
+    });
+
+    it('allows previews, which send no writes', async () => {
+      const { policy } = createPolicy({});
+      await expect(policy.check('confluence_add_labels', { pageId: '100', dryRun: true })).resolves.toBeUndefined();
+    });
+
+    it('allows reads', async () => {
+      const { policy } = createPolicy({});
+      await expect(policy.check('jira_get_issue', { issueKey: 'PROJ-1' })).resolves.toBeUndefined();
+    });
+  });
+
+  it('restricts Jira writes to the allowed projects', async () => {
+    const { policy } = createPolicy({ jira: { writeProjects: ['proj'] } });
+    await expect(policy.check('jira_update_issue', { issueKey: 'PROJ-1' })).resolves.toBeUndefined();
+    await expect(policy.check('jira_create_issue_link', { issueKey: 'PROJ-1', targetIssueKey: 'OPS-2' }))
+      .rejects.toThrow('the policy restricts Jira writes to proj, not OPS');
+    await expect(policy.check('jira_delete_issue_link', { linkId: '10' })).rejects.toThrow('not OPS');
+    await expect(policy.check('jira_create_sprint', { boardId: 1 })).resolves.toBeUndefined();
+    await expect(policy.check('jira_start_sprint', { sprintId: 5 })).rejects.toThrow('Sprint 5 has no board');
+    await expect(policy.check('jira_add_worklog', {})).rejects.toThrow('the target project is unknown');
+  });
+
+  it('refuses issue keys that could reach another project through the URL path', async () => {
+    const { policy } = createPolicy({ jira: { writeProjects: ['PROJ'] } });
+    await expect(policy.check('jira_update_issue', { issueKey: 'PROJ-1/../OTHER-5' }))
+      .rejects.toThrow("'PROJ-1/../OTHER-5' is not an issue key");
+    await expect(policy.check('jira_set_parent', { issueKeys: ['PROJ-1', 'PROJ-2%2F..%2FOTHER-5'], parentKey: 'PROJ-3' }))
+      .rejects.toThrow(PolicyError);
+  });
+
+  it('restricts Confluence writes to the allowed spaces', async () => {
+    const { policy } = createPolicy({ confluence: { writeSpaces: ['DOCS'] } });
+    await expect(policy.check('confluence_update_page', { pageId: '100' })).resolves.toBeUndefined();
+    await expect(policy.check('confluence_move_page', { pageId: '100', targetId: '200' })).rejects.toThrow('not OTHER');
+    await expect(policy.check('confluence_create_page', { spaceKey: 'other' })).rejects.toThrow('not OTHER');
+  });
+
+  it('checks the destination of a copy rather than its source', async () => {
+    const { policy } = createPolicy({ confluence: { writeSpaces: ['DOCS'] } });
+    await expect(policy.check('confluence_copy_page', { pageId: '200', spaceKey: 'DOCS' })).resolves.toBeUndefined();
+    await expect(policy.check('confluence_copy_page', { pageId: '200' })).rejects.toThrow('not OTHER');
+  });
+
+  it('refuses forbidden fields by ID or name', async () => {
+    const { policy } = createPolicy({ jira: { forbiddenFields: ['Security Level', 'reporter'] } });
+    await expect(policy.check('jira_update_issue', { issueKey: 'PROJ-1', fields: { summary: 'x' } })).resolves.toBeUndefined();
+    await expect(policy.check('jira_update_issue', { issueKey: 'PROJ-1', fields: { customfield_10010: 'x' } }))
+      .rejects.toThrow("forbids setting the field 'customfield_10010'");
+    await expect(policy.check('jira_create_issue', { projectKey: 'PROJ', fields: { Reporter: 'jdoe' } })).rejects.toThrow(PolicyError);
+  });
+
+  it('allows a write once after a matching preview', async () => {
+    const { policy } = createPolicy({ requireDryRun: ['jira_delete_*'] });
+    const args = { issueKey: 'PROJ-1', worklogId: '7' };
+
+    await expect(policy.check('jira_delete_worklog', args)).rejects.toThrow('requires a preview');
+
+    await policy.check('jira_delete_worklog', { ...args, dryRun: true });
+    policy.recordPreview('jira_delete_worklog', { worklogId: '7', issueKey: 'PROJ-1', dryRun: true });
+
+    await expect(policy.check('jira_delete_worklog', { ...args, worklogId: '8' })).rejects.toThrow('requires a preview');
+    await expect(policy.check('jira_delete_worklog', args)).resolves.toBeUndefined();
+    await expect(policy.check('jira_delete_worklog', args)).rejects.toThrow('requires a preview');
+  });
+});
+
+describe('WRITE_TOOLS', () => {
+  it('only names tools that exist', () => {
+    const names = [
+      ...createConfluenceTools({} as ConfluenceClient),
+      ...createJiraTools({} as JiraClient)
+    ].map(tool => tool.name);
+    expect([...WRITE_TOOLS].filter(name => !names.includes(name))).toEqual([]);
+  });
+});
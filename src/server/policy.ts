@@ -0,0 +1,378 @@
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { ConfluenceClient } from '../clients/confluence.js';
+import { JiraClient } from '../clients/jira.js';
+import { PolicyError, ReadOnlyModeError } from '../utils/errors.js';
+
+/**
+ * Declarative tool policy loaded from POLICY_FILE (YAML or JSON):
+ *
+ *   tools:
+ *     deny: [jira_close_sprint, "confluence_*_labels"]
+ *   jira:
+ *     writeProjects: [PROJ, OPS]
+ *     forbiddenFields: [reporter, security]
+ *   confluence:
+ *     writeSpaces: [DOCS]
+ *   requireDryRun: [confluence_move_page, "jira_delete_*"]
+ *
+ * Tool names may contain * wildcards.
+ */
+export interface PolicyConfig {
+  tools?: {
+    /** Only these tools are available (default: all) */
+    allow?: string[];
+    /** These tools are never available, even if allowed */
+    deny?: string[];
+  };
+  jira?: {
+    /** Projects that write tools may change (default: all) */
+    writeProjects?: string[];
+    /** Fields, by ID or name, that may not be set */
+    forbiddenFields?: string[];
+  };
+  confluence?: {
+    /** Spaces that write tools may change (default: all) */
+    writeSpaces?: string[];
+  };
+  /** Write tools that must first be called with dryRun: true and the same arguments */
+  requireDryRun?: string[];
+}
+
+/** Tools that change Jira or Confluence, refused early while READ_ONLY_MODE is enabled */
+export const WRITE_TOOLS = new Set([
+  'confluence_create_page',
+  'confluence_update_page',
+  'confluence_restore_page_version',
+  'confluence_move_page',
+  'confluence_copy_page',
+  'confluence_add_comment',
+  'confluence_resolve_inline_comment',
+  'confluence_add_labels',
+  'confluence_remove_labels',
+  'confluence_upload_attachment',
+  'jira_create_issue',
+  'jira_update_issue',
+  'jira_add_comment',
+  'jira_transition_issue',
+  'jira_create_issue_link',
+  'jira_delete_issue_link',
+  'jira_create_subtask',
+  'jira_set_parent',
+  'jira_upload_attachment',
+  'jira_add_worklog',
+  'jira_update_worklog',
+  'jira_delete_worklog',
+  'jira_move_issues_to_sprint',
+  'jira_move_issues_to_backlog',
+  'jira_create_sprint',
+  'jira_start_sprint',
+  'jira_close_sprint'
+]);
+
+// Tool arguments that set a Jira field outside the fields object
+const FIELD_ARGUMENTS: Record<string, string> = {
+  description: 'description',
+  priority: 'priority',
+  parentKey: 'parent',
+  assignee: 'assignee',
+  resolution: 'resolution',
+  comment: 'comment'
+};
+
+// Tools whose field arguments are checked against forbiddenFields
+const FIELD_TOOLS = new Set(['jira_create_issue', 'jira_update_issue', 'jira_create_subtask', 'jira_transition_issue', 'jira_set_parent']);
+
+// Arguments that are not part of the operation, ignored when matching a call to its preview
+const PREVIEW_IGNORED_ARGUMENTS = new Set(['dryRun', 'detail']);
+
+// How long a dryRun preview allows the matching call
+const PREVIEW_TTL_MS = 10 * 60 * 1000;
+
+const CONFIG_KEYS: Record<string, string[]> = {
+  tools: ['allow', 'deny'],
+  jira: ['writeProjects', 'forbiddenFields'],
+  confluence: ['writeSpaces'],
+  requireDryRun: []
+};
+
+function assertStringList(value: unknown, path: string): void {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    throw new Error(`${path} must be a list of names`);
+  }
+}
+
+/**
+ * Checks the structure of a parsed policy, so typos fail at startup instead
+ * of silently allowing everything.
+ */
+export function validatePolicyConfig(config: unknown): PolicyConfig {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('the policy must be an object');
+  }
+
+  for (const [key, value] of Object.entries(config)) {
+    const nestedKeys = CONFIG_KEYS[key];
+    if (!nestedKeys) {
+      throw new Error(`unknown setting '${key}'; use ${Object.keys(CONFIG_KEYS).join(', ')}`);
+    }
+    if (nestedKeys.length === 0) {
+      assertStringList(value, key);
+      continue;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`${key} must be an object with ${nestedKeys.join(', ')}`);
+    }
+    for (const [nestedKey, nestedValue] of Object.entries(value)) {
+      if (!nestedKeys.includes(nestedKey)) {
+        throw new Error(`unknown setting '${key}.${nestedKey}'; use ${nestedKeys.map(name => `${key}.${name}`).join(', ')}`);
+      }
+      assertStringList(nestedValue, `${key}.${nestedKey}`);
+    }
+  }
+
+  return config as PolicyConfig;
+}
+
+/**
+ * Reads the policy file named by POLICY_FILE, or returns an empty policy if
+ * none is configured. Files ending in .json are parsed as JSON, others as YAML.
+ */
+export function loadPolicyConfig(path: string | undefined = process.env.POLICY_FILE): PolicyConfig {
+  if (!path) {
+    return {};
+  }
+
+  try {
+    const text = readFileSync(path, 'utf-8');
+    const parsed = path.toLowerCase().endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+    return validatePolicyConfig(parsed ?? {});
+  } catch (error) {
+    throw new Error(`Invalid policy file ${path}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+}
+
+function toPattern(name: string): RegExp {
+  const escaped = name.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function matchesAny(name: string, patterns: string[] | undefined): boolean {
+  return (patterns || []).some(pattern => toPattern(pattern).test(name));
+}
+
+/**
+ * Returns true if the policy makes a tool available.
+ */
+export function isToolAllowed(config: PolicyConfig, toolName: string): boolean {
+  const { allow, deny } = config.tools || {};
+  if (allow && !matchesAny(toolName, allow)) {
+    return false;
+  }
+  return !matchesAny(toolName, deny);
+}
+
+// Only a plain key names its project; anything else, e.g. PROJ-1/../OTHER-5, could reach another issue
+const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]*-\d+$/i;
+
+function projectOfIssue(toolName: string, issueKey: string): string {
+  if (!ISSUE_KEY_PATTERN.test(issueKey)) {
+    throw new PolicyError(`${toolName} is refused: '${issueKey}' is not an issue key such as PROJ-123`);
+  }
+  return issueKey.split('-')[0].toUpperCase();
+}
+
+/**
+ * Serialises arguments with sorted keys, so a call matches its preview
+ * regardless of argument order.
+ */
+function previewKey(toolName: string, args: Record<string, unknown>): string {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(normalize);
+    }
+    if (value && typeof value === 'object') {
+      const object = value as Record<string, unknown>;
+      return Object.fromEntries(Object.keys(object).sort().map(key => [key, normalize(object[key])]));
+    }
+    return value;
+  };
+  const operation = Object.fromEntries(Object.entries(args).filter(([key]) => !PREVIEW_IGNORED_ARGUMENTS.has(key)));
+  return `${toolName}:${JSON.stringify(normalize(operation))}`;
+}
+
+/**
+ * Enforces a policy on tool calls. Each MCP session gets its own instance,
+ * so a preview made by one client does not allow a write by another.
+ */
+export class ToolPolicy {
+  private previews = new Map<string, number>();
+
+  constructor(
+    private config: PolicyConfig,
+    private confluenceClient: ConfluenceClient,
+    private jiraClient: JiraClient
+  ) {}
+
+  /**
+   * Throws a PolicyError if a tool call is not allowed, or a
+   * ReadOnlyModeError if it writes while READ_ONLY_MODE is enabled; the
+   * clients refuse such writes too, this only rejects them early. Previews
+   * send no writes and are allowed. A call that needs a preview is allowed
+   * once after the same call was made with dryRun: true.
+   * @param preview - Whether the call is a dry run
+   */
+  async check(toolName: string, args: Record<string, unknown> = {}, preview: boolean = args.dryRun === true): Promise<void> {
+    if (!isToolAllowed(this.config, toolName)) {
+      throw new PolicyError(`Tool ${toolName} is disabled by the policy`);
+    }
+    if (!WRITE_TOOLS.has(toolName)) {
+      return;
+    }
+    if (process.env.READ_ONLY_MODE === 'true' && !preview) {
+      throw new ReadOnlyModeError(`Cannot run ${toolName}: running in read-only mode`);
+    }
+
+    if (toolName.startsWith('jira_')) {
+      await this.checkJiraProjects(toolName, args);
+      await this.checkJiraFields(toolName, args);
+    } else {
+      await this.checkConfluenceSpaces(toolName, args);
+    }
+
+    if (!preview && matchesAny(toolName, this.config.requireDryRun)) {
+      this.consumePreview(toolName, args);
+    }
+  }
+
+  /**
+   * Remembers a successful dry run, allowing the same call without dryRun.
+   */
+  recordPreview(toolName: string, args: Record<string, unknown> = {}): void {
+    if (matchesAny(toolName, this.config.requireDryRun)) {
+      this.previews.set(previewKey(toolName, args), Date.now() + PREVIEW_TTL_MS);
+    }
+  }
+
+  private consumePreview(toolName: string, args: Record<string, unknown>): void {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.previews) {
+      if (expiresAt <= now) {
+        this.previews.delete(key);
+      }
+    }
+
+    const key = previewKey(toolName, args);
+    if (!this.previews.has(key)) {
+      throw new PolicyError(
+        `The policy requires a preview before ${toolName}: call it with the same arguments and dryRun: true, check the result, then repeat the call without dryRun`
+      );
+    }
+    this.previews.delete(key);
+  }
+
+  private async checkJiraProjects(toolName: string, args: Record<string, unknown>): Promise<void> {
+    const allowed = this.config.jira?.writeProjects;
+    if (!allowed) {
+      return;
+    }
+
+    const projects = new Set<string>();
+    if (args.projectKey) {
+      projects.add(String(args.projectKey).toUpperCase());
+    }
+    for (const key of [args.issueKey, args.parentKey, args.targetIssueKey, ...(Array.isArray(args.issueKeys) ? args.issueKeys : [])]) {
+      if (key) {
+        projects.add(projectOfIssue(toolName, String(key)));
+      }
+    }
+
+    // Sprints, boards and links only name their project indirectly
+    if (args.boardId !== undefined) {
+      projects.add((await this.jiraClient.getBoardProjectKey(Number(args.boardId))).toUpperCase());
+    }
+    if (args.sprintId !== undefined) {
+      projects.add((await this.jiraClient.getSprintProjectKey(Number(args.sprintId))).toUpperCase());
+    }
+    if (args.linkId !== undefined) {
+      const link = await this.jiraClient.getIssueLink(String(args.linkId));
+      for (const issue of [link.inwardIssue, link.outwardIssue]) {
+        projects.add(issue?.key ? projectOfIssue(toolName, issue.key) : '');
+      }
+    }
+
+    if (projects.size === 0) {
+      throw new PolicyError(`${toolName} is refused: the policy restricts Jira writes to ${allowed.join(', ')} and the target project is unknown`);
+    }
+    const wanted = allowed.map(project => project.toUpperCase());
+    const denied = [...projects].filter(project => !wanted.includes(project));
+    if (denied.length > 0) {
+      const names = denied.map(project => project || 'an unknown project');
+      throw new PolicyError(`${toolName} is refused: the policy restricts Jira writes to ${allowed.join(', ')}, not ${names.join(', ')}`);
+    }
+  }
+
+  private async checkJiraFields(toolName: string, args: Record<string, unknown>): Promise<void> {
+    const forbidden = (this.config.jira?.forbiddenFields || []).map(field => field.trim().toLowerCase());
+    if (forbidden.length === 0 || !FIELD_TOOLS.has(toolName)) {
+      return;
+    }
+
+    const keys = Object.keys(args.fields && typeof args.fields === 'object' ? args.fields : {});
+    for (const [argument, field] of Object.entries(FIELD_ARGUMENTS)) {
+      if (args[argument] !== undefined && args[argument] !== null) {
+        keys.push(field);
+      }
+    }
+    if (keys.length === 0) {
+      return;
+    }
+
+    // Fields may be given by ID or name, so compare both
+    let known: Array<{ id?: string; name: string }> = [];
+    if (keys.some(key => !forbidden.includes(key.toLowerCase()))) {
+      known = await this.jiraClient.getFields();
+    }
+    for (const key of keys) {
+      const wanted = key.trim().toLowerCase();
+      const field = known.find(candidate => candidate.id?.toLowerCase() === wanted || candidate.name?.toLowerCase() === wanted);
+      const names = [wanted, field?.id?.toLowerCase(), field?.name?.toLowerCase()];
+      if (names.some(name => name && forbidden.includes(name))) {
+        throw new PolicyError(`${toolName} is refused: the policy forbids setting the field '${key}'`);
+      }
+    }
+  }
+
+  private async checkConfluenceSpaces(toolName: string, args: Record<string, unknown>): Promise<void> {
+    const allowed = this.config.confluence?.writeSpaces;
+    if (!allowed) {
+      return;
+    }
+
+    const spaces = new Set<string>();
+    if (args.spaceKey) {
+      spaces.add(String(args.spaceKey).toUpperCase());
+    }
+
+    // A copy only writes to the source page's space if no destination is given
+    const contentIds = [args.targetId, args.parentId, args.commentId];
+    if (toolName !== 'confluence_copy_page' || (!args.spaceKey && !args.parentId)) {
+      contentIds.push(args.pageId);
+    }
+    for (const id of contentIds) {
+      if (id !== undefined && id !== null && id !== '') {
+        const content = await this.confluenceClient.getPage(String(id), 'space');
+        spaces.add(String(content.space?.key ?? '').toUpperCase());
+      }
+    }
+
+    if (spaces.size === 0) {
+      throw new PolicyError(`${toolName} is refused: the policy restricts Confluence writes to ${allowed.join(', ')} and the target space is unknown`);
+    }
+    const wanted = allowed.map(space => space.toUpperCase());
+    const denied = [...spaces].filter(space => !wanted.includes(space));
+    if (denied.length > 0) {
+      throw new PolicyError(`${toolName} is refused: the policy restricts Confluence writes to ${allowed.join(', ')}, not ${denied.map(space => space || 'an unknown space').join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AtlassianPrompts } from './prompts.js';
+import { AtlassianResources } from './resources.js';
+import { ConfluenceClient } from '../clients/confluence.js';
+import { JiraClient } from '../clients/jira.js';
+import { PolicyError, ValidationError } from '../utils/errors.js';
+
+function createPrompts(isToolEnabled?: (toolName: string) => boolean) {
+  const confluenceClient = {
+    search: jest.fn(async () => ({ results: [{ id: '100', title: 'Runbook' }, { id: '101', title: 'Roadmap' }] }))
+  };
+  const jiraClient = {
+    getIssue: jest.fn(async (key: string) => ({ key, fields: { summary: 'Login fails on Safari', project: { key: 'PROJ' } } })),
+    searchIssues: jest.fn(async () => ({
+      issues: [{ key: 'PROJ-7', fields: { summary: 'Safari login loop', status: { name: 'Open' }, issuetype: { name: 'Bug' } } }]
+    })),
+    getCreateMeta: jest.fn(async () => ({
+      fields: [
+        { fieldId: 'summary', name: 'Summary', required: true },
+        { fieldId: 'project', name: 'Project', required: true },
+        { fieldId: 'priority', name: 'Priority', required: false, allowedValues: [{ name: 'High' }, { name: 'Low' }] }
+      ]
+    })),
+    assertProjectAllowed: jest.fn()
+  };
+  const resources = {
+    read: jest.fn(async (uri: string) => `# ${uri}`)
+  };
+  const prompts = new AtlassianPrompts(
+    confluenceClient as unknown as ConfluenceClient,
+    jiraClient as unknown as JiraClient,
+    resources as unknown as AtlassianResources,
+    isToolEnabled
+  );
+  return { prompts, confluenceClient, jiraClient, resources };
+}
+
+function texts(result: Awaited<ReturnType<AtlassianPrompts['get']>>): string[] {
+  return result.messages.map(message => message.content.type === 'text' ? message.content.text : `[resource ${message.content.type}]`);
+}
+
+describe('AtlassianPrompts argument validation', () => {
+  it('rejects unknown prompts and missing required arguments', async () => {
+    const { prompts } = createPrompts();
+    await expect(prompts.get('write_poem')).rejects.toThrow('Unknown prompt: write_poem');
+    await expect(prompts.get('draft_bug_report', { projectKey: 'PROJ', problem: '  ' })).rejects.toThrow(
+      'Missing required arguments for draft_bug_report: problem'
+    );
+    await expect(prompts.get('triage_issue')).rejects.toThrow(McpError);
+  });
+
+  it('rejects keys that could break out of a query', async () => {
+    const { prompts, jiraClient } = createPrompts();
+    await expect(prompts.get('triage_issue', { issueKey: 'PROJ-1" OR project = SECRET' })).rejects.toThrow('Invalid issue key');
+    await expect(prompts.get('summarize_space', { spaceKey: 'DOCS)' })).rejects.toThrow('Invalid space key');
+    await expect(prompts.get('draft_bug_report', { projectKey: 'PROJ AND 1=1', problem: 'x' })).rejects.toThrow('Invalid project key');
+    expect(jiraClient.getIssue).not.toHaveBeenCalled();
+  });
+
+  it('rejects a maxPages that is not a positive number', async () => {
+    const { prompts, confluenceClient } = createPrompts();
+    for (const maxPages of ['-5', '0', 'ten', '3.5']) {
+      await expect(prompts.get('summarize_space', { spaceKey: 'DOCS', maxPages })).rejects.toThrow('Invalid maxPages');
+    }
+    expect(confluenceClient.search).not.toHaveBeenCalled();
+  });
+
+  it('caps maxPages', async () => {
+    const { prompts, confluenceClient } = createPrompts();
+    await prompts.get('summarize_space', { spaceKey: 'DOCS', maxPages: '5000' });
+    expect(confluenceClient.search).toHaveBeenCalledWith(expect.stringContaining('space = "DOCS"'), undefined, 25);
+
+    await prompts.get('summarize_space', { spaceKey: 'DOCS' });
+    expect(confluenceClient.search).toHaveBeenLastCalledWith(expect.any(String), undefined, 10);
+  });
+});
+
+describe('AtlassianPrompts tool availability', () => {
+  it('hides and refuses prompts whose tools are disabled', async () => {
+    const { prompts, jiraClient } = createPrompts(toolName => toolName !== 'jira_search_issues');
+    expect(prompts.list().map(prompt => prompt.name)).toEqual(['summarize_space']);
+    await expect(prompts.get('release_notes', { jql: 'project = PROJ' })).rejects.toThrow(PolicyError);
+    await expect(prompts.get('release_notes', { jql: 'project = PROJ' })).rejects.toThrow('jira_search_issues is disabled');
+    expect(jiraClient.searchIssues).not.toHaveBeenCalled();
+  });
+
+  it('lists every prompt when all tools are enabled', () => {
+    const { prompts } = createPrompts();
+    expect(prompts.list()).toHaveLength(4);
+  });
+
+  it('checks the project of a bug report against the project filter', async () => {
+    const { prompts, jiraClient } = createPrompts();
+    jiraClient.assertProjectAllowed.mockImplementation(() => {
+      throw new ValidationError('Project SECRET is outside the projects allowed by JIRA_PROJECTS_FILTER (PROJ)');
+    });
+    await expect(prompts.get('draft_bug_report', { projectKey: 'SECRET', problem: 'Crash' })).rejects.toThrow('JIRA_PROJECTS_FILTER');
+    expect(jiraClient.getCreateMeta).not.toHaveBeenCalled();
+    expect(jiraClient.searchIssues).not.toHaveBeenCalled();
+  });
+});
+
+describe('AtlassianPrompts messages', () => {
+  it('builds a triage prompt with the issue and related issues', async () => {
+    const { prompts, resources, jiraClient } = createPrompts();
+    const result = await prompts.get('triage_issue', { issueKey: ' PROJ-1 ' });
+
+    expect(resources.read).toHaveBeenCalledWith('jira://issue/PROJ-1');
+    expect(jiraClient.searchIssues).toHaveBeenCalledWith(
+      'project = "PROJ" AND text ~ "Login fails on Safari" AND key != PROJ-1',
+      ['summary', 'status'],
+      5
+    );
+    expect(result.description).toBe('Triage PROJ-1');
+    expect(result.messages[1].content).toEqual({
+      type: 'resource',
+      resource: { uri: 'jira://issue/PROJ-1', mimeType: 'text/markdown', text: '# jira://issue/PROJ-1' }
+    });
+    expect(texts(result)[2]).toBe('Possibly related issues in PROJ:\n\n- PROJ-7: Safari login loop (Open)');
+  });
+
+  it('lists the matching issues in release notes', async () => {
+    const { prompts, jiraClient } = createPrompts();
+    const result = await prompts.get('release_notes', { jql: 'fixVersion = "2.4.0"', title: '2.4.0' });
+
+    expect(jiraClient.searchIssues).toHaveBeenCalledWith('fixVersion = "2.4.0"', expect.any(Array), 100, { fetchAll: true, limit: 200 });
+    expect(texts(result)[0]).toMatch(/^Write release notes for 2\.4\.0 aimed at customers\./);
+    expect(texts(result)[1]).toBe('Issues matching `fixVersion = "2.4.0"` (1):\n\n- PROJ-7 [Bug] Safari login loop (Open)');
+  });
+
+  it('includes one resource per recent page in a space summary', async () => {
+    const { prompts } = createPrompts();
+    const result = await prompts.get('summarize_space', { spaceKey: 'DOCS' });
+    expect(result.messages.map(message => message.content.type === 'resource' && message.content.resource.uri)).toEqual([
+      false, 'confluence://space/DOCS', 'confluence://page/100', 'confluence://page/101'
+    ]);
+  });
+
+  it('lists the Bug fields without the ones set automatically', async () => {
+    const { prompts } = createPrompts();
+    const result = await prompts.get('draft_bug_report', { projectKey: 'PROJ', problem: 'Login fails (Safari 17)' });
+    expect(texts(result)[1]).toBe('Fields on the PROJ Bug create screen:\n\n- Summary (required)\n- Priority (one of: High, Low)');
+    expect(texts(result)[2]).toContain('PROJ-7');
+  });
+});
@@ -0,0 +1,333 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ConfluenceClient } from '../clients/confluence.js';
+import { JiraClient, JiraIssueFields } from '../clients/jira.js';
+import { PolicyError } from '../utils/errors.js';
+import { Logger } from '../utils/logger.js';
+import { AtlassianResources } from './resources.js';
+
+// Upper bound on issues pulled into a release notes prompt
+const RELEASE_NOTES_ISSUE_LIMIT = 200;
+// Page bodies are cut to this many characters when summarising a space
+const PAGE_EXCERPT_LENGTH = 4000;
+// Pages included in a space summary by default and at most; each one is a separate fetch
+const SUMMARY_PAGES_DEFAULT = 10;
+const SUMMARY_PAGES_LIMIT = 25;
+
+export const prompts: Prompt[] = [
+  {
+    name: 'triage_issue',
+    description: 'Triage a Jira issue: assess type, priority and completeness, spot likely duplicates and suggest next steps',
+    arguments: [
+      { name: 'issueKey', description: 'The key of the issue to triage (e.g., PROJ-123)', required: true }
+    ]
+  },
+  {
+    name: 'release_notes',
+    description: 'Write release notes from the Jira issues matched by a JQL query',
+    arguments: [
+      { name: 'jql', description: 'JQL selecting the issues in the release (e.g., fixVersion = "2.4.0")', required: true },
+      { name: 'title', description: 'Optional release name or version for the heading' },
+      { name: 'audience', description: 'Optional audience, e.g. customers or internal (default: customers)' }
+    ]
+  },
+  {
+    name: 'summarize_space',
+    description: 'Summarise a Confluence space from its overview and most recently updated pages',
+    arguments: [
+      { name: 'spaceKey', description: 'The key of the space (e.g., DEV)', required: true },
+      { name: 'maxPages', description: 'How many recently updated pages to include (default: 10)' }
+    ]
+  },
+  {
+    name: 'draft_bug_report',
+    description: 'Draft a well-structured Jira bug report from a problem description, using the project\'s Bug fields and checking for existing reports',
+    arguments: [
+      { name: 'projectKey', description: 'The key of the project the bug belongs to', required: true },
+      { name: 'problem', description: 'What went wrong, in your own words', required: true }
+    ]
+  }
+];
+
+// The tools that read the data each prompt pre-fetches. A prompt is only
+// available while all of them are, so ENABLED_TOOLS and the policy file
+// cannot be bypassed through prompts/get.
+const PROMPT_TOOLS: Record<string, string[]> = {
+  triage_issue: ['jira_get_issue', 'jira_search_issues'],
+  release_notes: ['jira_search_issues'],
+  summarize_space: ['confluence_get_spaces', 'confluence_search', 'confluence_get_page'],
+  draft_bug_report: ['jira_get_create_meta', 'jira_search_issues']
+};
+
+// Fields requested for release notes
+interface ReleaseNoteFields extends JiraIssueFields {
+  issuetype?: { name: string };
+  resolution?: { name: string } | null;
+  labels?: string[];
+  components?: Array<{ name: string }>;
+}
+
+function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function resourceMessage(uri: string, text: string): PromptMessage {
+  return { role: 'user', content: { type: 'resource', resource: { uri, mimeType: 'text/markdown', text } } };
+}
+
+/**
+ * Checks that an issue, project or space key argument cannot break out of the
+ * JQL/CQL it is embedded in.
+ */
+function requireKey(value: string, label: string): string {
+  const key = value.trim();
+  if (!/^~?[A-Za-z0-9_-]+$/.test(key)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${label}: ${value}`);
+  }
+  return key;
+}
+
+/**
+ * Parses the maxPages argument of summarize_space, capped at
+ * SUMMARY_PAGES_LIMIT.
+ */
+function parseMaxPages(value: string | undefined): number {
+  if (!value?.trim()) {
+    return SUMMARY_PAGES_DEFAULT;
+  }
+  if (!/^\d+$/.test(value.trim()) || parseInt(value, 10) < 1) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid maxPages: ${value}; use a number from 1 to ${SUMMARY_PAGES_LIMIT}`);
+  }
+  return Math.min(parseInt(value, 10), SUMMARY_PAGES_LIMIT);
+}
+
+/**
+ * Reduces free text to plain words so it can be used in a JQL text search
+ * without tripping over quoting or Lucene syntax.
+ */
+function toSearchTerms(text: string): string {
+  return text.replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim().split(' ').slice(0, 12).join(' ');
+}
+
+/**
+ * Builds prompt messages for common Atlassian workflows, pre-fetching the
+ * issues and pages they refer to so every MCP client gets the same context.
+ * Projects and spaces are limited to JIRA_PROJECTS_FILTER and
+ * CONFLUENCE_SPACES_FILTER, like searches.
+ */
+export class AtlassianPrompts {
+  private logger = new Logger('prompts');
+
+  /**
+   * @param isToolEnabled - Whether a tool is offered by this server
+   */
+  constructor(
+    private confluenceClient: ConfluenceClient,
+    private jiraClient: JiraClient,
+    private resources: AtlassianResources,
+    private isToolEnabled: (toolName: string) => boolean = () => true
+  ) {}
+
+  /**
+   * Lists the prompts whose tools are all enabled.
+   */
+  list(): Prompt[] {
+    return prompts.filter(prompt => this.disabledTools(prompt.name).length === 0);
+  }
+
+  async get(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const prompt = prompts.find(p => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const disabled = this.disabledTools(name);
+    if (disabled.length > 0) {
+      throw new PolicyError(`Prompt ${name} is not available: ${disabled.join(', ')} ${disabled.length === 1 ? 'is' : 'are'} disabled on this server`);
+    }
+
+    const missing = (prompt.arguments || []).filter(arg => arg.required && !args[arg.name]?.trim());
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    this.logger.debug(`Building prompt: ${name}`, args);
+
+    switch (name) {
+      case 'triage_issue':
+        return this.triageIssue(requireKey(args.issueKey, 'issue key'));
+      case 'release_notes':
+        return this.releaseNotes(args.jql, args.title, args.audience);
+      case 'summarize_space':
+        return this.summarizeSpace(requireKey(args.spaceKey, 'space key'), parseMaxPages(args.maxPages));
+      case 'draft_bug_report':
+        return this.draftBugReport(requireKey(args.projectKey, 'project key'), args.problem);
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+  }
+
+  private disabledTools(promptName: string): string[] {
+    return (PROMPT_TOOLS[promptName] || []).filter(toolName => !this.isToolEnabled(toolName));
+  }
+
+  private async triageIssue(issueKey: string): Promise<GetPromptResult> {
+    const uri = `jira://issue/${issueKey}`;
+    const issueMarkdown = await this.resources.read(uri);
+
+    const issue = await this.jiraClient.getIssue(issueKey, ['summary', 'project']);
+    const duplicates = await this.findSimilarIssues(issue.fields.project!.key, issue.fields.summary || '', issueKey);
+
+    const messages = [
+      textMessage(
+        `Triage the Jira issue ${issueKey} below.\n\n` +
+        'Report:\n' +
+        '1. A one-sentence restatement of the problem or request.\n' +
+        '2. Whether the issue type and priority fit; suggest changes with reasons.\n' +
+        '3. Missing information the reporter should add (steps to reproduce, environment, acceptance criteria).\n' +
+        '4. Whether any of the possibly related issues is a duplicate.\n' +
+        '5. Recommended next step: e.g. ready for development, needs info, duplicate, won\'t do.'
+      ),
+      resourceMessage(uri, issueMarkdown)
+    ];
+
+    if (duplicates) {
+      messages.push(textMessage(`Possibly related issues in ${issue.fields.project!.key}:\n\n${duplicates}`));
+    }
+
+    return { description: `Triage ${issueKey}`, messages };
+  }
+
+  private async releaseNotes(jql: string, title?: string, audience: string = 'customers'): Promise<GetPromptResult> {
+    const result = await this.jiraClient.searchIssues(
+      jql,
+      ['summary', 'issuetype', 'status', 'resolution', 'labels', 'components'],
+      100,
+      { fetchAll: true, limit: RELEASE_NOTES_ISSUE_LIMIT }
+    );
+    const issues = result.issues || [];
+
+    const lines = issues.map(issue => {
+      const fields = (issue.fields || {}) as ReleaseNoteFields;
+      const extras = [
+        fields.status?.name,
+        fields.resolution?.name,
+        fields.components?.length ? `components: ${fields.components.map(c => c.name).join(', ')}` : undefined,
+        fields.labels?.length ? `labels: ${fields.labels.join(', ')}` : undefined
+      ].filter(Boolean).join('; ');
+      return `- ${issue.key} [${fields.issuetype?.name || 'Issue'}] ${fields.summary}${extras ? ` (${extras})` : ''}`;
+    });
+
+    const truncated = result.nextCursor ? `\n\nOnly the first ${issues.length} matching issues are listed.` : '';
+
+    return {
+      description: `Release notes${title ? ` for ${title}` : ''}`,
+      messages: [
+        textMessage(
+          `Write release notes${title ? ` for ${title}` : ''} aimed at ${audience}.\n\n` +
+          'Group the changes under headings such as New features, Improvements and Bug fixes, based on the issue types. ' +
+          'Rewrite each summary as a short user-facing sentence, merge closely related issues, leave out purely internal work ' +
+          'unless the audience is internal, and reference issue keys in parentheses.'
+        ),
+        textMessage(
+          `Issues matching \`${jql}\` (${issues.length}):\n\n${lines.join('\n') || '_No issues matched_'}${truncated}`
+        )
+      ]
+    };
+  }
+
+  private async summarizeSpace(spaceKey: string, maxPages: number): Promise<GetPromptResult> {
+    const spaceUri = `confluence://space/${spaceKey}`;
+    const spaceMarkdown = await this.resources.read(spaceUri);
+
+    const recent = await this.confluenceClient.search(`space = "${spaceKey}" AND type = page ORDER BY lastmodified DESC`, undefined, maxPages);
+    const messages = [
+      textMessage(
+        `Summarise the Confluence space ${spaceKey}.\n\n` +
+        'Cover what the space is for, the main topics and how the pages are organised, what changed recently, ' +
+        'and anything that looks outdated, duplicated or missing. Refer to pages by title.'
+      ),
+      resourceMessage(spaceUri, spaceMarkdown)
+    ];
+
+    for (const page of recent.results || []) {
+      const uri = `confluence://page/${page.id}`;
+      try {
+        const markdown = await this.resources.read(uri);
+        const excerpt = markdown.length > PAGE_EXCERPT_LENGTH
+          ? `${markdown.slice(0, PAGE_EXCERPT_LENGTH)}\n\n[... truncated]`
+          : markdown;
+        messages.push(resourceMessage(uri, excerpt));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn(`Skipping page ${page.id} in space summary: ${errorMessage}`);
+      }
+    }
+
+    return { description: `Summary of space ${spaceKey}`, messages };
+  }
+
+  private async draftBugReport(projectKey: string, problem: string): Promise<GetPromptResult> {
+    this.jiraClient.assertProjectAllowed(projectKey, `Project ${projectKey}`);
+
+    let fieldGuide = '';
+    try {
+      const meta = await this.jiraClient.getCreateMeta(projectKey, 'Bug');
+      fieldGuide = (meta.fields || [])
+        .filter(field => !['project', 'issuetype', 'reporter', 'attachment', 'issuelinks'].includes(field.fieldId || ''))
+        .map(field => {
+          const options = field.allowedValues?.length
+            ? ` (one of: ${field.allowedValues.slice(0, 15).map(v => v.name ?? v.value).join(', ')})`
+            : '';
+          return `- ${field.name}${field.required ? ' (required)' : ''}${options}`;
+        })
+        .join('\n');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Could not load Bug fields for ${projectKey}: ${errorMessage}`);
+    }
+
+    const duplicates = await this.findSimilarIssues(projectKey, problem);
+
+    const messages = [
+      textMessage(
+        `Draft a Jira bug report for project ${projectKey} from this problem description:\n\n${problem}\n\n` +
+        'Write a concise summary line, then a description with the sections Steps to reproduce, Expected result, ' +
+        'Actual result and Environment. Mark anything you had to assume with [TODO] instead of inventing details. ' +
+        'Propose values for the fields listed below, and if one of the existing issues already covers the problem, ' +
+        'say so instead of drafting a new report.'
+      )
+    ];
+
+    if (fieldGuide) {
+      messages.push(textMessage(`Fields on the ${projectKey} Bug create screen:\n\n${fieldGuide}`));
+    }
+    if (duplicates) {
+      messages.push(textMessage(`Existing issues that may describe the same problem:\n\n${duplicates}`));
+    }
+
+    return { description: `Bug report for ${projectKey}`, messages };
+  }
+
+  /**
+   * Lists up to five issues in a project whose text resembles the given text,
+   * or returns an empty string if there are none or the search fails.
+   */
+  private async findSimilarIssues(projectKey: string, text: string, excludeKey?: string): Promise<string> {
+    const terms = toSearchTerms(text);
+    if (!terms) {
+      return '';
+    }
+
+    try {
+      const jql = `project = "${projectKey}" AND text ~ "${terms}"${excludeKey ? ` AND key != ${excludeKey}` : ''}`;
+      const result = await this.jiraClient.searchIssues(jql, ['summary', 'status'], 5);
+      return (result.issues || [])
+        .map(issue => `- ${issue.key}: ${issue.fields?.summary} (${issue.fields?.status?.name})`)
+        .join('\n');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Similar issue search failed: ${errorMessage}`);
+      return '';
+    }
+  }
+}
@@ -0,0 +1,347 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ErrorCode, McpError, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ConfluenceClient, ConfluenceContent } from '../clients/confluence.js';
+import { JiraClient } from '../clients/jira.js';
+import { PolicyError } from '../utils/errors.js';
+import { Logger } from '../utils/logger.js';
+
+const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'jira://issue/{key}',
+    name: 'Jira issue',
+    description: 'A Jira issue with its details, description and comments, rendered as Markdown',
+    mimeType: MARKDOWN_MIME_TYPE
+  },
+  {
+    uriTemplate: 'confluence://page/{id}',
+    name: 'Confluence page',
+    description: 'A Confluence page body rendered as Markdown',
+    mimeType: MARKDOWN_MIME_TYPE
+  },
+  {
+    uriTemplate: 'confluence://space/{key}',
+    name: 'Confluence space',
+    description: 'A Confluence space overview with its recently updated pages',
+    mimeType: MARKDOWN_MIME_TYPE
+  }
+];
+
+type ResourceRef =
+  | { type: 'issue'; key: string }
+  | { type: 'page'; id: string }
+  | { type: 'space'; key: string };
+
+// The tool that reads the same data as each type of resource. A resource is
+// only available while that tool is, so ENABLED_TOOLS and the policy file
+// cannot be bypassed through resources/read.
+const RESOURCE_TOOLS: Record<ResourceRef['type'], string> = {
+  issue: 'jira_get_issue',
+  page: 'confluence_get_page',
+  space: 'confluence_get_spaces'
+};
+
+function parseResourceUri(uri: string): ResourceRef {
+  let match = /^jira:\/\/issue\/([A-Za-z][A-Za-z0-9_]*-\d+)$/.exec(uri);
+  if (match) {
+    return { type: 'issue', key: match[1].toUpperCase() };
+  }
+
+  match = /^confluence:\/\/page\/(\d+)$/.exec(uri);
+  if (match) {
+    return { type: 'page', id: match[1] };
+  }
+
+  match = /^confluence:\/\/space\/(~?[A-Za-z0-9_-]+)$/.exec(uri);
+  if (match) {
+    return { type: 'space', key: match[1] };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+}
+
+/**
+ * Lists, renders and versions Jira issues and Confluence pages and spaces as
+ * MCP resources. Issues and spaces are limited to JIRA_PROJECTS_FILTER and
+ * CONFLUENCE_SPACES_FILTER, like searches.
+ */
+export class AtlassianResources {
+  private logger = new Logger('resources');
+
+  /**
+   * @param isToolEnabled - Whether a tool is offered by this server
+   */
+  constructor(
+    private confluenceClient: ConfluenceClient,
+    private jiraClient: JiraClient,
+    private isToolEnabled: (toolName: string) => boolean = () => true
+  ) {}
+
+  /**
+   * Lists issues and pages the configured user recently viewed or watches.
+   * A product that fails (e.g. is not configured) is skipped.
+   */
+  async list(): Promise<Resource[]> {
+    const [issues, pages] = await Promise.allSettled([
+      this.isToolEnabled(RESOURCE_TOOLS.issue) ? this.listIssues() : [],
+      this.isToolEnabled(RESOURCE_TOOLS.page) ? this.listPages() : []
+    ]);
+
+    const resources: Resource[] = [];
+    for (const result of [issues, pages]) {
+      if (result.status === 'fulfilled') {
+        resources.push(...result.value);
+      } else {
+        this.logger.warn(`Could not list resources: ${result.reason instanceof Error ? result.reason.message : result.reason}`);
+      }
+    }
+    return resources;
+  }
+
+  /**
+   * Renders a resource as Markdown.
+   */
+  async read(uri: string): Promise<string> {
+    const ref = this.resolve(uri);
+    switch (ref.type) {
+      case 'issue':
+        return this.readIssue(ref.key);
+      case 'page':
+        return this.readPage(ref.id);
+      case 'space':
+        return this.readSpace(ref.key);
+    }
+  }
+
+  /**
+   * Returns a value that changes whenever the resource changes: the issue's
+   * updated timestamp, the page version, or the latest page change in a space.
+   */
+  async getVersion(uri: string): Promise<string> {
+    const ref = this.resolve(uri);
+    switch (ref.type) {
+      case 'issue': {
+        const issue = await this.jiraClient.getIssue(ref.key, ['updated']);
+        return String(issue.fields?.updated);
+      }
+      case 'page': {
+        const page = await this.confluenceClient.getPage(ref.id, 'version,space');
+        this.confluenceClient.assertSpaceAllowed(page.space?.key, `Page ${ref.id}`);
+        return String(page.version?.number);
+      }
+      case 'space': {
+        const latest = await this.confluenceClient.search(`space = "${ref.key}" ORDER BY lastmodified DESC`, undefined, 1);
+        const id = latest.results?.[0]?.id;
+        if (!id) {
+          return '';
+        }
+        const page = await this.confluenceClient.getPage(id, 'version');
+        return `${id}@${page.version?.number}`;
+      }
+    }
+  }
+
+  /**
+   * Parses a resource URI and checks that the resource may be read. Pages
+   * are checked against CONFLUENCE_SPACES_FILTER once their space is known.
+   */
+  private resolve(uri: string): ResourceRef {
+    const ref = parseResourceUri(uri);
+
+    const toolName = RESOURCE_TOOLS[ref.type];
+    if (!this.isToolEnabled(toolName)) {
+      throw new PolicyError(`Resource ${uri} is not available: ${toolName} is disabled on this server`);
+    }
+
+    if (ref.type === 'issue') {
+      this.jiraClient.assertIssuesAllowed([ref.key]);
+    } else if (ref.type === 'space') {
+      this.confluenceClient.assertSpaceAllowed(ref.key, `Space ${ref.key}`);
+    }
+    return ref;
+  }
+
+  private async listIssues(): Promise<Resource[]> {
+    const result = await this.jiraClient.searchIssues(
+      'watcher = currentUser() OR issuekey in issueHistory() ORDER BY updated DESC',
+      ['summary', 'updated'],
+      50
+    );
+
+    return (result.issues || []).map(issue => ({
+      uri: `jira://issue/${issue.key}`,
+      name: `${issue.key}: ${issue.fields?.summary}`,
+      mimeType: MARKDOWN_MIME_TYPE
+    }));
+  }
+
+  private async listPages(): Promise<Resource[]> {
+    const result = await this.confluenceClient.search(
+      'type = page AND (watcher = currentUser() OR id in recentlyViewedContent(50)) ORDER BY lastmodified DESC',
+      undefined,
+      50
+    );
+
+    return ((result.results || []) as ConfluenceContent[]).map(page => ({
+      uri: `confluence://page/${page.id}`,
+      name: page.title,
+      mimeType: MARKDOWN_MIME_TYPE
+    }));
+  }
+
+  private async readIssue(issueKey: string): Promise<string> {
+    const issue = await this.jiraClient.getIssue(issueKey, [
+      'summary', 'issuetype', 'status', 'priority', 'assignee', 'reporter',
+      'parent', 'labels', 'created', 'updated', 'description', 'comment'
+    ]);
+    const fields = issue.fields || {};
+
+    const lines = [`# ${issue.key}: ${fields.summary}`, ''];
+    const details: Array<[string, string | undefined]> = [
+      ['Type', fields.issuetype?.name],
+      ['Status', fields.status?.name],
+      ['Priority', fields.priority?.name],
+      ['Assignee', fields.assignee?.displayName || 'Unassigned'],
+      ['Reporter', fields.reporter?.displayName],
+      ['Parent', fields.parent && `${fields.parent.key}: ${fields.parent.fields?.summary}`],
+      ['Labels', fields.labels?.length ? fields.labels.join(', ') : undefined],
+      ['Created', fields.created],
+      ['Updated', fields.updated]
+    ];
+    for (const [label, value] of details) {
+      if (value) {
+        lines.push(`- **${label}:** ${value}`);
+      }
+    }
+
+    lines.push('', '## Description', '', String(fields.description || '_No description_'));
+
+    const comments = fields.comment?.comments || [];
+    if (comments.length > 0) {
+      lines.push('', `## Comments (${fields.comment?.total ?? comments.length})`);
+      for (const comment of comments) {
+        lines.push('', `### ${comment.author?.displayName || 'Unknown'} (${comment.created})`, '', String(comment.body ?? ''));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private async readPage(pageId: string): Promise<string> {
+    const page = await this.confluenceClient.getPage(pageId, 'version,space', 'markdown');
+    this.confluenceClient.assertSpaceAllowed(page.space?.key, `Page ${pageId}`);
+
+    const lines = [`# ${page.title}`, ''];
+    if (page.space) {
+      lines.push(`- **Space:** ${page.space.name} (confluence://space/${page.space.key})`);
+    }
+    if (page.version) {
+      lines.push(`- **Version:** ${page.version.number}, ${page.version.when} by ${page.version.by?.displayName || 'unknown'}`);
+    }
+    lines.push('', page.body?.markdown?.value || '');
+
+    return lines.join('\n');
+  }
+
+  private async readSpace(spaceKey: string): Promise<string> {
+    const space = await this.confluenceClient.getSpace(spaceKey);
+    const recent = await this.confluenceClient.search(`space = "${space.key}" AND type = page ORDER BY lastmodified DESC`, undefined, 25);
+
+    const lines = [`# ${space.name} (${space.key})`, ''];
+    const description = space.description?.plain?.value;
+    if (description) {
+      lines.push(description, '');
+    }
+    if (space.homepage) {
+      lines.push(`- **Home page:** [${space.homepage.title}](confluence://page/${space.homepage.id})`, '');
+    }
+
+    lines.push('## Recently updated pages', '');
+    const pages = recent.results || [];
+    if (pages.length === 0) {
+      lines.push('_No pages_');
+    }
+    for (const page of pages) {
+      lines.push(`- [${page.title}](confluence://page/${page.id})`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+function getPollIntervalMs(): number {
+  const seconds = parseInt(process.env.RESOURCE_POLL_INTERVAL || '', 10);
+  return (Number.isNaN(seconds) || seconds <= 0 ? 60 : seconds) * 1000;
+}
+
+/**
+ * Tracks the resources a client subscribed to and polls them, sending
+ * notifications/resources/updated when a resource's version changes.
+ * Each MCP server (session) has its own instance.
+ */
+export class ResourceSubscriptions {
+  private logger = new Logger('resource-subscriptions');
+  private versions = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    private server: Server,
+    private resources: AtlassianResources,
+    private intervalMs: number = getPollIntervalMs()
+  ) {}
+
+  async subscribe(uri: string): Promise<void> {
+    // Fetching the current version also validates the URI and that the resource exists
+    const version = await this.resources.getVersion(uri);
+    this.versions.set(uri, version);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+    this.logger.debug(`Subscribed to ${uri}`);
+  }
+
+  unsubscribe(uri: string): void {
+    this.versions.delete(uri);
+    if (this.versions.size === 0) {
+      this.close();
+    }
+    this.logger.debug(`Unsubscribed from ${uri}`);
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // Skip a tick rather than overlap when Atlassian is slow
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      for (const [uri, previous] of this.versions) {
+        try {
+          const version = await this.resources.getVersion(uri);
+          if (version !== previous && this.versions.has(uri)) {
+            this.versions.set(uri, version);
+            await this.server.sendResourceUpdated({ uri });
+            this.logger.debug(`Resource updated: ${uri}`);
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.warn(`Could not poll ${uri}: ${errorMessage}`);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
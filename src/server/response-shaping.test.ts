@@ -0,0 +1,73 @@
+import { formatToolOutput, shapeToolResult } from './response-shaping.js';
+
+const issues = Array.from({ length: 100 }, (_, i) => ({ key: `PROJ-${i + 1}`, summary: `Issue number ${i + 1} with some padding text` }));
+
+describe('shapeToolResult', () => {
+  it('keeps the issue fields the caller asked for', () => {
+    const issue = { key: 'PROJ-1', fields: { summary: 'Crash', customfield_10016: 5, environment: 'Safari' } };
+    expect(shapeToolResult(issue, 'summary', ['customfield_10016'])).toEqual({
+      key: 'PROJ-1',
+      summary: 'Crash',
+      fields: { customfield_10016: 5 }
+    });
+  });
+
+  it('returns the payload unchanged in full mode', () => {
+    const issue = { key: 'PROJ-1', self: 'https://jira/rest/api/2/issue/1', fields: { summary: 'Crash' } };
+    expect(shapeToolResult(issue, 'full')).toBe(issue);
+  });
+});
+
+describe('formatToolOutput', () => {
+  it('returns results under the limit unchanged', () => {
+    expect(formatToolOutput({ key: 'PROJ-1' }, 100)).toBe(JSON.stringify({ key: 'PROJ-1' }, null, 2));
+    expect(formatToolOutput('plain text', 100)).toBe('plain text');
+  });
+
+  it('cuts plain text with a marker', () => {
+    const output = formatToolOutput('x'.repeat(1000), 400);
+    expect(output).toHaveLength(400);
+    expect(output).toMatch(/^x+\n\n\[\.\.\. output truncated to 400 characters \(MAX_OUTPUT_CHARS\)\. Ask for less/);
+  });
+
+  it('drops the items at the end of the largest array', () => {
+    const output = formatToolOutput({ total: 100, issues }, 2000);
+    expect(output.length).toBeLessThanOrEqual(2000);
+
+    const parsed = JSON.parse(output);
+    const kept = parsed.issues.length - 1;
+    expect(parsed.total).toBe(100);
+    expect(parsed.issues.slice(0, kept)).toEqual(issues.slice(0, kept));
+    expect(parsed.issues[kept]).toBe(`[... ${100 - kept} more items truncated]`);
+    expect(parsed._truncated).toContain(`issues: first ${kept} of 100 items`);
+  });
+
+  it('shortens the largest string and leaves the others alone', () => {
+    const output = formatToolOutput({ key: 'PROJ-1', summary: 'short', description: 'x'.repeat(5000) }, 1000);
+    expect(output.length).toBeLessThanOrEqual(1000);
+
+    const parsed = JSON.parse(output);
+    const [, kept] = parsed._truncated.match(/description: first (\d+) of 5000 characters/);
+    expect(parsed.summary).toBe('short');
+    expect(parsed.description).toBe(`${'x'.repeat(Number(kept))}\n[... ${5000 - Number(kept)} characters truncated]`);
+  });
+
+  it('wraps a truncated top-level array in a result', () => {
+    const parsed = JSON.parse(formatToolOutput(issues, 2000));
+    expect(parsed._truncated).toMatch(/result: first \d+ of 100 items/);
+    expect(parsed.result[0]).toEqual(issues[0]);
+  });
+
+  it('keeps one marker and the original count when an array is cut more than once', () => {
+    // The first items are far larger than the rest, so the first cut keeps too much
+    const field = 'z'.repeat(150);
+    const large = Array.from({ length: 5 }, (_, i) => ({ key: `PROJ-${i + 1}`, a: field, b: field, c: field, d: field, e: field, f: field, g: field, h: field }));
+    const small = Array.from({ length: 45 }, (_, i) => `PROJ-${i + 6}`);
+    const output = formatToolOutput({ issues: [...large, ...small] }, 4000);
+    expect(output.length).toBeLessThanOrEqual(4000);
+
+    const parsed = JSON.parse(output);
+    expect(parsed.issues).toEqual([large[0], large[1], '[... 48 more items truncated]']);
+    expect(parsed._truncated).toContain('issues: first 2 of 50 items');
+  });
+});
@@ -0,0 +1,441 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type ResponseDetail = 'summary' | 'full';
+
+// Keys that only matter to API clients, removed at every level in summary mode
+const NOISE_KEYS = new Set(['self', 'avatarUrls', 'iconUrl', 'avatarId', '_expandable', 'expand']);
+// Confluence links worth keeping: the page URL and pagination
+const KEPT_LINKS = ['webui', 'base', 'next'];
+const CONTENT_TYPES = new Set(['page', 'blogpost', 'comment', 'attachment']);
+
+// Issue fields covered by the compact projection, and the extra ones covered for single issues
+const COMPACT_ISSUE_FIELDS = new Set(['summary', 'issuetype', 'status', 'priority', 'assignee', 'resolution', 'labels', 'parent', 'updated']);
+const DETAILED_ISSUE_FIELDS = new Set([
+  'reporter', 'created', 'duedate', 'components', 'fixVersions', 'description', 'subtasks', 'issuelinks', 'comment', 'attachment'
+]);
+
+// Strings and arrays smaller than this are never shortened to fit the output limit
+const MIN_TRUNCATABLE_STRING = 200;
+const MAX_TRUNCATION_PASSES = 20;
+
+/**
+ * Returns the largest tool output, in characters, before results are
+ * truncated (MAX_OUTPUT_CHARS, default 50000).
+ */
+export function getMaxOutputChars(): number {
+  const value = parseInt(process.env.MAX_OUTPUT_CHARS || '', 10);
+  return Number.isNaN(value) || value <= 0 ? 50000 : value;
+}
+
+/**
+ * Adds the detail argument to a tool's input schema.
+ */
+export function withDetailArgument(tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        detail: {
+          type: 'string',
+          enum: ['summary', 'full'],
+          description: 'Response detail: "summary" returns compact issues and pages; "full" returns the complete Atlassian payload (default: summary)',
+          default: 'summary'
+        }
+      }
+    }
+  };
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface NamedValue {
+  name?: string;
+  value?: string;
+  key?: string;
+}
+
+/** A user as returned by Jira and Confluence */
+interface ApiUser {
+  displayName: string;
+  /** Cloud user ID */
+  accountId?: string;
+  /** Server/Data Center username */
+  name?: string;
+}
+
+/** What is left of a user in summary mode: enough to assign, mention or filter by them */
+interface CompactUser {
+  displayName: string;
+  accountId?: string;
+  name?: string;
+}
+
+interface LinkedIssue {
+  key?: string;
+  fields?: { summary?: string; status?: NamedValue };
+}
+
+interface ApiIssueFields {
+  summary?: string;
+  issuetype?: NamedValue;
+  status?: NamedValue;
+  priority?: NamedValue;
+  assignee?: ApiUser | null;
+  reporter?: ApiUser | null;
+  resolution?: NamedValue | null;
+  labels?: string[];
+  parent?: LinkedIssue;
+  updated?: string;
+  created?: string;
+  duedate?: string | null;
+  components?: NamedValue[];
+  fixVersions?: NamedValue[];
+  description?: unknown;
+  subtasks?: LinkedIssue[];
+  issuelinks?: Array<{ type?: { inward?: string; outward?: string }; inwardIssue?: LinkedIssue; outwardIssue?: LinkedIssue }>;
+  attachment?: Array<{ id?: string; filename?: string; size?: number; mimeType?: string }>;
+  comment?: { total?: number; comments?: Array<{ id?: string; author?: ApiUser; created?: string; body?: unknown }> };
+  [name: string]: unknown;
+}
+
+interface ApiIssue {
+  key: string;
+  fields: ApiIssueFields;
+}
+
+interface ApiContent {
+  id: string;
+  type: string;
+  title: string;
+  status?: string;
+  space?: { key?: string };
+  version?: { number?: number; when?: string; by?: { displayName?: string } };
+  ancestors?: Array<{ title?: string }>;
+  extensions?: { mediaType?: string; fileSize?: number };
+  body?: { markdown?: { value?: string }; storage?: { value?: string }; view?: { value?: string } };
+  _links?: { webui?: string };
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isIssue(value: JsonObject): value is JsonObject & ApiIssue {
+  return typeof value.key === 'string' && value.fields !== null && typeof value.fields === 'object';
+}
+
+function isContent(value: JsonObject): value is JsonObject & ApiContent {
+  return typeof value.id === 'string' && typeof value.title === 'string' && typeof value.type === 'string' && CONTENT_TYPES.has(value.type);
+}
+
+function isUser(value: JsonObject): value is JsonObject & ApiUser {
+  return typeof value.displayName === 'string' && ('accountId' in value || 'emailAddress' in value || 'avatarUrls' in value);
+}
+
+function compactUser(user: ApiUser | null | undefined): CompactUser | undefined {
+  if (!user) {
+    return undefined;
+  }
+  return {
+    displayName: user.displayName,
+    ...(user.accountId && { accountId: user.accountId }),
+    ...(user.name && { name: user.name })
+  };
+}
+
+/**
+ * Reduces an option, status, version or similar object to its name.
+ */
+function simplifyValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(simplifyValue);
+  }
+  if (isObject(value)) {
+    if (isUser(value)) {
+      return compactUser(value);
+    }
+    return value.name ?? value.value ?? value.key ?? stripNoise(value);
+  }
+  return value;
+}
+
+function nonEmpty<T>(values: T[] | undefined): T[] | undefined {
+  return values && values.length > 0 ? values : undefined;
+}
+
+/**
+ * Projects a Jira issue onto the fields a reader needs. Single issues
+ * (detailed) also keep the description, links, subtasks, comments and
+ * attachments. Fields the caller asked for by name are always kept.
+ */
+function compactIssue(issue: ApiIssue, detailed: boolean, requestedFields?: string[]): JsonObject {
+  const fields = issue.fields;
+  const shaped: JsonObject = {
+    key: issue.key,
+    summary: fields.summary,
+    type: fields.issuetype?.name,
+    status: fields.status?.name,
+    priority: fields.priority?.name,
+    assignee: fields.assignee === null ? 'Unassigned' : compactUser(fields.assignee),
+    resolution: fields.resolution?.name,
+    labels: nonEmpty(fields.labels),
+    parent: fields.parent && { key: fields.parent.key, summary: fields.parent.fields?.summary },
+    updated: fields.updated
+  };
+
+  if (detailed) {
+    Object.assign(shaped, {
+      reporter: compactUser(fields.reporter),
+      created: fields.created,
+      duedate: fields.duedate ?? undefined,
+      components: nonEmpty(fields.components?.map(c => c.name)),
+      fixVersions: nonEmpty(fields.fixVersions?.map(v => v.name)),
+      description: fields.description ?? undefined,
+      subtasks: nonEmpty(fields.subtasks?.map(subtask => ({
+        key: subtask.key,
+        summary: subtask.fields?.summary,
+        status: subtask.fields?.status?.name
+      }))),
+      links: nonEmpty(fields.issuelinks?.map(link => {
+        const other = link.outwardIssue || link.inwardIssue;
+        return {
+          type: link.outwardIssue ? link.type?.outward : link.type?.inward,
+          key: other?.key,
+          summary: other?.fields?.summary,
+          status: other?.fields?.status?.name
+        };
+      })),
+      attachments: nonEmpty(fields.attachment?.map(attachment => ({
+        id: attachment.id,
+        filename: attachment.filename,
+        size: attachment.size,
+        mimeType: attachment.mimeType
+      }))),
+      comments: fields.comment && {
+        total: fields.comment.total,
+        items: fields.comment.comments?.map(comment => ({
+          id: comment.id,
+          author: compactUser(comment.author),
+          created: comment.created,
+          body: comment.body
+        }))
+      }
+    });
+  }
+
+  const extra: JsonObject = {};
+  for (const name of requestedFields || []) {
+    const covered = COMPACT_ISSUE_FIELDS.has(name) || (detailed && DETAILED_ISSUE_FIELDS.has(name));
+    if (!covered && fields[name] !== undefined && fields[name] !== null) {
+      extra[name] = simplifyValue(fields[name]);
+    }
+  }
+  if (Object.keys(extra).length > 0) {
+    shaped.fields = extra;
+  }
+
+  return shaped;
+}
+
+function compactContent(content: ApiContent): JsonObject {
+  const body = content.body?.markdown?.value ?? content.body?.storage?.value ?? content.body?.view?.value;
+  return {
+    id: content.id,
+    type: content.type,
+    title: content.title,
+    status: content.status !== 'current' ? content.status : undefined,
+    space: content.space?.key,
+    version: content.version?.number,
+    updated: content.version?.when,
+    updatedBy: content.version?.by?.displayName,
+    ancestors: nonEmpty(content.ancestors?.map(ancestor => ancestor.title)),
+    mediaType: content.extensions?.mediaType,
+    fileSize: content.extensions?.fileSize,
+    url: content._links?.webui,
+    body
+  };
+}
+
+/**
+ * Removes API-only keys (self links, avatars, expansion hints) at every level.
+ */
+function stripNoise(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripNoise);
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const stripped: JsonObject = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (NOISE_KEYS.has(key)) {
+      continue;
+    }
+    if (key === '_links' && isObject(child)) {
+      const links = Object.fromEntries(Object.entries(child).filter(([name]) => KEPT_LINKS.includes(name)));
+      if (Object.keys(links).length > 0) {
+        stripped._links = links;
+      }
+      continue;
+    }
+    stripped[key] = stripNoise(child);
+  }
+  return stripped;
+}
+
+function shapeValue(value: unknown, requestedFields: string[] | undefined, topLevel: boolean): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => shapeValue(item, requestedFields, false));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  if (isIssue(value)) {
+    return compactIssue(value, topLevel, requestedFields);
+  }
+  if (isContent(value)) {
+    return compactContent(value);
+  }
+  if (isUser(value)) {
+    return compactUser(value);
+  }
+
+  const shaped: JsonObject = {};
+  for (const [key, child] of Object.entries(value)) {
+    shaped[key] = shapeValue(child, requestedFields, false);
+  }
+  return shaped;
+}
+
+/**
+ * Shapes a tool result for the model. In summary mode, noise is stripped,
+ * Jira issues and Confluence content are projected onto a lean schema and
+ * users are reduced to their name and ID; full mode returns the payload
+ * unchanged.
+ * @param requestedFields - Issue fields the caller asked for, kept in summary mode
+ */
+export function shapeToolResult(result: unknown, detail: ResponseDetail = 'summary', requestedFields?: string[]): unknown {
+  return detail === 'full' ? result : shapeValue(stripNoise(result), requestedFields, true);
+}
+
+function isMarker(item: unknown): boolean {
+  return typeof item === 'string' && item.startsWith('[... ');
+}
+
+// An object or array whose entries can be replaced in place
+type Container = Record<string | number, unknown>;
+
+interface Shrinkable {
+  parent: Container;
+  key: string | number;
+  path: string;
+  size: number;
+}
+
+/**
+ * Finds the largest array (with more than one item) or long string in a
+ * value, measured by serialized size.
+ */
+function findLargest(value: unknown, path: string, parent: Container, key: string | number, best?: Shrinkable): Shrinkable | undefined {
+  if (typeof value === 'string') {
+    const size = value.length;
+    return size >= MIN_TRUNCATABLE_STRING && (!best || size > best.size) ? { parent, key, path, size } : best;
+  }
+  if (!value || typeof value !== 'object') {
+    return best;
+  }
+
+  if (Array.isArray(value) && value.filter(item => !isMarker(item)).length > 1) {
+    const size = JSON.stringify(value, null, 2).length;
+    if (!best || size > best.size) {
+      best = { parent, key, path, size };
+    }
+  }
+  for (const [childKey, child] of Object.entries(value)) {
+    const childPath = Array.isArray(value) ? `${path}[${childKey}]` : path ? `${path}.${childKey}` : childKey;
+    best = findLargest(child, childPath, value as Container, Array.isArray(value) ? Number(childKey) : childKey, best);
+  }
+  return best;
+}
+
+/**
+ * Serializes a shaped result, truncating it to maxChars. The largest arrays
+ * and strings are cut first, each with a marker saying how much was left out,
+ * and a note with a continuation hint is added to the result.
+ */
+export function formatToolOutput(value: unknown, maxChars: number = getMaxOutputChars()): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const hint = 'Ask for less (fewer fields, a smaller maxResults or limit, detail "summary") or continue from the last item shown with startAt, start or cursor.';
+  const cut = (output: string) => {
+    const marker = `\n\n[... output truncated to ${maxChars} characters (MAX_OUTPUT_CHARS). ${hint}]`;
+    return `${output.slice(0, Math.max(0, maxChars - marker.length))}${marker}`;
+  };
+
+  if (typeof value === 'string') {
+    return cut(text);
+  }
+
+  // Work on a copy inside a wrapper so the top-level value can be shrunk like any other
+  const root: Container = { value: JSON.parse(text) };
+  // Path -> what is left of it; the original size is kept when a value is cut more than once
+  const notes = new Map<string, { kept: number; total: number; unit: string }>();
+
+  // The result as returned, with a note saying what was cut
+  const annotate = (): JsonObject => {
+    const cuts = [...notes].map(([path, { kept, total, unit }]) => `${path}: first ${kept} of ${total} ${unit}`);
+    const note = `Output exceeded ${maxChars} characters (MAX_OUTPUT_CHARS) and was truncated: ${cuts.join('; ')}. ${hint}`;
+    return isObject(root.value)
+      ? { _truncated: note, ...root.value }
+      : { _truncated: note, result: root.value };
+  };
+  // Sizes include the note, so that adding it cannot push the output back over the limit
+  const measure = () => JSON.stringify(annotate(), null, 2).length;
+
+  for (let pass = 0; pass < MAX_TRUNCATION_PASSES; pass++) {
+    const total = measure();
+    if (total <= maxChars) {
+      break;
+    }
+
+    const largest = findLargest(root.value, '', root, 'value');
+    if (!largest) {
+      break;
+    }
+
+    // Measure the rest of the output without this value, then shrink the value to what is left
+    // of the limit, keeping some room for the markers and a longer note
+    const target = largest.parent[largest.key];
+    largest.parent[largest.key] = typeof target === 'string' ? '' : [];
+    const rest = measure();
+    largest.parent[largest.key] = target;
+    const ratio = Math.max(0, (maxChars * 0.9 - rest) / (total - rest));
+
+    if (typeof target === 'string') {
+      const path = largest.path || 'result';
+      // A string cut before is shortened from the text it kept, so the old marker is dropped
+      const previous = notes.get(path);
+      const text = previous ? target.slice(0, previous.kept) : target;
+      const keep = Math.floor(text.length * Math.min(ratio, 0.9));
+      const total = previous?.total ?? target.length;
+      largest.parent[largest.key] = `${text.slice(0, keep)}\n[... ${total - keep} characters truncated]`;
+      notes.set(path, { kept: keep, total, unit: 'characters' });
+    } else {
+      const items = (target as unknown[]).filter(item => !isMarker(item));
+      const keep = Math.max(1, Math.min(items.length - 1, Math.floor(items.length * ratio)));
+      const path = largest.path || 'result';
+      const total = notes.get(path)?.total ?? items.length;
+      largest.parent[largest.key] = [...items.slice(0, keep), `[... ${total - keep} more items truncated]`];
+      notes.set(path, { kept: keep, total, unit: 'items' });
+    }
+  }
+
+  const output = JSON.stringify(annotate(), null, 2);
+  return output.length <= maxChars ? output : cut(output);
+}
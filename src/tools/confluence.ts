@@ -1,18 +1,20 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ConfluenceClient } from '../clients/confluence.js';
+import { structuredQuerySchema } from './query.js';
 
 export function createConfluenceTools(client: ConfluenceClient): Tool[] {
   return [
     {
       name: 'confluence_search',
-      description: 'Search for content in Confluence using CQL (Confluence Query Language)',
+      description: 'Search for content in Confluence using CQL (Confluence Query Language) or a structured query',
       inputSchema: {
         type: 'object',
         properties: {
           query: {
             type: 'string',
-            description: 'CQL query to search for content'
+            description: 'CQL query to search for content (or use structuredQuery)'
           },
+          structuredQuery: structuredQuerySchema('cql'),
           spaceKey: {
             type: 'string',
             description: 'Optional space key to limit search to a specific space'
@@ -22,8 +24,7 @@ export function createConfluenceTools(client: ConfluenceClient): Tool[] {
             description: 'Maximum number of results to return (default: 10)',
             default: 10
           }
-        },
-        required: ['query']
+        }
       }
     },
     {
@@ -39,6 +40,12 @@ export function createConfluenceTools(client: ConfluenceClient): Tool[] {
           expand: {
             type: 'string',
             description: 'Comma-separated list of properties to expand (e.g., "body.storage,version")'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'storage'],
+            description: 'Format of the returned page body: "storage" (raw Confluence XHTML) or "markdown" (rendered from body.storage) (default: storage)',
+            default: 'storage'
           }
         },
         required: ['pageId']
@@ -60,7 +67,13 @@ export function createConfluenceTools(client: ConfluenceClient): Tool[] {
           },
           content: {
             type: 'string',
-            description: 'The content of the page in Confluence storage format'
+            description: 'The content of the page, in the format given by contentFormat'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'storage'],
+            description: 'Format of the content: "markdown" or "storage" (Confluence storage format XHTML) (default: storage)',
+            default: 'storage'
           },
           parentId: {
             type: 'string',
@@ -72,7 +85,7 @@ export function createConfluenceTools(client: ConfluenceClient): Tool[] {
     },
     {
       name: 'confluence_update_page',
-      description: 'Update an existing Confluence page',
+      description: 'Update an existing Confluence page, either replacing its content or applying partial edits. Changes made by others since the given version are merged rather than overwritten',
       inputSchema: {
         type: 'object',
         properties: {
@@ -82,18 +95,66 @@ export function createConfluenceTools(client: ConfluenceClient): Tool[] {
           },
           title: {
             type: 'string',
-            description: 'The new title of the page'
+            description: 'The new title of the page (default: keep the current title)'
           },
           content: {
             type: 'string',
-            description: 'The new content of the page in Confluence storage format'
+            description: 'The new content of the page, in the format given by contentFormat. Omit to keep the content or when using edits'
+          },
+          edits: {
+            type: 'array',
+            description: 'Partial edits applied in order to the current content, instead of passing the full content',
+            items: {
+              type: 'object',
+              properties: {
+                type: {
+                  type: 'string',
+                  enum: ['append', 'replace_section', 'find_replace'],
+                  description: '"append" adds content at the end of the page or of the section under heading; "replace_section" replaces the content under heading; "find_replace" replaces text'
+                },
+                content: {
+                  type: 'string',
+                  description: 'Content to add or put in the section, in the format given by contentFormat (append, replace_section)'
+                },
+                heading: {
+                  type: 'string',
+                  description: 'Text of the heading whose section is edited (required for replace_section, optional for append)'
+                },
+                find: {
+                  type: 'string',
+                  description: 'Text to find (find_replace)'
+                },
+                replace: {
+                  type: 'string',
+                  description: 'Replacement text (find_replace)'
+                },
+                all: {
+                  type: 'boolean',
+                  description: 'Replace every occurrence; otherwise the text must occur exactly once (find_replace, default: false)',
+                  default: false
+                }
+              },
+              required: ['type']
+            }
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'storage'],
+            description: 'Format of the content: "markdown" or "storage" (Confluence storage format XHTML) (default: storage)',
+            default: 'storage'
           },
           version: {
             type: 'number',
-            description: 'The current version number of the page'
+            description: 'The version of the page your content is based on, as returned by confluence_get_page (default: the current version)'
+          },
+          onConflict: {
+            type: 'string',
+            enum: ['merge', 'fail', 'overwrite'],
+            description: 'What to do if the page changed since version: "merge" the changes (fails if they overlap), "fail", or "overwrite" them (default: merge)',
+            default: 'merge'
           }
         },
-        required: ['pageId', 'title', 'content', 'version']
+        required: ['pageId']
       }
     },
     {
@@ -114,6 +175,441 @@ export function createConfluenceTools(client: ConfluenceClient): Tool[] {
           }
         }
       }
+    },
+    {
+      name: 'confluence_get_page_versions',
+      description: 'List the versions of a Confluence page, newest first, with author, date and version message',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of versions to return (default: 25)',
+            default: 25
+          },
+          start: {
+            type: 'number',
+            description: 'Index of the first version to return (default: 0)',
+            default: 0
+          }
+        },
+        required: ['pageId']
+      }
+    },
+    {
+      name: 'confluence_get_page_version',
+      description: 'Get a historical version of a Confluence page, including its body',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          version: {
+            type: 'number',
+            description: 'The version number'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'storage'],
+            description: 'Format of the returned body: "markdown" or "storage" (default: markdown)',
+            default: 'markdown'
+          }
+        },
+        required: ['pageId', 'version']
+      }
+    },
+    {
+      name: 'confluence_diff_page_versions',
+      description: 'Show what changed between two versions of a Confluence page, as a unified diff of the pages rendered as Markdown',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          fromVersion: {
+            type: 'number',
+            description: 'The older version number'
+          },
+          toVersion: {
+            type: 'number',
+            description: 'The newer version number (default: the current version)'
+          }
+        },
+        required: ['pageId', 'fromVersion']
+      }
+    },
+    {
+      name: 'confluence_restore_page_version',
+      description: 'Restore a previous version of a Confluence page by saving its title and content as a new version',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          version: {
+            type: 'number',
+            description: 'The version number to restore'
+          },
+          message: {
+            type: 'string',
+            description: 'Version message (default: "Restored version N")'
+          }
+        },
+        required: ['pageId', 'version']
+      }
+    },
+    {
+      name: 'confluence_get_page_tree',
+      description: 'Get the page hierarchy of a Confluence space, or of the pages below one page, down to a depth limit',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          spaceKey: {
+            type: 'string',
+            description: 'The key of the space'
+          },
+          rootPageId: {
+            type: 'string',
+            description: 'Optional page whose descendants to list instead of the whole space'
+          },
+          depth: {
+            type: 'number',
+            description: 'How many levels to load, 1-10 (default: 3). Pages at the last level report hasChildren without their children',
+            default: 3
+          }
+        },
+        required: ['spaceKey']
+      }
+    },
+    {
+      name: 'confluence_get_page_ancestors',
+      description: 'Get the ancestors of a Confluence page, from the top of the space down, as a breadcrumb',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          }
+        },
+        required: ['pageId']
+      }
+    },
+    {
+      name: 'confluence_move_page',
+      description: 'Move a Confluence page and its descendants under a new parent or next to another page',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page to move'
+          },
+          targetId: {
+            type: 'string',
+            description: 'The ID of the page to move the page relative to'
+          },
+          position: {
+            type: 'string',
+            enum: ['append', 'before', 'after'],
+            description: '"append" makes the page the last child of the target; "before" and "after" make it a sibling of the target (Cloud only) (default: append)',
+            default: 'append'
+          }
+        },
+        required: ['pageId', 'targetId']
+      }
+    },
+    {
+      name: 'confluence_copy_page',
+      description: 'Copy a Confluence page, optionally with its descendants. Bodies and labels are copied; attachments are not',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page to copy'
+          },
+          parentId: {
+            type: 'string',
+            description: 'The ID of the page to copy under (default: the parent of the source page)'
+          },
+          spaceKey: {
+            type: 'string',
+            description: 'Space to copy to, at its top level, when parentId is not given'
+          },
+          title: {
+            type: 'string',
+            description: 'Title of the copy (default: titlePrefix followed by the source title)'
+          },
+          titlePrefix: {
+            type: 'string',
+            description: 'Prefix for the titles of the copied pages (default: "Copy of " within the same space, none otherwise)'
+          },
+          includeDescendants: {
+            type: 'boolean',
+            description: 'Also copy all pages below the page (default: false)',
+            default: false
+          }
+        },
+        required: ['pageId']
+      }
+    },
+    {
+      name: 'confluence_get_comments',
+      description: 'List the footer or inline comments of a Confluence page as threads, with replies nested under the comment they answer',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          location: {
+            type: 'string',
+            enum: ['footer', 'inline'],
+            description: 'Which comments to list: "footer" (at the bottom of the page) or "inline" (attached to page text, with the selected text and resolution status) (default: footer)',
+            default: 'footer'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'storage'],
+            description: 'Format of the comment bodies: "markdown" or "storage" (default: markdown)',
+            default: 'markdown'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of comments, including replies, to return (default: 25)',
+            default: 25
+          },
+          start: {
+            type: 'number',
+            description: 'Index of the first comment to return (default: 0)',
+            default: 0
+          }
+        },
+        required: ['pageId']
+      }
+    },
+    {
+      name: 'confluence_add_comment',
+      description: 'Add a footer comment to a Confluence page, or reply to an existing comment',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page to comment on'
+          },
+          content: {
+            type: 'string',
+            description: 'The content of the comment, in the format given by contentFormat'
+          },
+          parentCommentId: {
+            type: 'string',
+            description: 'Optional ID of the comment to reply to'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'storage'],
+            description: 'Format of the content: "markdown" or "storage" (Confluence storage format XHTML) (default: storage)',
+            default: 'storage'
+          }
+        },
+        required: ['pageId', 'content']
+      }
+    },
+    {
+      name: 'confluence_resolve_inline_comment',
+      description: 'Resolve or reopen an inline comment on a Confluence page (Cloud only)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          commentId: {
+            type: 'string',
+            description: 'The ID of the inline comment (from confluence_get_comments)'
+          },
+          resolved: {
+            type: 'boolean',
+            description: 'true to resolve the comment, false to reopen it (default: true)',
+            default: true
+          }
+        },
+        required: ['commentId']
+      }
+    },
+    {
+      name: 'confluence_get_labels',
+      description: 'Get the labels of a Confluence page',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          }
+        },
+        required: ['pageId']
+      }
+    },
+    {
+      name: 'confluence_add_labels',
+      description: 'Add labels to a Confluence page',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          labels: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Labels to add (lowercase, no spaces)'
+          }
+        },
+        required: ['pageId', 'labels']
+      }
+    },
+    {
+      name: 'confluence_remove_labels',
+      description: 'Remove labels from a Confluence page',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          labels: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Labels to remove'
+          }
+        },
+        required: ['pageId', 'labels']
+      }
+    },
+    {
+      name: 'confluence_search_by_labels',
+      description: 'Find Confluence content by label, most recently modified first. Respects spaceKey and the configured spaces filter like confluence_search',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          labels: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Labels to search for'
+          },
+          match: {
+            type: 'string',
+            enum: ['all', 'any'],
+            description: 'Whether content must have all of the labels or any of them (default: all)',
+            default: 'all'
+          },
+          spaceKey: {
+            type: 'string',
+            description: 'Optional space key to limit search'
+          },
+          type: {
+            type: 'string',
+            description: 'Optional content type, e.g. page or blogpost'
+          },
+          query: {
+            type: 'string',
+            description: 'Optional extra CQL condition, e.g. lastmodified > now("-30d") (without ORDER BY)'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of results (default: 10)',
+            default: 10
+          }
+        },
+        required: ['labels']
+      }
+    },
+    {
+      name: 'confluence_get_attachments',
+      description: 'List the attachments of a Confluence page',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of attachments to return (default: 25)',
+            default: 25
+          },
+          start: {
+            type: 'number',
+            description: 'Index of the first attachment to return (default: 0)',
+            default: 0
+          }
+        },
+        required: ['pageId']
+      }
+    },
+    {
+      name: 'confluence_download_attachment',
+      description: 'Download a Confluence attachment. The file is returned as an embedded resource (text, or a base64 blob for binary files)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          attachmentId: {
+            type: 'string',
+            description: 'The ID of the attachment (from confluence_get_attachments, e.g. att12345)'
+          }
+        },
+        required: ['attachmentId']
+      }
+    },
+    {
+      name: 'confluence_upload_attachment',
+      description: 'Attach a file to a Confluence page. Uploading a file with an existing name adds a new version of that attachment',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: {
+            type: 'string',
+            description: 'The ID of the page'
+          },
+          filename: {
+            type: 'string',
+            description: 'Name of the file to create (e.g., report.pdf)'
+          },
+          content: {
+            type: 'string',
+            description: 'File content, base64-encoded unless encoding is utf8'
+          },
+          encoding: {
+            type: 'string',
+            enum: ['base64', 'utf8'],
+            description: 'Encoding of content (default: base64)',
+            default: 'base64'
+          },
+          contentType: {
+            type: 'string',
+            description: 'MIME type of the file (default: application/octet-stream)'
+          },
+          comment: {
+            type: 'string',
+            description: 'Optional comment describing the attachment version'
+          }
+        },
+        required: ['pageId', 'filename', 'content']
+      }
     }
   ];
-} 
\ No newline at end of file
+}
@@ -1,18 +1,20 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { JiraClient } from '../clients/jira.js';
+import { structuredQuerySchema } from './query.js';
 
 export function createJiraTools(client: JiraClient): Tool[] {
   return [
     {
       name: 'jira_search_issues',
-      description: 'Search for issues in Jira using JQL (Jira Query Language)',
+      description: 'Search for issues in Jira using JQL (Jira Query Language) or a structured query. The query is validated before it runs. When more results are available the response contains nextCursor; pass it back as cursor to continue',
       inputSchema: {
         type: 'object',
         properties: {
           jql: {
             type: 'string',
-            description: 'JQL query to search for issues'
+            description: 'JQL query to search for issues (or use structuredQuery)'
           },
+          structuredQuery: structuredQuerySchema('jql'),
           fields: {
             type: 'array',
             items: { type: 'string' },
@@ -20,11 +22,35 @@ export function createJiraTools(client: JiraClient): Tool[] {
           },
           maxResults: {
             type: 'number',
-            description: 'Maximum number of results to return (default: 50)',
+            description: 'Maximum number of results to return, or the page size when fetchAll is set (default: 50)',
             default: 50
+          },
+          startAt: {
+            type: 'number',
+            description: 'Index of the first result to return (default: 0). Server/Data Center only; on Cloud, page with cursor. Ignored when cursor is given',
+            default: 0
+          },
+          cursor: {
+            type: 'string',
+            description: 'Opaque cursor (nextCursor from a previous search with the same JQL) to continue from'
+          },
+          fetchAll: {
+            type: 'boolean',
+            description: 'Page through results until limit issues are collected (default: false)',
+            default: false
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of issues to collect when fetchAll is set (default: 1000)',
+            default: 1000
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'wiki'],
+            description: 'Format of descriptions and comments in the response: "markdown" or "wiki" (Jira wiki markup) (default: markdown)',
+            default: 'markdown'
           }
-        },
-        required: ['jql']
+        }
       }
     },
     {
@@ -46,6 +72,12 @@ export function createJiraTools(client: JiraClient): Tool[] {
             type: 'array',
             items: { type: 'string' },
             description: 'List of properties to expand (e.g., changelog, comments)'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'wiki'],
+            description: 'Format of descriptions and comments in the response: "markdown" or "wiki" (Jira wiki markup) (default: markdown)',
+            default: 'markdown'
           }
         },
         required: ['issueKey']
@@ -71,11 +103,25 @@ export function createJiraTools(client: JiraClient): Tool[] {
           },
           description: {
             type: 'string',
-            description: 'The description of the issue'
+            description: 'The description of the issue, in the format given by contentFormat'
           },
           priority: {
             type: 'string',
             description: 'The priority of the issue (e.g., High, Medium, Low)'
+          },
+          parentKey: {
+            type: 'string',
+            description: 'Optional key of the parent issue or epic (e.g., PROJ-100)'
+          },
+          fields: {
+            type: 'object',
+            description: 'Additional fields keyed by field ID or name (e.g., {"Story Points": 5, "Team": "Platform", "labels": ["backend"]}). Plain values are converted to the shape each field expects'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'wiki'],
+            description: 'Format of the description and other text fields: "markdown" (converted to ADF on Cloud, wiki markup on Server/Data Center; mention users with [@Name](mention:<account ID or username>)) or "wiki" (Jira wiki markup, sent as is) (default: markdown)',
+            default: 'markdown'
           }
         },
         required: ['projectKey', 'issueType', 'summary']
@@ -93,7 +139,13 @@ export function createJiraTools(client: JiraClient): Tool[] {
           },
           fields: {
             type: 'object',
-            description: 'Object containing the fields to update'
+            description: 'Fields to update, keyed by field ID or name (e.g., {"Story Points": 8, "assignee": "<account ID or username>"}). Plain values are converted to the shape each field expects'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'wiki'],
+            description: 'Format of the description and other text fields: "markdown" (converted to ADF on Cloud, wiki markup on Server/Data Center; mention users with [@Name](mention:<account ID or username>)) or "wiki" (Jira wiki markup, sent as is) (default: markdown)',
+            default: 'markdown'
           }
         },
         required: ['issueKey', 'fields']
@@ -111,12 +163,626 @@ export function createJiraTools(client: JiraClient): Tool[] {
           },
           body: {
             type: 'string',
-            description: 'The content of the comment'
+            description: 'The content of the comment, in the format given by contentFormat'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'wiki'],
+            description: 'Format of the comment: "markdown" (converted to ADF on Cloud, wiki markup on Server/Data Center; mention users with [@Name](mention:<account ID or username>)) or "wiki" (Jira wiki markup, sent as is) (default: markdown)',
+            default: 'markdown'
           }
         },
         required: ['issueKey', 'body']
       }
     },
+    {
+      name: 'jira_get_transitions',
+      description: 'Get the workflow transitions currently available for a Jira issue, including the fields each transition screen accepts',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the issue (e.g., PROJ-123)'
+          }
+        },
+        required: ['issueKey']
+      }
+    },
+    {
+      name: 'jira_transition_issue',
+      description: 'Move a Jira issue through its workflow (change its status) using a transition name or ID',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the issue to transition (e.g., PROJ-123)'
+          },
+          transition: {
+            type: 'string',
+            description: 'Transition ID or name (e.g., "Start Progress"), or the name of the target status (e.g., "Done")'
+          },
+          resolution: {
+            type: 'string',
+            description: 'Resolution to set on the transition screen (e.g., Done, Won\'t Do)'
+          },
+          comment: {
+            type: 'string',
+            description: 'Comment to add as part of the transition, in the format given by contentFormat'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'wiki'],
+            description: 'Format of the comment: "markdown" (converted to wiki markup) or "wiki" (Jira wiki markup, sent as is) (default: markdown)',
+            default: 'markdown'
+          },
+          assignee: {
+            type: 'string',
+            description: 'Assignee to set: account ID on Jira Cloud, username on Server/Data Center'
+          },
+          fields: {
+            type: 'object',
+            description: 'Other fields to set on the transition screen'
+          }
+        },
+        required: ['issueKey', 'transition']
+      }
+    },
+    {
+      name: 'jira_get_link_types',
+      description: 'Get the issue link types available in Jira (e.g., Blocks, Relates, Duplicate) with their outward and inward descriptions',
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      }
+    },
+    {
+      name: 'jira_create_issue_link',
+      description: 'Link two Jira issues. The link reads "issueKey <linkType> targetIssueKey", e.g. PROJ-1 blocks PROJ-2',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the source issue (e.g., PROJ-1)'
+          },
+          linkType: {
+            type: 'string',
+            description: 'Link type name (e.g., Blocks) or its outward/inward description (e.g., "blocks", "is blocked by")'
+          },
+          targetIssueKey: {
+            type: 'string',
+            description: 'The key of the target issue (e.g., PROJ-2)'
+          },
+          comment: {
+            type: 'string',
+            description: 'Optional comment to add to the source issue'
+          }
+        },
+        required: ['issueKey', 'linkType', 'targetIssueKey']
+      }
+    },
+    {
+      name: 'jira_delete_issue_link',
+      description: 'Delete an issue link by ID (link IDs are listed in the issuelinks field of an issue)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          linkId: {
+            type: 'string',
+            description: 'The ID of the issue link to delete'
+          }
+        },
+        required: ['linkId']
+      }
+    },
+    {
+      name: 'jira_create_subtask',
+      description: 'Create a sub-task under an existing Jira issue',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          parentKey: {
+            type: 'string',
+            description: 'The key of the parent issue (e.g., PROJ-123)'
+          },
+          summary: {
+            type: 'string',
+            description: 'The summary/title of the sub-task'
+          },
+          description: {
+            type: 'string',
+            description: 'The description of the sub-task'
+          },
+          priority: {
+            type: 'string',
+            description: 'The priority of the sub-task (e.g., High, Medium, Low)'
+          },
+          issueType: {
+            type: 'string',
+            description: 'Sub-task issue type name (default: the project\'s sub-task type)'
+          },
+          fields: {
+            type: 'object',
+            description: 'Additional fields keyed by field ID or name (e.g., {"Story Points": 2, "labels": ["backend"]}). Plain values are converted to the shape each field expects'
+          },
+          contentFormat: {
+            type: 'string',
+            enum: ['markdown', 'wiki'],
+            description: 'Format of the description and other text fields: "markdown" (converted to ADF on Cloud, wiki markup on Server/Data Center; mention users with [@Name](mention:<account ID or username>)) or "wiki" (Jira wiki markup, sent as is) (default: markdown)',
+            default: 'markdown'
+          }
+        },
+        required: ['parentKey', 'summary']
+      }
+    },
+    {
+      name: 'jira_set_parent',
+      description: 'Assign Jira issues to an epic or parent issue, or remove them from their current one. Works for company-managed and team-managed projects',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKeys: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Keys of the issues to move (e.g., ["PROJ-2", "PROJ-3"])'
+          },
+          parentKey: {
+            type: 'string',
+            description: 'Key of the epic or parent issue. Omit to remove the issues from their current epic/parent'
+          }
+        },
+        required: ['issueKeys']
+      }
+    },
+    {
+      name: 'jira_get_fields',
+      description: 'List Jira system and custom fields with their IDs and types. Use it to find the ID behind a field name such as "Story Points"',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          search: {
+            type: 'string',
+            description: 'Optional case-insensitive text to match against field names and IDs'
+          }
+        }
+      }
+    },
+    {
+      name: 'jira_get_create_meta',
+      description: 'Get what can be set when creating an issue: the issue types of a project, or the fields of one issue type with required flags and allowed values',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          projectKey: {
+            type: 'string',
+            description: 'The key of the project'
+          },
+          issueType: {
+            type: 'string',
+            description: 'Issue type name or ID. Omit to list the available issue types'
+          }
+        },
+        required: ['projectKey']
+      }
+    },
+    {
+      name: 'jira_get_attachments',
+      description: 'List the attachments of a Jira issue',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the issue (e.g., PROJ-123)'
+          }
+        },
+        required: ['issueKey']
+      }
+    },
+    {
+      name: 'jira_download_attachment',
+      description: 'Download a Jira attachment. The file is returned as an embedded resource (text, or a base64 blob for binary files)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          attachmentId: {
+            type: 'string',
+            description: 'The ID of the attachment (from jira_get_attachments)'
+          }
+        },
+        required: ['attachmentId']
+      }
+    },
+    {
+      name: 'jira_upload_attachment',
+      description: 'Attach a file to a Jira issue',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the issue (e.g., PROJ-123)'
+          },
+          filename: {
+            type: 'string',
+            description: 'Name of the file to create (e.g., report.pdf)'
+          },
+          content: {
+            type: 'string',
+            description: 'File content, base64-encoded unless encoding is utf8'
+          },
+          encoding: {
+            type: 'string',
+            enum: ['base64', 'utf8'],
+            description: 'Encoding of content (default: base64)',
+            default: 'base64'
+          },
+          contentType: {
+            type: 'string',
+            description: 'MIME type of the file (default: application/octet-stream)'
+          }
+        },
+        required: ['issueKey', 'filename', 'content']
+      }
+    },
+    {
+      name: 'jira_get_worklogs',
+      description: 'Get the worklogs (time tracking entries) of a Jira issue',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the issue (e.g., PROJ-123)'
+          },
+          startAt: {
+            type: 'number',
+            description: 'Index of the first worklog to return (default: 0)',
+            default: 0
+          },
+          maxResults: {
+            type: 'number',
+            description: 'Maximum number of worklogs to return (default: 100)',
+            default: 100
+          }
+        },
+        required: ['issueKey']
+      }
+    },
+    {
+      name: 'jira_add_worklog',
+      description: 'Log time spent on a Jira issue',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the issue (e.g., PROJ-123)'
+          },
+          timeSpent: {
+            type: 'string',
+            description: 'Time spent in Jira duration syntax (e.g., 30m, 1h 30m, 2d)'
+          },
+          started: {
+            type: 'string',
+            description: 'When the work started, ISO 8601 (default: now)'
+          },
+          comment: {
+            type: 'string',
+            description: 'Optional description of the work'
+          },
+          adjustEstimate: {
+            type: 'string',
+            enum: ['auto', 'leave', 'new', 'manual'],
+            description: 'How to change the remaining estimate: auto (reduce by timeSpent, default), leave, new (set to newEstimate) or manual (reduce by reduceBy)'
+          },
+          newEstimate: {
+            type: 'string',
+            description: 'Remaining estimate to set when adjustEstimate is new (e.g., 2d)'
+          },
+          reduceBy: {
+            type: 'string',
+            description: 'Amount to reduce the remaining estimate by when adjustEstimate is manual (e.g., 1h)'
+          }
+        },
+        required: ['issueKey', 'timeSpent']
+      }
+    },
+    {
+      name: 'jira_update_worklog',
+      description: 'Update a worklog on a Jira issue',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the issue (e.g., PROJ-123)'
+          },
+          worklogId: {
+            type: 'string',
+            description: 'The ID of the worklog'
+          },
+          timeSpent: {
+            type: 'string',
+            description: 'New time spent in Jira duration syntax (e.g., 2h)'
+          },
+          started: {
+            type: 'string',
+            description: 'New start time, ISO 8601'
+          },
+          comment: {
+            type: 'string',
+            description: 'New description of the work'
+          },
+          adjustEstimate: {
+            type: 'string',
+            enum: ['auto', 'leave', 'new'],
+            description: 'How to change the remaining estimate: auto (default), leave or new (set to newEstimate)'
+          },
+          newEstimate: {
+            type: 'string',
+            description: 'Remaining estimate to set when adjustEstimate is new (e.g., 2d)'
+          }
+        },
+        required: ['issueKey', 'worklogId']
+      }
+    },
+    {
+      name: 'jira_delete_worklog',
+      description: 'Delete a worklog from a Jira issue',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKey: {
+            type: 'string',
+            description: 'The key of the issue (e.g., PROJ-123)'
+          },
+          worklogId: {
+            type: 'string',
+            description: 'The ID of the worklog'
+          },
+          adjustEstimate: {
+            type: 'string',
+            enum: ['auto', 'leave', 'new', 'manual'],
+            description: 'How to change the remaining estimate: auto (increase by the deleted time, default), leave, new (set to newEstimate) or manual (increase by increaseBy)'
+          },
+          newEstimate: {
+            type: 'string',
+            description: 'Remaining estimate to set when adjustEstimate is new (e.g., 2d)'
+          },
+          increaseBy: {
+            type: 'string',
+            description: 'Amount to increase the remaining estimate by when adjustEstimate is manual (e.g., 1h)'
+          }
+        },
+        required: ['issueKey', 'worklogId']
+      }
+    },
+    {
+      name: 'jira_get_worklog_report',
+      description: 'Summarise the time a user logged in a date range, per issue and per day',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          startDate: {
+            type: 'string',
+            description: 'First day of the range (YYYY-MM-DD)'
+          },
+          endDate: {
+            type: 'string',
+            description: 'Last day of the range, inclusive (YYYY-MM-DD)'
+          },
+          author: {
+            type: 'string',
+            description: 'Account ID on Jira Cloud, username on Server/Data Center (default: the configured user)'
+          },
+          jql: {
+            type: 'string',
+            description: 'Optional JQL to narrow the issues (e.g., project = PROJ)'
+          }
+        },
+        required: ['startDate', 'endDate']
+      }
+    },
+    {
+      name: 'jira_get_boards',
+      description: 'List Scrum and Kanban boards',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          projectKey: {
+            type: 'string',
+            description: 'Optional project key to list the boards of'
+          },
+          type: {
+            type: 'string',
+            enum: ['scrum', 'kanban', 'simple'],
+            description: 'Optional board type'
+          },
+          name: {
+            type: 'string',
+            description: 'Optional text the board name must contain'
+          },
+          startAt: {
+            type: 'number',
+            description: 'Index of the first board to return (default: 0)',
+            default: 0
+          },
+          maxResults: {
+            type: 'number',
+            description: 'Maximum number of boards to return (default: 50)',
+            default: 50
+          }
+        }
+      }
+    },
+    {
+      name: 'jira_get_sprints',
+      description: 'List the sprints of a Scrum board',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          boardId: {
+            type: 'number',
+            description: 'The ID of the board'
+          },
+          state: {
+            type: 'string',
+            description: 'Comma-separated sprint states to include: active, future, closed (default: all)'
+          },
+          startAt: {
+            type: 'number',
+            description: 'Index of the first sprint to return (default: 0)',
+            default: 0
+          },
+          maxResults: {
+            type: 'number',
+            description: 'Maximum number of sprints to return (default: 50)',
+            default: 50
+          }
+        },
+        required: ['boardId']
+      }
+    },
+    {
+      name: 'jira_get_sprint_issues',
+      description: 'Get the issues in a sprint',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sprintId: {
+            type: 'number',
+            description: 'The ID of the sprint'
+          },
+          jql: {
+            type: 'string',
+            description: 'Optional JQL to further filter the sprint issues'
+          },
+          fields: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'List of fields to include in the response'
+          },
+          startAt: {
+            type: 'number',
+            description: 'Index of the first issue to return (default: 0)',
+            default: 0
+          },
+          maxResults: {
+            type: 'number',
+            description: 'Maximum number of issues to return (default: 50)',
+            default: 50
+          }
+        },
+        required: ['sprintId']
+      }
+    },
+    {
+      name: 'jira_move_issues_to_sprint',
+      description: 'Move issues into a sprint',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sprintId: {
+            type: 'number',
+            description: 'The ID of the target sprint'
+          },
+          issueKeys: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Keys of the issues to move (at most 50)'
+          }
+        },
+        required: ['sprintId', 'issueKeys']
+      }
+    },
+    {
+      name: 'jira_move_issues_to_backlog',
+      description: 'Move issues out of their sprint into the backlog',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueKeys: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Keys of the issues to move (at most 50)'
+          }
+        },
+        required: ['issueKeys']
+      }
+    },
+    {
+      name: 'jira_create_sprint',
+      description: 'Create a future sprint on a Scrum board',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          boardId: {
+            type: 'number',
+            description: 'The ID of the board'
+          },
+          name: {
+            type: 'string',
+            description: 'The name of the sprint'
+          },
+          startDate: {
+            type: 'string',
+            description: 'Optional planned start date (ISO 8601)'
+          },
+          endDate: {
+            type: 'string',
+            description: 'Optional planned end date (ISO 8601)'
+          },
+          goal: {
+            type: 'string',
+            description: 'Optional sprint goal'
+          }
+        },
+        required: ['boardId', 'name']
+      }
+    },
+    {
+      name: 'jira_start_sprint',
+      description: 'Start a future sprint',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sprintId: {
+            type: 'number',
+            description: 'The ID of the sprint'
+          },
+          startDate: {
+            type: 'string',
+            description: 'Start date (ISO 8601). Defaults to the planned start date, or now'
+          },
+          endDate: {
+            type: 'string',
+            description: 'End date (ISO 8601). Defaults to the planned end date, or two weeks after the start'
+          },
+          goal: {
+            type: 'string',
+            description: 'Optional sprint goal'
+          }
+        },
+        required: ['sprintId']
+      }
+    },
+    {
+      name: 'jira_close_sprint',
+      description: 'Close an active sprint. Incomplete issues are moved to the backlog',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sprintId: {
+            type: 'number',
+            description: 'The ID of the sprint'
+          }
+        },
+        required: ['sprintId']
+      }
+    },
     {
       name: 'jira_get_projects',
       description: 'Get a list of projects in Jira',
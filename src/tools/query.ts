@@ -0,0 +1,89 @@
+/**
+ * Input schema for the structured query accepted by the Jira and Confluence
+ * search tools as an alternative to a raw JQL/CQL string.
+ */
+export function structuredQuerySchema(language: 'jql' | 'cql') {
+  const examples = language === 'jql'
+    ? 'e.g. project, status, assignee, priority, labels, "Story Points"'
+    : 'e.g. space, type, title, label, creator, ancestor';
+  const dateFields = language === 'jql' ? 'created, updated, resolved or due' : 'created or lastmodified';
+
+  const value = {
+    oneOf: [
+      { type: 'string' },
+      { type: 'number' },
+      {
+        type: 'object',
+        description: `Function call, e.g. {"function": "currentUser"}`,
+        properties: {
+          function: { type: 'string' },
+          args: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['function']
+      }
+    ]
+  };
+
+  return {
+    type: 'object',
+    description: `Structured query compiled to correctly quoted ${language.toUpperCase()}. Use instead of a raw query string`,
+    properties: {
+      clauses: {
+        type: 'array',
+        description: 'Field conditions',
+        items: {
+          type: 'object',
+          properties: {
+            field: {
+              type: 'string',
+              description: `Field name (${examples})`
+            },
+            operator: {
+              type: 'string',
+              enum: ['=', '!=', '>', '>=', '<', '<=', '~', '!~', 'in', 'not in', 'is empty', 'is not empty']
+            },
+            value: {
+              description: 'A list for "in" / "not in", nothing for "is empty" / "is not empty", a single value otherwise',
+              oneOf: [value, { type: 'array', items: value }]
+            }
+          },
+          required: ['field', 'operator']
+        }
+      },
+      match: {
+        type: 'string',
+        enum: ['all', 'any'],
+        description: 'Whether all clauses must match or any of them (default: all)',
+        default: 'all'
+      },
+      text: {
+        type: 'string',
+        description: 'Free text to search for; matched as words, not query syntax'
+      },
+      dateRanges: {
+        type: 'array',
+        description: `Date conditions, e.g. on ${dateFields}`,
+        items: {
+          type: 'object',
+          properties: {
+            field: { type: 'string' },
+            from: { type: 'string', description: 'Inclusive start: yyyy-MM-dd, "yyyy-MM-dd HH:mm" or relative such as -7d' },
+            to: { type: 'string', description: 'Inclusive end, in the same formats' }
+          },
+          required: ['field']
+        }
+      },
+      orderBy: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            field: { type: 'string' },
+            direction: { type: 'string', enum: ['asc', 'desc'] }
+          },
+          required: ['field']
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import { AdfDocument, adfToMarkdown, isAdfDocument, markdownToAdf } from './adf.js';
+
+const paragraph = (...content: AdfDocument['content']) => ({ type: 'paragraph', content });
+
+describe('markdownToAdf', () => {
+  it('converts inline formatting to marks', () => {
+    expect(markdownToAdf('Some **bold**, _em_, `code` and [a link](https://example.com).')).toEqual({
+      type: 'doc',
+      version: 1,
+      content: [paragraph(
+        { type: 'text', text: 'Some ' },
+        { type: 'text', text: 'bold', marks: [{ type: 'strong' }] },
+        { type: 'text', text: ', ' },
+        { type: 'text', text: 'em', marks: [{ type: 'em' }] },
+        { type: 'text', text: ', ' },
+        { type: 'text', text: 'code', marks: [{ type: 'code' }] },
+        { type: 'text', text: ' and ' },
+        { type: 'text', text: 'a link', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] },
+        { type: 'text', text: '.' }
+      )]
+    });
+  });
+
+  it('converts mention links to mention nodes', () => {
+    expect(markdownToAdf('Hi [@Jane Doe](mention:5b10ac8d82e05b22cc7d4ef5)').content).toEqual([paragraph(
+      { type: 'text', text: 'Hi ' },
+      { type: 'mention', attrs: { id: '5b10ac8d82e05b22cc7d4ef5', text: '@Jane Doe' } }
+    )]);
+  });
+
+  it('converts alerts to panels', () => {
+    expect(markdownToAdf('> [!TIP]\n> Use a cursor').content).toEqual([{
+      type: 'panel',
+      attrs: { panelType: 'success' },
+      content: [paragraph({ type: 'text', text: 'Use a cursor' })]
+    }]);
+  });
+
+  it('converts nested lists, code blocks and tables', () => {
+    const adf = markdownToAdf('- one\n  1. nested\n\n```js\nconst a = 1;\n```\n\n| A |\n| --- |\n| 1 |');
+    expect(adf.content.map(node => node.type)).toEqual(['bulletList', 'codeBlock', 'table']);
+    expect(adf.content[0].content?.[0].content?.[1].type).toBe('orderedList');
+    expect(adf.content[1]).toEqual({ type: 'codeBlock', attrs: { language: 'js' }, content: [{ type: 'text', text: 'const a = 1;' }] });
+    expect(adf.content[2].content?.map(row => row.content?.[0].type)).toEqual(['tableHeader', 'tableCell']);
+  });
+
+  it('gives an empty document for empty input', () => {
+    expect(markdownToAdf('')).toEqual({ type: 'doc', version: 1, content: [] });
+  });
+});
+
+describe('adfToMarkdown', () => {
+  it('round-trips Markdown', () => {
+    const markdown = [
+      '# Title',
+      'Some **bold**, *em*, `code` and [a link](https://example.com).',
+      '- one\n- two\n  1. nested',
+      '> [!WARNING]\n> Careful',
+      'Hi [@Jane Doe](mention:5b10ac8d)',
+      '```js\nconst a = 1;\n```',
+      '| A | B |\n| --- | --- |\n| 1 | 2 |'
+    ].join('\n\n');
+    expect(adfToMarkdown(markdownToAdf(markdown))).toBe(markdown);
+  });
+
+  it('escapes Markdown syntax in text', () => {
+    const adf: AdfDocument = { type: 'doc', version: 1, content: [paragraph({ type: 'text', text: '2 * 3 = [six]' })] };
+    expect(markdownToAdf(adfToMarkdown(adf))).toEqual(adf);
+  });
+});
+
+describe('isAdfDocument', () => {
+  it('recognises documents only', () => {
+    expect(isAdfDocument({ type: 'doc', version: 1, content: [] })).toBe(true);
+    expect(isAdfDocument({ type: 'paragraph', content: [] })).toBe(false);
+    expect(isAdfDocument('# Title')).toBe(false);
+    expect(isAdfDocument(null)).toBe(false);
+  });
+});
@@ -0,0 +1,404 @@
+import MarkdownIt from 'markdown-it';
+
+/**
+ * Conversion between Markdown and Atlassian Document Format (ADF), the JSON
+ * rich text format of the Jira Cloud v3 API. Mentions are written in Markdown
+ * as links with a mention: URL, e.g. [@Jane Doe](mention:5b10ac8d82e05b22cc7d4ef5),
+ * and GitHub-style alerts (`> [!NOTE]`) map to panels.
+ */
+
+export interface AdfMark {
+  type: string;
+  attrs?: Record<string, unknown>;
+}
+
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: AdfNode[];
+  marks?: AdfMark[];
+  text?: string;
+}
+
+export interface AdfDocument extends AdfNode {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+const MENTION_PREFIX = 'mention:';
+const ALERT_PATTERN = /^\[!(INFO|NOTE|TIP|WARNING|ERROR)\][ \t]*\n?/i;
+const ALERT_PANEL_TYPES: Record<string, string> = { info: 'info', note: 'note', tip: 'success', warning: 'warning', error: 'error' };
+const PANEL_ALERTS: Record<string, string> = { info: 'INFO', note: 'NOTE', success: 'TIP', warning: 'WARNING', error: 'WARNING' };
+
+type MarkdownToken = ReturnType<MarkdownIt['parse']>[number];
+
+const markdownParser = new MarkdownIt({ html: false, linkify: true });
+
+/**
+ * Returns true for an ADF document, as found in Jira Cloud v3 rich text fields.
+ */
+export function isAdfDocument(value: unknown): value is AdfDocument {
+  return Boolean(value) && typeof value === 'object' && (value as AdfNode).type === 'doc' && Array.isArray((value as AdfNode).content);
+}
+
+function textNode(text: string, marks: AdfMark[]): AdfNode {
+  return marks.length > 0 ? { type: 'text', text, marks: marks.map(mark => ({ ...mark })) } : { type: 'text', text };
+}
+
+/**
+ * Converts the children of an inline token (text with emphasis, links and
+ * so on) to ADF inline nodes.
+ */
+function convertInline(tokens: MarkdownToken[]): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  const marks: AdfMark[] = [];
+  let mention: { id: string; text: string } | undefined;
+
+  const removeMark = (type: string) => {
+    const index = marks.map(mark => mark.type).lastIndexOf(type);
+    if (index !== -1) marks.splice(index, 1);
+  };
+
+  for (const token of tokens) {
+    if (mention && token.type !== 'link_close') {
+      mention.text += token.content;
+      continue;
+    }
+
+    switch (token.type) {
+      case 'text':
+      case 'html_inline':
+        if (token.content) nodes.push(textNode(token.content, marks));
+        break;
+      case 'code_inline':
+        nodes.push(textNode(token.content, [...marks.filter(mark => mark.type === 'link'), { type: 'code' }]));
+        break;
+      case 'softbreak':
+        nodes.push(textNode(' ', marks));
+        break;
+      case 'hardbreak':
+        nodes.push({ type: 'hardBreak' });
+        break;
+      case 'strong_open':
+        marks.push({ type: 'strong' });
+        break;
+      case 'em_open':
+        marks.push({ type: 'em' });
+        break;
+      case 's_open':
+        marks.push({ type: 'strike' });
+        break;
+      case 'strong_close':
+        removeMark('strong');
+        break;
+      case 'em_close':
+        removeMark('em');
+        break;
+      case 's_close':
+        removeMark('strike');
+        break;
+      case 'link_open': {
+        const href = token.attrGet('href') || '';
+        if (href.startsWith(MENTION_PREFIX)) {
+          mention = { id: decodeURIComponent(href.slice(MENTION_PREFIX.length)), text: '' };
+        } else {
+          marks.push({ type: 'link', attrs: { href } });
+        }
+        break;
+      }
+      case 'link_close':
+        if (mention) {
+          const text = mention.text.replace(/^@/, '');
+          nodes.push({ type: 'mention', attrs: { id: mention.id, text: `@${text || mention.id}` } });
+          mention = undefined;
+        } else {
+          removeMark('link');
+        }
+        break;
+      case 'image': {
+        // Images must be uploaded as attachments; keep the reference as a link
+        const src = token.attrGet('src') || '';
+        nodes.push(textNode(token.content || src, [...marks, { type: 'link', attrs: { href: src } }]));
+        break;
+      }
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Builds ADF block nodes from a flat markdown-it token stream.
+ */
+function convertBlocks(tokens: MarkdownToken[]): AdfNode[] {
+  const root: AdfNode = { type: 'doc', content: [] };
+  const stack: AdfNode[] = [root];
+  const current = () => stack[stack.length - 1];
+  const append = (node: AdfNode) => {
+    const parent = current();
+    (parent.content = parent.content || []).push(node);
+  };
+  const open = (node: AdfNode) => {
+    append(node);
+    stack.push(node);
+  };
+  const close = () => {
+    stack.pop();
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    switch (token.type) {
+      case 'paragraph_open':
+        open({ type: 'paragraph', content: [] });
+        break;
+      case 'heading_open':
+        open({ type: 'heading', attrs: { level: Number(token.tag.slice(1)) }, content: [] });
+        break;
+      case 'bullet_list_open':
+        open({ type: 'bulletList', content: [] });
+        break;
+      case 'ordered_list_open': {
+        const start = Number(token.attrGet('start') || 1);
+        open({ type: 'orderedList', ...(start !== 1 && { attrs: { order: start } }), content: [] });
+        break;
+      }
+      case 'list_item_open':
+        open({ type: 'listItem', content: [] });
+        break;
+      case 'blockquote_open': {
+        const inline = tokens[i + 2];
+        const alert = tokens[i + 1]?.type === 'paragraph_open' ? inline?.content.match(ALERT_PATTERN) : null;
+        if (alert) {
+          stripAlertMarker(inline, alert[0]);
+          open({ type: 'panel', attrs: { panelType: ALERT_PANEL_TYPES[alert[1].toLowerCase()] }, content: [] });
+        } else {
+          open({ type: 'blockquote', content: [] });
+        }
+        break;
+      }
+      case 'table_open':
+        open({ type: 'table', content: [] });
+        break;
+      case 'tr_open':
+        open({ type: 'tableRow', content: [] });
+        break;
+      case 'th_open':
+      case 'td_open':
+        open({ type: token.type === 'th_open' ? 'tableHeader' : 'tableCell', content: [] });
+        open({ type: 'paragraph', content: [] });
+        break;
+      case 'th_close':
+      case 'td_close':
+        close();
+        close();
+        break;
+      case 'paragraph_close':
+      case 'heading_close':
+      case 'bullet_list_close':
+      case 'ordered_list_close':
+      case 'list_item_close':
+      case 'blockquote_close':
+      case 'table_close':
+      case 'tr_close':
+        close();
+        break;
+      case 'inline':
+        current().content!.push(...convertInline(token.children || []));
+        break;
+      case 'fence':
+      case 'code_block': {
+        const language = token.type === 'fence' ? token.info.trim().split(/\s+/)[0] : '';
+        const code = token.content.replace(/\n$/, '');
+        append({
+          type: 'codeBlock',
+          ...(language && { attrs: { language } }),
+          content: code ? [{ type: 'text', text: code }] : []
+        });
+        break;
+      }
+      case 'hr':
+        append({ type: 'rule' });
+        break;
+      case 'html_block':
+        append({ type: 'paragraph', content: [{ type: 'text', text: token.content.trim() }] });
+        break;
+    }
+  }
+
+  return removeEmptyParagraphs(root.content || []);
+}
+
+function stripAlertMarker(inline: MarkdownToken, marker: string): void {
+  inline.content = inline.content.slice(marker.length);
+  const children = inline.children || [];
+  const first = children.find(child => child.type === 'text');
+  if (first) {
+    first.content = first.content.replace(marker.trimEnd(), '').replace(/^[ \t]+/, '');
+  }
+  // A marker alone on its line is followed by a line break that should go too
+  if (children[0]?.type === 'text' && !children[0].content && children[1]?.type === 'softbreak') {
+    children.splice(0, 2);
+  }
+}
+
+/**
+ * Drops paragraphs left empty (e.g. by an alert marker on its own line),
+ * except where ADF requires a block, such as an empty table cell.
+ */
+function removeEmptyParagraphs(nodes: AdfNode[]): AdfNode[] {
+  return nodes
+    .map(node => node.content && node.type !== 'paragraph' && node.type !== 'heading'
+      ? { ...node, content: removeEmptyParagraphs(node.content) }
+      : node)
+    .filter((node, _, siblings) => !(node.type === 'paragraph' && node.content?.length === 0 && siblings.length > 1));
+}
+
+/**
+ * Converts Markdown to an ADF document.
+ */
+export function markdownToAdf(markdown: string): AdfDocument {
+  return { type: 'doc', version: 1, content: convertBlocks(markdownParser.parse(markdown || '', {})) };
+}
+
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*[\]]/g, '\\$&')
+    .replace(/(^|\W)_|_(?=\W|$)/g, (match) => match.replace('_', '\\_'));
+}
+
+function wrapMarks(text: string, marks: AdfMark[] = []): string {
+  let result = text;
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'strong':
+        result = `**${result}**`;
+        break;
+      case 'em':
+        result = `*${result}*`;
+        break;
+      case 'strike':
+        result = `~~${result}~~`;
+        break;
+    }
+  }
+  const link = marks.find(mark => mark.type === 'link');
+  return link ? `[${result}](${link.attrs?.href || ''})` : result;
+}
+
+function renderInline(nodes: AdfNode[] = []): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': {
+        const isCode = node.marks?.some(mark => mark.type === 'code');
+        const text = isCode ? `\`${node.text || ''}\`` : escapeMarkdown(node.text || '');
+        return wrapMarks(text, node.marks?.filter(mark => mark.type !== 'code'));
+      }
+      case 'hardBreak':
+        return '\\\n';
+      case 'mention': {
+        const text = String(node.attrs?.text || node.attrs?.id || '').replace(/^@/, '');
+        return `[@${escapeMarkdown(text)}](${MENTION_PREFIX}${encodeURIComponent(String(node.attrs?.id || ''))})`;
+      }
+      case 'emoji':
+        return String(node.attrs?.text || node.attrs?.shortName || '');
+      case 'inlineCard':
+      case 'blockCard':
+        return node.attrs?.url ? `<${node.attrs.url}>` : '';
+      case 'date':
+        return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+      case 'status':
+        return node.attrs?.text ? `\`${node.attrs.text}\`` : '';
+      default:
+        return node.content ? renderInline(node.content) : node.text || '';
+    }
+  }).join('');
+}
+
+function indent(text: string, prefix: string, firstPrefix: string = prefix): string {
+  return text.split('\n').map((line, index) => (index === 0 ? firstPrefix : line ? prefix : prefix.trimEnd()) + line).join('\n');
+}
+
+function renderListItem(item: AdfNode, marker: string): string {
+  const body = renderBlocks(item.content || [], '\n');
+  return indent(body, ' '.repeat(marker.length), marker);
+}
+
+function renderTable(table: AdfNode): string {
+  const rows = (table.content || []).map(row => (row.content || []).map(cell =>
+    (cell.content || []).map(block => block.content ? renderInline(block.content) : '').join(' ').replace(/\|/g, '\\|').replace(/\n/g, ' ')
+  ));
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const hasHeader = table.content?.[0]?.content?.every(cell => cell.type === 'tableHeader');
+  const [header, ...body] = hasHeader ? rows : [Array(width).fill(''), ...rows];
+
+  return [
+    `| ${pad(header).join(' | ')} |`,
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...body.map(row => `| ${pad(row).join(' | ')} |`)
+  ].join('\n');
+}
+
+function renderBlock(node: AdfNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(node.content);
+    case 'heading':
+      return `${'#'.repeat(Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6))} ${renderInline(node.content)}`;
+    case 'bulletList':
+      return (node.content || []).map(item => renderListItem(item, '- ')).join('\n');
+    case 'orderedList': {
+      const start = Number(node.attrs?.order) || 1;
+      return (node.content || []).map((item, index) => renderListItem(item, `${start + index}. `)).join('\n');
+    }
+    case 'taskList':
+      return (node.content || []).map(item => item.type === 'taskItem'
+        ? `- [${item.attrs?.state === 'DONE' ? 'x' : ' '}] ${renderInline(item.content)}`
+        : renderBlock(item)).join('\n');
+    case 'codeBlock': {
+      const code = (node.content || []).map(child => child.text || '').join('');
+      const fence = code.includes('```') ? '````' : '```';
+      return `${fence}${node.attrs?.language || ''}\n${code}\n${fence}`;
+    }
+    case 'blockquote':
+      return indent(renderBlocks(node.content || []), '> ');
+    case 'panel': {
+      const alert = PANEL_ALERTS[String(node.attrs?.panelType)] || 'INFO';
+      return indent(`[!${alert}]\n${renderBlocks(node.content || [])}`, '> ');
+    }
+    case 'rule':
+      return '---';
+    case 'table':
+      return renderTable(node);
+    case 'expand':
+    case 'nestedExpand':
+      return [node.attrs?.title ? `**${escapeMarkdown(String(node.attrs.title))}**` : '', renderBlocks(node.content || [])].filter(Boolean).join('\n\n');
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return (node.content || []).map(media => `[Attachment: ${escapeMarkdown(String(media.attrs?.alt || media.attrs?.id || 'file'))}]`).join('\n');
+    default:
+      // Unknown blocks keep their text
+      return node.content ? renderBlocks(node.content) : node.text || '';
+  }
+}
+
+function renderBlocks(nodes: AdfNode[], separator: string = '\n\n'): string {
+  return nodes.map(renderBlock).filter(block => block !== '').join(separator);
+}
+
+/**
+ * Converts an ADF document (or node) to Markdown.
+ */
+export function adfToMarkdown(adf: AdfNode): string {
+  if (!adf) {
+    return '';
+  }
+  return (adf.type === 'doc' ? renderBlocks(adf.content || []) : renderBlock(adf)).trim();
+}
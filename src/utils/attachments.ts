@@ -0,0 +1,93 @@
+import { ValidationError } from './errors.js';
+
+// MIME types returned as text rather than base64 blobs
+const TEXT_MIME_TYPES = /^(text\/|application\/(json|xml|javascript|x-yaml|yaml)\b)|\+(json|xml)\b/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/\r\n]*={0,2}\s*$/;
+
+/**
+ * Returns the largest attachment, in bytes, that may be downloaded or uploaded
+ * (MAX_ATTACHMENT_SIZE, default 10MB).
+ */
+export function getMaxAttachmentSize(): number {
+  const value = parseInt(process.env.MAX_ATTACHMENT_SIZE || '', 10);
+  return Number.isNaN(value) || value <= 0 ? 10 * 1024 * 1024 : value;
+}
+
+/**
+ * Throws if an attachment exceeds MAX_ATTACHMENT_SIZE.
+ */
+export function assertAttachmentSize(size: number, filename: string): void {
+  const maxSize = getMaxAttachmentSize();
+  if (size > maxSize) {
+    throw new ValidationError(`Attachment '${filename}' is ${size} bytes, which exceeds the ${maxSize} byte limit (MAX_ATTACHMENT_SIZE)`);
+  }
+}
+
+/**
+ * Downloaded attachment content. The server returns it to the client as an
+ * embedded MCP resource instead of JSON text.
+ */
+export class AttachmentContent {
+  constructor(
+    readonly uri: string,
+    readonly filename: string,
+    readonly mimeType: string,
+    readonly data: Buffer
+  ) {}
+
+  /**
+   * Builds the tool result content: a metadata summary followed by the file
+   * itself, as text for textual MIME types and as a base64 blob otherwise.
+   */
+  toToolContent() {
+    const resource = TEXT_MIME_TYPES.test(this.mimeType)
+      ? { uri: this.uri, mimeType: this.mimeType, text: this.data.toString('utf-8') }
+      : { uri: this.uri, mimeType: this.mimeType, blob: this.data.toString('base64') };
+
+    return [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ filename: this.filename, mimeType: this.mimeType, size: this.data.length, uri: this.uri }, null, 2)
+      },
+      {
+        type: 'resource' as const,
+        resource
+      }
+    ];
+  }
+}
+
+/**
+ * Decodes upload content passed as a tool argument.
+ * @param content - File content, base64-encoded unless encoding is utf8
+ * @param encoding - How content is encoded (default: base64)
+ */
+export function decodeAttachmentContent(content: string, encoding: 'base64' | 'utf8' = 'base64'): Buffer {
+  if (encoding === 'utf8') {
+    return Buffer.from(content, 'utf-8');
+  }
+  if (!BASE64_PATTERN.test(content)) {
+    throw new ValidationError('Attachment content is not valid base64; set encoding to utf8 for plain text');
+  }
+  return Buffer.from(content, 'base64');
+}
+
+/**
+ * Builds the multipart body for an attachment upload.
+ * @param extraFields - Additional form fields, e.g. a Confluence version comment
+ */
+export function buildAttachmentForm(
+  filename: string,
+  data: Buffer,
+  contentType: string = 'application/octet-stream',
+  extraFields: Record<string, string> = {}
+): FormData {
+  assertAttachmentSize(data.length, filename);
+
+  const form = new FormData();
+  form.append('file', new Blob([new Uint8Array(data)], { type: contentType }), filename);
+  for (const [name, value] of Object.entries(extraFields)) {
+    form.append(name, value);
+  }
+  return form;
+}
@@ -0,0 +1,99 @@
+import { diffLines, formatUnifiedDiff, merge3 } from './diff.js';
+
+const lines = (text: string): string[] => text.split(/(?<=\n)/);
+
+describe('diffLines', () => {
+  it('marks unchanged, removed and added lines', () => {
+    expect(diffLines(['a\n', 'b\n', 'c\n'], ['a\n', 'x\n', 'c\n', 'd\n'])).toEqual([
+      { type: 'equal', text: 'a\n' },
+      { type: 'removed', text: 'b\n' },
+      { type: 'added', text: 'x\n' },
+      { type: 'equal', text: 'c\n' },
+      { type: 'added', text: 'd\n' }
+    ]);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffLines([], [])).toEqual([]);
+    expect(diffLines([], ['a\n'])).toEqual([{ type: 'added', text: 'a\n' }]);
+    expect(diffLines(['a\n'], [])).toEqual([{ type: 'removed', text: 'a\n' }]);
+  });
+
+  it('keeps the order of repeated lines', () => {
+    const diff = diffLines(['x\n', 'y\n', 'x\n'], ['x\n', 'x\n']);
+    expect(diff.filter(line => line.type !== 'added').map(line => line.text)).toEqual(['x\n', 'y\n', 'x\n']);
+    expect(diff.filter(line => line.type !== 'removed').map(line => line.text)).toEqual(['x\n', 'x\n']);
+  });
+});
+
+describe('merge3', () => {
+  const base = lines('intro\nfirst\nmiddle\nlast\n');
+
+  it('combines changes to different parts of the text', () => {
+    const ours = lines('intro\nfirst, edited\nmiddle\nlast\n');
+    const theirs = lines('intro\nfirst\nmiddle\nlast, edited\n');
+
+    const result = merge3(base, ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(result.lines.join('')).toBe('intro\nfirst, edited\nmiddle\nlast, edited\n');
+  });
+
+  it('keeps additions and deletions from both sides', () => {
+    const ours = lines('intro\nfirst\nmiddle\nlast\nappendix\n');
+    const theirs = lines('intro\nmiddle\nlast\n');
+
+    const result = merge3(base, ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(result.lines.join('')).toBe('intro\nmiddle\nlast\nappendix\n');
+  });
+
+  it('takes an identical change once', () => {
+    const both = lines('intro\nfirst, edited\nmiddle\nlast\n');
+
+    const result = merge3(base, both, both);
+    expect(result.conflicts).toEqual([]);
+    expect(result.lines).toEqual(both);
+  });
+
+  it('reports different changes to the same lines as a conflict and keeps ours', () => {
+    const ours = lines('intro\nfirst, ours\nmiddle\nlast\n');
+    const theirs = lines('intro\nfirst, theirs\nmiddle\nlast\n');
+
+    const result = merge3(base, ours, theirs);
+    expect(result.conflicts).toEqual([{ base: 'first\n', ours: 'first, ours\n', theirs: 'first, theirs\n' }]);
+    expect(result.lines).toEqual(ours);
+  });
+
+  it('returns the other side when one side is unchanged', () => {
+    const theirs = lines('rewritten\n');
+    expect(merge3(base, base, theirs)).toEqual({ lines: theirs, conflicts: [] });
+    expect(merge3(base, theirs, base)).toEqual({ lines: theirs, conflicts: [] });
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('renders hunks with line numbers and context', () => {
+    const before = '1 2 3 4 5 6 7 8 9 10'.split(' ');
+    const after = '1 2 three 4 5 6 7 8 9 10 11'.split(' ');
+
+    expect(formatUnifiedDiff(diffLines(before, after), 1)).toBe([
+      '@@ -2,3 +2,3 @@',
+      ' 2',
+      '-3',
+      '+three',
+      ' 4',
+      '@@ -10,1 +10,2 @@',
+      ' 10',
+      '+11'
+    ].join('\n'));
+  });
+
+  it('merges hunks whose context overlaps', () => {
+    const diff = diffLines(['a', 'b', 'c', 'd'], ['A', 'b', 'c', 'D']);
+    expect(formatUnifiedDiff(diff, 1).match(/^@@/gm)).toHaveLength(1);
+  });
+
+  it('returns an empty string for identical texts', () => {
+    expect(formatUnifiedDiff(diffLines(['a'], ['a']))).toBe('');
+  });
+});
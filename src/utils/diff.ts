@@ -0,0 +1,234 @@
+/**
+ * Line-based diff and three-way merge used for Confluence page content, and
+ * field diffs used to preview updates.
+ */
+
+// Above this many line pairs the LCS table gets too large; fall back to a coarse diff
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface MergeConflict {
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  /** Merged lines; for conflicting chunks "ours" is used */
+  lines: string[];
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Returns the index pairs of a longest common subsequence of two line arrays.
+ * Common leading and trailing lines are matched directly to keep the table small.
+ */
+function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    pairs.push([start, start]);
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  const tail: Array<[number, number]> = [];
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    tail.unshift([endA, endB]);
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n > 0 && m > 0 && n * m <= MAX_LCS_CELLS) {
+    // lengths[i][j] = LCS length of a[start + i..endA) and b[start + j..endB)
+    const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = a[start + i] === b[start + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  return pairs.concat(tail);
+}
+
+/**
+ * Computes a line diff turning `before` into `after`.
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  for (const [matchA, matchB] of [...matchLines(before, after), [before.length, after.length] as [number, number]]) {
+    while (i < matchA) {
+      result.push({ type: 'removed', text: before[i++] });
+    }
+    while (j < matchB) {
+      result.push({ type: 'added', text: after[j++] });
+    }
+    if (i < before.length && j < after.length) {
+      result.push({ type: 'equal', text: before[i] });
+      i++;
+      j++;
+    }
+  }
+
+  return result;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merges two sets of changes made to the same base (diff3). Chunks changed on
+ * only one side take that side; chunks changed identically on both sides are
+ * taken once; chunks changed differently on both sides are conflicts.
+ */
+export function merge3(base: string[], ours: string[], theirs: string[]): MergeResult {
+  const oursByBase = new Map(matchLines(base, ours));
+  const theirsByBase = new Map(matchLines(base, theirs));
+
+  const lines: string[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  let i = 0;
+  let a = 0;
+  let b = 0;
+
+  while (true) {
+    // Find the next base line that is unchanged on both sides
+    let stable = i;
+    while (stable < base.length && !(oursByBase.has(stable) && theirsByBase.has(stable))) {
+      stable++;
+    }
+
+    const endA = stable < base.length ? oursByBase.get(stable)! : ours.length;
+    const endB = stable < base.length ? theirsByBase.get(stable)! : theirs.length;
+
+    const baseChunk = base.slice(i, stable);
+    const oursChunk = ours.slice(a, endA);
+    const theirsChunk = theirs.slice(b, endB);
+
+    if (sameLines(oursChunk, baseChunk)) {
+      lines.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      lines.push(...oursChunk);
+    } else {
+      conflicts.push({ base: baseChunk.join(''), ours: oursChunk.join(''), theirs: theirsChunk.join('') });
+      lines.push(...oursChunk);
+    }
+
+    if (stable >= base.length) {
+      return { lines, conflicts };
+    }
+
+    lines.push(base[stable]);
+    i = stable + 1;
+    a = endA + 1;
+    b = endB + 1;
+  }
+}
+
+/**
+ * Renders a line diff in unified format, keeping `context` unchanged lines
+ * around each change. Returns an empty string if nothing changed.
+ */
+export function formatUnifiedDiff(diff: DiffLine[], context: number = 3): string {
+  const changed = diff.map((line, index) => line.type !== 'equal' ? index : -1).filter(index => index >= 0);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context overlaps into hunks of [start, end) indexes into diff
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(diff.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const output: string[] = [];
+  for (const [start, end] of hunks) {
+    // Line numbers in the old and new text at the start of the hunk (1-based)
+    const before = diff.slice(0, start);
+    const oldStart = before.filter(line => line.type !== 'added').length + 1;
+    const newStart = before.filter(line => line.type !== 'removed').length + 1;
+    const lines = diff.slice(start, end);
+    const oldCount = lines.filter(line => line.type !== 'added').length;
+    const newCount = lines.filter(line => line.type !== 'removed').length;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of lines) {
+      const prefix = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+export interface FieldChange {
+  field: string;
+  current?: unknown;
+  proposed?: unknown;
+  /** Unified diff, given instead of the values for long text */
+  diff?: string;
+}
+
+/**
+ * Returns true if a value about to be sent is already in place. Objects only
+ * need to match on the keys sent, so {name: "High"} matches a priority as
+ * returned by the API; scalars are compared as strings.
+ */
+function isUnchanged(proposed: unknown, current: unknown): boolean {
+  if (proposed === null || proposed === undefined) {
+    return current === null || current === undefined || (Array.isArray(current) && current.length === 0);
+  }
+  if (Array.isArray(proposed)) {
+    return Array.isArray(current) && current.length === proposed.length && proposed.every((item, index) => isUnchanged(item, current[index]));
+  }
+  if (typeof proposed === 'object') {
+    return Boolean(current) && typeof current === 'object' && Object.entries(proposed).every(([key, value]) => isUnchanged(value, (current as Record<string, unknown>)[key]));
+  }
+  return current !== null && current !== undefined && String(current) === String(proposed);
+}
+
+/**
+ * Lists the fields of an update whose value differs from the current one.
+ */
+export function diffFields(current: Record<string, unknown> | undefined, proposed: Record<string, unknown>): FieldChange[] {
+  return Object.entries(proposed)
+    .filter(([field, value]) => !isUnchanged(value, current?.[field]))
+    .map(([field, value]) => ({ field, current: current?.[field] ?? null, proposed: value }));
+}
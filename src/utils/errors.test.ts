@@ -0,0 +1,41 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { describeToolError } from './errors.js';
+
+function httpError(status: number, data: unknown): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError('Request failed', 'ERR_BAD_REQUEST', config, undefined, { status, statusText: '', data, headers: {}, config });
+}
+
+describe('describeToolError', () => {
+  it('reads Jira error messages and field errors', () => {
+    const details = describeToolError(httpError(400, { errorMessages: ['Issue does not exist', 42], errors: { summary: 'required' } }));
+    expect(details).toMatchObject({
+      category: 'validation',
+      status: 400,
+      errorMessages: ['Issue does not exist'],
+      fieldErrors: { summary: 'required' }
+    });
+  });
+
+  it('reads Confluence nested errors in each of their shapes', () => {
+    const details = describeToolError(httpError(400, {
+      message: 'Could not create content',
+      data: {
+        errors: [
+          { message: { translation: 'A page with this title already exists', key: 'duplicate.title' } },
+          { message: { key: 'invalid.parent' } },
+          { message: 'Plain message' },
+          { message: { args: [] } },
+          null,
+          'not an object'
+        ]
+      }
+    }));
+    expect(details.errorMessages).toEqual([
+      'Could not create content',
+      'A page with this title already exists',
+      'invalid.parent',
+      'Plain message'
+    ]);
+  });
+});
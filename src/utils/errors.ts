@@ -0,0 +1,244 @@
+import { AxiosError } from 'axios';
+
+/**
+ * Thrown when a write operation is attempted while READ_ONLY_MODE is enabled.
+ */
+export class ReadOnlyModeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReadOnlyModeError';
+  }
+}
+
+/**
+ * Thrown when tool arguments are rejected before any request is sent,
+ * e.g. an unknown transition or field name.
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Thrown when concurrent changes to a resource cannot be reconciled,
+ * e.g. overlapping edits to the same part of a Confluence page.
+ */
+export class ConflictError extends Error {
+  constructor(message: string, public readonly conflicts: Array<{ base: string; ours: string; theirs: string }> = []) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Thrown when a tool call is refused by the policy file, e.g. a write to a
+ * project outside the allowed ones or a forbidden field.
+ */
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+export type ToolErrorCategory =
+  | 'auth'
+  | 'permission'
+  | 'not_found'
+  | 'validation'
+  | 'conflict'
+  | 'rate_limit'
+  | 'read_only'
+  | 'policy'
+  | 'server'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Error details returned to the model so it can decide how to recover.
+ */
+export interface ToolErrorDetails {
+  category: ToolErrorCategory;
+  message: string;
+  status?: number;
+  /** General error messages from Atlassian (Jira errorMessages, Confluence message) */
+  errorMessages?: string[];
+  /** Field-level validation errors keyed by field ID */
+  fieldErrors?: Record<string, string>;
+  retryAfterSeconds?: number;
+  /** Overlapping changes that could not be merged (base, caller's and current content) */
+  conflicts?: Array<{ base: string; ours: string; theirs: string }>;
+  hint: string;
+}
+
+const HINTS: Record<ToolErrorCategory, string> = {
+  auth: 'Authentication failed. The configured credentials are missing, invalid or expired; this cannot be fixed by changing the tool arguments.',
+  permission: 'The configured account is not allowed to perform this operation on this resource.',
+  not_found: 'The resource does not exist or is not visible to the configured account. Check the key or ID.',
+  validation: 'Atlassian rejected the request. Correct the arguments (see fieldErrors and errorMessages) and retry.',
+  conflict: 'The resource was changed by someone else. Fetch the latest version and retry.',
+  rate_limit: 'Atlassian rate limit exceeded. Wait before retrying.',
+  read_only: 'The server is running in read-only mode; write operations are disabled.',
+  policy: 'The server\'s policy does not allow this call. The message says what is allowed; only calls that must be previewed can succeed by retrying, after a dryRun call.',
+  server: 'Atlassian returned a server error. Retrying later may succeed.',
+  network: 'Could not reach Atlassian. Check connectivity and proxy settings.',
+  unknown: 'The operation failed.'
+};
+
+function categoryForStatus(status: number): ToolErrorCategory {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'permission';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'validation';
+  return 'unknown';
+}
+
+// Both shapes of error payload; nothing in them is guaranteed
+interface AtlassianErrorBody {
+  errorMessages?: unknown;
+  errors?: unknown;
+  message?: unknown;
+  data?: { errors?: unknown };
+}
+
+/**
+ * Reads a Confluence nested error, {message: {translation, key}} or
+ * {message: "..."}.
+ */
+function nestedErrorMessage(entry: unknown): string | undefined {
+  if (!entry || typeof entry !== 'object') {
+    return undefined;
+  }
+  const { message } = entry as { message?: unknown };
+  if (message && typeof message === 'object') {
+    const { translation, key } = message as { translation?: unknown; key?: unknown };
+    return [translation, key].find((value): value is string => typeof value === 'string' && value !== '');
+  }
+  return typeof message === 'string' ? message : undefined;
+}
+
+/**
+ * Extracts error messages from the Jira ({errorMessages, errors}) and
+ * Confluence ({message, data: {errors}}) error payload shapes.
+ */
+function parseAtlassianErrorBody(payload: unknown): Pick<ToolErrorDetails, 'errorMessages' | 'fieldErrors'> {
+  if (!payload || typeof payload !== 'object') {
+    return typeof payload === 'string' && payload.trim() && !payload.trim().startsWith('<')
+      ? { errorMessages: [payload.trim()] }
+      : {};
+  }
+
+  const data = payload as AtlassianErrorBody;
+  const errorMessages: string[] = [];
+  const fieldErrors: Record<string, string> = {};
+
+  if (Array.isArray(data.errorMessages)) {
+    errorMessages.push(...data.errorMessages.filter((m: unknown): m is string => typeof m === 'string'));
+  }
+
+  if (data.errors && typeof data.errors === 'object' && !Array.isArray(data.errors)) {
+    for (const [field, message] of Object.entries(data.errors)) {
+      fieldErrors[field] = String(message);
+    }
+  }
+
+  if (typeof data.message === 'string' && data.message) {
+    errorMessages.push(data.message);
+  }
+
+  const nestedErrors = data.data?.errors;
+  if (Array.isArray(nestedErrors)) {
+    for (const entry of nestedErrors as unknown[]) {
+      const message = nestedErrorMessage(entry);
+      if (message) {
+        errorMessages.push(message);
+      }
+    }
+  }
+
+  return {
+    ...(errorMessages.length > 0 && { errorMessages }),
+    ...(Object.keys(fieldErrors).length > 0 && { fieldErrors })
+  };
+}
+
+/**
+ * Classifies an error thrown while executing a tool.
+ * @param error - The thrown value (AxiosError, ReadOnlyModeError or any Error)
+ * @returns Structured details including a category and recovery hint
+ */
+export function describeToolError(error: unknown): ToolErrorDetails {
+  if (error instanceof ReadOnlyModeError) {
+    return { category: 'read_only', message: error.message, hint: HINTS.read_only };
+  }
+
+  if (error instanceof ValidationError) {
+    return { category: 'validation', message: error.message, hint: HINTS.validation };
+  }
+
+  if (error instanceof PolicyError) {
+    return { category: 'policy', message: error.message, hint: HINTS.policy };
+  }
+
+  if (error instanceof ConflictError) {
+    return {
+      category: 'conflict',
+      message: error.message,
+      ...(error.conflicts.length > 0 && { conflicts: error.conflicts }),
+      hint: HINTS.conflict
+    };
+  }
+
+  if (error instanceof AxiosError) {
+    const status = error.response?.status;
+    if (status === undefined) {
+      return {
+        category: 'network',
+        message: `${error.code || 'Network error'}: ${error.message}`,
+        hint: HINTS.network
+      };
+    }
+
+    const category = categoryForStatus(status);
+    const details: ToolErrorDetails = {
+      category,
+      status,
+      message: `HTTP ${status}${error.response?.statusText ? ` ${error.response.statusText}` : ''}`,
+      ...parseAtlassianErrorBody(error.response?.data),
+      hint: HINTS[category]
+    };
+
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    if (category === 'rate_limit' && !Number.isNaN(retryAfter)) {
+      details.retryAfterSeconds = retryAfter;
+    }
+
+    return details;
+  }
+
+  return {
+    category: 'unknown',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    hint: HINTS.unknown
+  };
+}
+
+/**
+ * Builds an MCP tool result with isError set, describing the failure.
+ */
+export function toToolErrorResult(error: unknown) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ error: describeToolError(error) }, null, 2)
+      }
+    ],
+    isError: true
+  };
+}
@@ -0,0 +1,192 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * One of the values a field accepts, as listed by createmeta and editmeta.
+ */
+export interface JiraAllowedValue {
+  id?: string;
+  name?: string;
+  value?: string;
+  key?: string;
+}
+
+/**
+ * Field metadata as returned by /rest/api/2/field or the createmeta endpoints.
+ * createmeta uses fieldId where /field uses id.
+ */
+export interface JiraFieldMeta {
+  id?: string;
+  fieldId?: string;
+  key?: string;
+  name: string;
+  custom?: boolean;
+  /** createmeta and editmeta only */
+  required?: boolean;
+  schema?: {
+    type: string;
+    items?: string;
+    system?: string;
+    custom?: string;
+  };
+  allowedValues?: JiraAllowedValue[];
+}
+
+// System and custom fields holding rich text (wiki markup on v2, ADF on v3)
+const RICH_TEXT_SYSTEM_FIELDS = ['description', 'environment'];
+const RICH_TEXT_CUSTOM_TYPE = 'com.atlassian.jira.plugin.system.customfieldtypes:textarea';
+
+// Field IDs are lower camel case system names (duedate, fixVersions) or customfield_NNNNN
+const FIELD_ID_PATTERN = /^([a-z][a-zA-Z0-9]*|customfield_\d+)$/;
+
+function fieldId(field: JiraFieldMeta): string {
+  return field.fieldId || field.id || field.key || '';
+}
+
+/**
+ * Resolves a field given by ID or display name (case-insensitive) to its metadata.
+ * @param key - Field ID (e.g. customfield_10016) or name (e.g. "Story Points")
+ * @param fields - Candidate fields
+ * @returns The matching field, or undefined if the key is not a known field
+ */
+export function resolveField(key: string, fields: JiraFieldMeta[]): JiraFieldMeta | undefined {
+  const byId = fields.find(field => fieldId(field) === key);
+  if (byId) {
+    return byId;
+  }
+
+  const wanted = key.trim().toLowerCase();
+  const byName = fields.filter(field => field.name?.toLowerCase() === wanted);
+  const ids = [...new Set(byName.map(fieldId))];
+
+  if (ids.length > 1) {
+    throw new ValidationError(`Field name '${key}' is ambiguous; use one of the field IDs: ${ids.join(', ')}`);
+  }
+  return byName[0];
+}
+
+/**
+ * Returns true for fields whose value is rich text rather than a plain string.
+ */
+export function isRichTextField(field: JiraFieldMeta): boolean {
+  const schema = field.schema;
+  return RICH_TEXT_SYSTEM_FIELDS.includes(schema?.system || fieldId(field)) || schema?.custom === RICH_TEXT_CUSTOM_TYPE;
+}
+
+function matchAllowedValue(value: string, allowedValues: JiraAllowedValue[] | undefined): JiraAllowedValue | undefined {
+  if (!allowedValues) {
+    return undefined;
+  }
+  const wanted = value.trim().toLowerCase();
+  return allowedValues.find(allowed =>
+    [allowed.id, allowed.value, allowed.name, allowed.key]
+      .some(candidate => candidate !== undefined && String(candidate).toLowerCase() === wanted)
+  );
+}
+
+function shapeSingleValue(value: unknown, type: string | undefined, field: JiraFieldMeta, isCloud: boolean): unknown {
+  if (value === null || typeof value === 'object') {
+    // Already in API shape
+    return value;
+  }
+
+  const text = String(value);
+  const allowed = matchAllowedValue(text, field.allowedValues);
+
+  switch (type) {
+    case 'option':
+    case 'option-with-child':
+      return allowed ? { id: allowed.id } : { value: text };
+    case 'user':
+      return isCloud ? { accountId: text } : { name: text };
+    case 'priority':
+    case 'version':
+    case 'component':
+    case 'resolution':
+    case 'issuetype':
+    case 'securitylevel':
+      return allowed ? { id: allowed.id } : { name: text };
+    case 'project':
+      return { key: text };
+    case 'issuelink':
+      return { key: text };
+    case 'number': {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new ValidationError(`Field '${field.name}' expects a number, got '${text}'`);
+      }
+      return number;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Converts a plain value into the shape Jira expects for a field, e.g. "High"
+ * into {name: "High"} for priority or ["a", "b"] into [{value: "a"}, {value: "b"}]
+ * for a multi-select. Values that are already objects are passed through.
+ */
+export function shapeFieldValue(value: unknown, field: JiraFieldMeta, isCloud: boolean): unknown {
+  const schema = field.schema;
+  if (!schema || value === null) {
+    return value;
+  }
+
+  if (schema.type === 'array') {
+    const values = Array.isArray(value) ? value : [value];
+    return values.map(item => shapeSingleValue(item, schema.items, field, isCloud));
+  }
+
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  return shapeSingleValue(value, schema.type, field, isCloud);
+}
+
+/**
+ * Translates a fields object keyed by field names or IDs into one keyed by
+ * field IDs, with values shaped according to each field's schema.
+ * @param fields - Fields to translate, e.g. {"Story Points": 5}
+ * @param metadata - Fields of the create or edit screen, which carry allowed values
+ * @param fallback - All fields (/rest/api/2/field), consulted when a key is not on the screen
+ * @param isCloud - Whether user values should become account IDs
+ * @param convertRichText - Converts string values of rich text fields, e.g. Markdown to ADF
+ */
+export function translateFields(
+  fields: Record<string, unknown>,
+  metadata: JiraFieldMeta[],
+  fallback: JiraFieldMeta[],
+  isCloud: boolean,
+  convertRichText?: (text: string) => unknown
+): Record<string, unknown> {
+  const translated: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    const field = resolveField(key, metadata) || resolveField(key, fallback);
+    if (!field && FIELD_ID_PATTERN.test(key)) {
+      // Looks like a field ID that is not in the metadata (e.g. parent on some
+      // Server versions); send it unchanged and let Jira validate it
+      translated[key] = value;
+      continue;
+    }
+    if (!field) {
+      const wanted = key.toLowerCase();
+      const suggestions = [...metadata, ...fallback]
+        .filter(candidate => candidate.name?.toLowerCase().includes(wanted) || wanted.includes(candidate.name?.toLowerCase() || '\0'))
+        .map(candidate => `"${candidate.name}" (${fieldId(candidate)})`)
+        .filter((suggestion, index, all) => all.indexOf(suggestion) === index)
+        .slice(0, 5);
+      throw new ValidationError(
+        `Unknown field '${key}'.` +
+        (suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : ' Use jira_get_fields to list available fields.')
+      );
+    }
+
+    translated[fieldId(field)] = convertRichText && typeof value === 'string' && isRichTextField(field)
+      ? convertRichText(value)
+      : shapeFieldValue(value, field, isCloud);
+  }
+
+  return translated;
+}
@@ -0,0 +1,77 @@
+import { markdownToAdf } from './adf.js';
+import { adfToWiki, markdownToWiki, wikiToAdf, wikiToMarkdown } from './jira-wiki.js';
+
+describe('markdownToWiki', () => {
+  it('converts inline formatting', () => {
+    expect(markdownToWiki('Some **bold**, _em_, `code` and [a link](https://example.com).'))
+      .toBe('Some *bold*, _em_, {{code}} and [a link|https://example.com].');
+  });
+
+  it('converts headings, lists, code and tables', () => {
+    expect(markdownToWiki('## Steps\n\n- one\n- two\n  1. nested\n\n```js\nconst a = 1;\n```\n\n| A | B |\n| --- | --- |\n| 1 | 2 |')).toBe([
+      'h2. Steps',
+      '* one\n* two\n*# nested',
+      '{code:js}\nconst a = 1;\n{code}',
+      '||A||B||\n|1|2|'
+    ].join('\n\n'));
+  });
+
+  it('converts mentions to user links and alerts to panels', () => {
+    expect(markdownToWiki('Hi [@Jane Doe](mention:jdoe)')).toBe('Hi [~jdoe]');
+    expect(markdownToWiki('> [!WARNING]\n> Careful')).toBe('{panel:title=Warning}\nCareful\n{panel}');
+  });
+});
+
+describe('wikiToMarkdown', () => {
+  it('round-trips Markdown through wiki markup', () => {
+    const markdown = [
+      '# Title',
+      'Some **bold**, *em*, `code` and [a link](https://example.com).',
+      '- one\n- two\n  1. nested',
+      '> [!WARNING]\n> Careful',
+      '```js\nconst a = 1;\n```',
+      '| A | B |\n| --- | --- |\n| 1 | 2 |'
+    ].join('\n\n');
+    expect(wikiToMarkdown(markdownToWiki(markdown))).toBe(markdown);
+  });
+
+  it('writes user links as mentions', () => {
+    expect(wikiToMarkdown('Hi [~jdoe]')).toBe('Hi [@jdoe](mention:jdoe)');
+  });
+});
+
+describe('wikiToAdf', () => {
+  it('parses nested lists of mixed types', () => {
+    expect(wikiToAdf('* a\n** b\n# c').content).toEqual([
+      {
+        type: 'bulletList',
+        content: [{
+          type: 'listItem',
+          content: [
+            { type: 'paragraph', content: [{ type: 'text', text: 'a' }] },
+            { type: 'bulletList', content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'b' }] }] }] }
+          ]
+        }]
+      },
+      { type: 'orderedList', content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'c' }] }] }] }
+    ]);
+  });
+
+  it('parses code blocks and panels', () => {
+    expect(wikiToAdf('{code:java}\nint x;\n{code}\n\n{panel}inside{panel}').content).toEqual([
+      { type: 'codeBlock', attrs: { language: 'java' }, content: [{ type: 'text', text: 'int x;' }] },
+      { type: 'panel', attrs: { panelType: 'info' }, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'inside' }] }] }
+    ]);
+  });
+
+  it('matches ADF built from the equivalent Markdown', () => {
+    expect(wikiToAdf('h2. Heading\n\n*bold* and _em_ {{mono}} [text|https://example.com]'))
+      .toEqual(markdownToAdf('## Heading\n\n**bold** and *em* `mono` [text](https://example.com)'));
+  });
+});
+
+describe('adfToWiki', () => {
+  it('renders ADF from Jira Cloud as wiki markup', () => {
+    expect(adfToWiki(markdownToAdf('# Title\n\nHi [@Jane Doe](mention:5b10ac8d)'))).toBe('h1. Title\n\nHi [~5b10ac8d]');
+  });
+});
@@ -0,0 +1,516 @@
+import { AdfDocument, AdfMark, AdfNode, adfToMarkdown, markdownToAdf } from './adf.js';
+
+/**
+ * Conversion between ADF and Jira wiki markup, the rich text format of the
+ * Jira Server/Data Center v2 API. Markdown is converted through ADF so both
+ * deployments share one Markdown dialect.
+ */
+
+const WIKI_MARKS: Record<string, AdfMark> = {
+  '*': { type: 'strong' },
+  '_': { type: 'em' },
+  '-': { type: 'strike' },
+  '+': { type: 'underline' },
+  '^': { type: 'subsup', attrs: { type: 'sup' } },
+  '~': { type: 'subsup', attrs: { type: 'sub' } }
+};
+const MARK_CHARS = Object.keys(WIKI_MARKS);
+const ESCAPABLE_CHARS = new Set(['*', '_', '-', '+', '^', '~', '{', '}', '[', ']', '|', '!', '?', '#']);
+const LINK_URL_PATTERN = /^(https?:|mailto:|ftp:|file:|\/|#)/i;
+const IMAGE_PATTERN = /^!([^\s!|]+\.[A-Za-z0-9]+)(\|[^!\n]*)?!/;
+const BLOCK_MACROS = ['quote', 'panel', 'info', 'note', 'tip', 'warning'];
+const PANEL_TYPES: Record<string, string> = { info: 'info', note: 'note', tip: 'success', warning: 'warning', error: 'error', success: 'success' };
+const PANEL_TITLES: Record<string, string> = { info: 'Info', note: 'Note', success: 'Tip', warning: 'Warning', error: 'Error' };
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+function textNode(text: string, marks: AdfMark[]): AdfNode {
+  return marks.length > 0 ? { type: 'text', text, marks: marks.map(mark => ({ ...mark })) } : { type: 'text', text };
+}
+
+/**
+ * Finds the end of a mark such as *bold*: the next marker character that
+ * follows a non-space and is not followed by a letter or digit.
+ */
+function findMarkEnd(text: string, start: number, char: string): number {
+  for (let index = start + 1; index < text.length; index++) {
+    if (text[index] === '\n') {
+      return -1;
+    }
+    if (text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (text[index] === char && !isSpace(text[index - 1]) && !isWordChar(text[index + 1])) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses wiki inline markup into ADF inline nodes.
+ */
+function parseInline(text: string, marks: AdfMark[] = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push(textNode(buffer, marks));
+    buffer = '';
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (rest.startsWith('\\\\')) {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      index++;
+      continue;
+    }
+    if (char === '\\' && ESCAPABLE_CHARS.has(text[index + 1])) {
+      buffer += text[++index];
+      continue;
+    }
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      continue;
+    }
+
+    if (rest.startsWith('{{')) {
+      const end = text.indexOf('}}', index + 2);
+      if (end > index + 2) {
+        flush();
+        nodes.push(textNode(text.slice(index + 2, end), [...marks.filter(mark => mark.type === 'link'), { type: 'code' }]));
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '{') {
+      // Formatting macros such as {color:red} have no Markdown equivalent
+      const macro = /^\{(color(:[^}]*)?|anchor:[^}]*)\}/.exec(rest);
+      if (macro) {
+        index += macro[0].length - 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const end = text.indexOf(']', index);
+      const inner = end > index ? text.slice(index + 1, end) : '';
+      if (inner.startsWith('~') && inner.length > 1) {
+        flush();
+        const id = inner.slice(1).replace(/^accountid:/, '');
+        nodes.push({ type: 'mention', attrs: { id, text: `@${id}` } });
+        index = end;
+        continue;
+      }
+      const separator = inner.lastIndexOf('|');
+      const href = (separator === -1 ? inner : inner.slice(separator + 1)).trim();
+      if (inner && !inner.includes('\n') && LINK_URL_PATTERN.test(href)) {
+        flush();
+        const label = separator === -1 ? href : inner.slice(0, separator);
+        nodes.push(...parseInline(label, [...marks, { type: 'link', attrs: { href } }]));
+        index = end;
+        continue;
+      }
+    }
+
+    if (char === '!') {
+      const image = IMAGE_PATTERN.exec(rest);
+      if (image) {
+        flush();
+        const source = image[1];
+        nodes.push(textNode(source, LINK_URL_PATTERN.test(source) ? [...marks, { type: 'link', attrs: { href: source } }] : marks));
+        index += image[0].length - 1;
+        continue;
+      }
+    }
+
+    if (MARK_CHARS.includes(char) && !isWordChar(text[index - 1]) && !isSpace(text[index + 1]) && text[index + 1] !== char) {
+      const end = findMarkEnd(text, index, char);
+      if (end > index + 1) {
+        flush();
+        nodes.push(...parseInline(text.slice(index + 1, end), [...marks, WIKI_MARKS[char]]));
+        index = end;
+        continue;
+      }
+    }
+
+    if (rest.startsWith('??')) {
+      const end = text.indexOf('??', index + 2);
+      if (end > index + 2 && !text.slice(index, end).includes('\n')) {
+        flush();
+        nodes.push(...parseInline(text.slice(index + 2, end), [...marks, { type: 'em' }]));
+        index = end + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+  }
+
+  flush();
+  return nodes;
+}
+
+function splitTableRow(line: string): Array<{ header: boolean; text: string }> {
+  const cells: Array<{ header: boolean; text: string }> = [];
+  let index = 0;
+
+  while (index < line.length) {
+    const header = line.startsWith('||', index);
+    index += header ? 2 : 1;
+
+    let text = '';
+    let depth = 0;
+    while (index < line.length) {
+      const char = line[index];
+      if (char === '\\' && index + 1 < line.length) {
+        text += char + line[index + 1];
+        index += 2;
+        continue;
+      }
+      if (char === '[' || line.startsWith('{{', index)) depth++;
+      if ((char === ']' || line.startsWith('}}', index)) && depth > 0) depth--;
+      if (char === '|' && depth === 0) break;
+      text += char;
+      index++;
+    }
+
+    if (index < line.length || text.trim()) {
+      cells.push({ header, text: text.trim() });
+    }
+  }
+
+  return cells;
+}
+
+function codeLanguage(params: string | undefined): string | undefined {
+  const options = (params || '').split('|').map(option => option.trim()).filter(Boolean);
+  const language = options.find(option => !option.includes('=')) || options.find(option => option.startsWith('language='))?.slice(9);
+  return language || undefined;
+}
+
+/**
+ * Parses wiki block markup (headings, lists, tables, code and quote macros,
+ * paragraphs) into ADF block nodes.
+ */
+function parseBlocks(text: string): AdfNode[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: AdfNode[] = [];
+  let paragraph: string[] = [];
+  let lists: Array<{ node: AdfNode; char: string }> = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', content: parseInline(paragraph.join('\n')) });
+    }
+    paragraph = [];
+  };
+
+  const addListItem = (markers: string, content: string) => {
+    const depth = markers.length;
+    while (lists.length > depth || (lists.length > 0 && lists.length === depth && lists[depth - 1].char !== markers[depth - 1])) {
+      lists.pop();
+    }
+    while (lists.length < depth) {
+      const char = markers[lists.length];
+      const node: AdfNode = { type: char === '#' ? 'orderedList' : 'bulletList', content: [] };
+      const parent = lists[lists.length - 1];
+      if (parent) {
+        let item = parent.node.content![parent.node.content!.length - 1];
+        if (!item) {
+          item = { type: 'listItem', content: [{ type: 'paragraph', content: [] }] };
+          parent.node.content!.push(item);
+        }
+        item.content!.push(node);
+      } else {
+        blocks.push(node);
+      }
+      lists.push({ node, char });
+    }
+    lists[depth - 1].node.content!.push({ type: 'listItem', content: [{ type: 'paragraph', content: parseInline(content) }] });
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+
+    const list = /^([*#]+|-)\s+(.*)$/.exec(trimmed);
+    if (list && !/^-{4,}$/.test(trimmed)) {
+      flushParagraph();
+      addListItem(list[1] === '-' ? '*' : list[1], list[2]);
+      continue;
+    }
+    lists = [];
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    const code = /^\{(code|noformat)(?::([^}]*))?\}(.*)$/.exec(trimmed);
+    if (code) {
+      flushParagraph();
+      const closing = `{${code[1]}}`;
+      const body: string[] = [];
+      let rest = code[3];
+      while (!rest.includes(closing) && index + 1 < lines.length) {
+        body.push(rest);
+        rest = lines[++index];
+      }
+      body.push(rest.includes(closing) ? rest.slice(0, rest.indexOf(closing)) : rest);
+      const content = body.join('\n').replace(/^\n+|\n+$/g, '');
+      const language = code[1] === 'code' ? codeLanguage(code[2]) : undefined;
+      blocks.push({ type: 'codeBlock', ...(language && { attrs: { language } }), content: content ? [{ type: 'text', text: content }] : [] });
+      continue;
+    }
+
+    const macro = new RegExp(`^\\{(${BLOCK_MACROS.join('|')})(?::([^}]*))?\\}(.*)$`).exec(trimmed);
+    if (macro) {
+      flushParagraph();
+      const closing = `{${macro[1]}}`;
+      const body: string[] = [];
+      let rest = macro[3];
+      while (!rest.includes(closing) && index + 1 < lines.length) {
+        body.push(rest);
+        rest = lines[++index];
+      }
+      body.push(rest.includes(closing) ? rest.slice(0, rest.indexOf(closing)) : rest);
+      const content = parseBlocks(body.join('\n'));
+      if (macro[1] === 'quote') {
+        blocks.push({ type: 'blockquote', content });
+      } else {
+        const title = /title=([^|}]*)/.exec(macro[2] || '')?.[1].trim().toLowerCase() || '';
+        const panelType = PANEL_TYPES[macro[1]] || PANEL_TYPES[title] || 'info';
+        blocks.push({ type: 'panel', attrs: { panelType }, content });
+      }
+      continue;
+    }
+
+    const heading = /^h([1-6])\.\s+(.*)$/.exec(trimmed);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', attrs: { level: Number(heading[1]) }, content: parseInline(heading[2]) });
+      continue;
+    }
+
+    const quote = /^bq\.\s+(.*)$/.exec(trimmed);
+    if (quote) {
+      flushParagraph();
+      blocks.push({ type: 'blockquote', content: [{ type: 'paragraph', content: parseInline(quote[1]) }] });
+      continue;
+    }
+
+    if (/^-{4,}$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    if (trimmed.startsWith('|')) {
+      flushParagraph();
+      const rows: AdfNode[] = [];
+      for (; index < lines.length && lines[index].trim().startsWith('|'); index++) {
+        rows.push({
+          type: 'tableRow',
+          content: splitTableRow(lines[index].trim()).map(cell => ({
+            type: cell.header ? 'tableHeader' : 'tableCell',
+            content: [{ type: 'paragraph', content: parseInline(cell.text) }]
+          }))
+        });
+      }
+      index--;
+      blocks.push({ type: 'table', content: rows });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Converts Jira wiki markup to an ADF document.
+ */
+export function wikiToAdf(wiki: string): AdfDocument {
+  return { type: 'doc', version: 1, content: parseBlocks(wiki || '') };
+}
+
+function escapeWiki(text: string): string {
+  let result = '';
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const previous = text[index - 1];
+    const next = text[index + 1];
+    if ('{}[]|'.includes(char)) {
+      result += `\\${char}`;
+    } else if (MARK_CHARS.includes(char)) {
+      // Only characters that could open or close a mark need escaping
+      const opens = !isWordChar(previous) && !isSpace(next);
+      const closes = !isSpace(previous) && !isWordChar(next);
+      result += opens || closes ? `\\${char}` : char;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function wrapWikiMarks(text: string, marks: AdfMark[] = []): string {
+  let result = text;
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'strong':
+        result = `*${result}*`;
+        break;
+      case 'em':
+        result = `_${result}_`;
+        break;
+      case 'strike':
+        result = `-${result}-`;
+        break;
+      case 'underline':
+        result = `+${result}+`;
+        break;
+      case 'subsup':
+        result = mark.attrs?.type === 'sub' ? `~${result}~` : `^${result}^`;
+        break;
+      case 'textColor':
+        result = `{color:${mark.attrs?.color}}${result}{color}`;
+        break;
+    }
+  }
+  const link = marks.find(mark => mark.type === 'link');
+  if (link) {
+    const href = String(link.attrs?.href || '');
+    result = result === escapeWiki(href) ? `[${href}]` : `[${result}|${href}]`;
+  }
+  return result;
+}
+
+function renderInline(nodes: AdfNode[] = []): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': {
+        const isCode = node.marks?.some(mark => mark.type === 'code');
+        const text = isCode ? `{{${node.text || ''}}}` : escapeWiki(node.text || '');
+        return wrapWikiMarks(text, node.marks?.filter(mark => mark.type !== 'code'));
+      }
+      case 'hardBreak':
+        return '\n';
+      case 'mention':
+        return `[~${node.attrs?.id || ''}]`;
+      case 'emoji':
+        return String(node.attrs?.text || node.attrs?.shortName || '');
+      case 'inlineCard':
+      case 'blockCard':
+        return node.attrs?.url ? `[${node.attrs.url}]` : '';
+      case 'date':
+        return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+      case 'status':
+        return node.attrs?.text ? `*${escapeWiki(String(node.attrs.text))}*` : '';
+      default:
+        return node.content ? renderInline(node.content) : escapeWiki(node.text || '');
+    }
+  }).join('');
+}
+
+/** Inline content on a single line, where a newline would end the block */
+function renderLine(nodes: AdfNode[] = []): string {
+  return renderInline(nodes).replace(/\n/g, ' \\\\ ');
+}
+
+function renderList(list: AdfNode, prefix: string): string {
+  const marker = prefix + (list.type === 'orderedList' ? '#' : '*');
+  return (list.content || []).map(item => {
+    if (item.type === 'taskItem') {
+      return `${marker} ${item.attrs?.state === 'DONE' ? '(/) ' : ''}${renderLine(item.content)}`;
+    }
+
+    const [first, ...rest] = item.content || [];
+    const startsWithText = first?.type === 'paragraph';
+    const lines = [`${marker} ${startsWithText ? renderLine(first.content) : ''}`];
+    for (const child of startsWithText ? rest : item.content || []) {
+      lines.push(child.type === 'bulletList' || child.type === 'orderedList' ? renderList(child, marker) : renderBlock(child));
+    }
+    return lines.filter(Boolean).join('\n');
+  }).join('\n');
+}
+
+function renderBlock(node: AdfNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(node.content);
+    case 'heading':
+      return `h${Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6)}. ${renderLine(node.content)}`;
+    case 'bulletList':
+    case 'orderedList':
+      return renderList(node, '');
+    case 'taskList':
+      return renderList({ ...node, type: 'bulletList' }, '');
+    case 'codeBlock': {
+      const code = (node.content || []).map(child => child.text || '').join('');
+      return node.attrs?.language ? `{code:${node.attrs.language}}\n${code}\n{code}` : `{noformat}\n${code}\n{noformat}`;
+    }
+    case 'blockquote':
+      return `{quote}\n${renderBlocks(node.content || [])}\n{quote}`;
+    case 'panel':
+      return `{panel:title=${PANEL_TITLES[String(node.attrs?.panelType)] || 'Info'}}\n${renderBlocks(node.content || [])}\n{panel}`;
+    case 'rule':
+      return '----';
+    case 'table':
+      return (node.content || []).map(row => {
+        const cells = (row.content || []).map(cell => {
+          const separator = cell.type === 'tableHeader' ? '||' : '|';
+          const text = (cell.content || []).map(block => renderLine(block.content)).join(' \\\\ ');
+          return `${separator}${text || ' '}`;
+        });
+        const last = row.content?.[row.content.length - 1];
+        return `${cells.join('')}${last?.type === 'tableHeader' ? '||' : '|'}`;
+      }).join('\n');
+    case 'expand':
+    case 'nestedExpand':
+      return [node.attrs?.title ? `*${escapeWiki(String(node.attrs.title))}*` : '', renderBlocks(node.content || [])].filter(Boolean).join('\n\n');
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return (node.content || []).map(media => `Attachment: ${escapeWiki(String(media.attrs?.alt || media.attrs?.id || 'file'))}`).join('\n');
+    default:
+      return node.content ? renderBlocks(node.content) : escapeWiki(node.text || '');
+  }
+}
+
+function renderBlocks(nodes: AdfNode[]): string {
+  return nodes.map(renderBlock).filter(block => block !== '').join('\n\n');
+}
+
+/**
+ * Converts an ADF document (or node) to Jira wiki markup.
+ */
+export function adfToWiki(adf: AdfNode): string {
+  if (!adf) {
+    return '';
+  }
+  return (adf.type === 'doc' ? renderBlocks(adf.content || []) : renderBlock(adf)).trim();
+}
+
+/**
+ * Converts Markdown to Jira wiki markup.
+ */
+export function markdownToWiki(markdown: string): string {
+  return adfToWiki(markdownToAdf(markdown));
+}
+
+/**
+ * Converts Jira wiki markup to Markdown.
+ */
+export function wikiToMarkdown(wiki: string): string {
+  return adfToMarkdown(wikiToAdf(wiki));
+}
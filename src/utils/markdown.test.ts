@@ -0,0 +1,80 @@
+import { markdownToStorage, storageToMarkdown } from './markdown.js';
+
+const roundTrip = (markdown: string) => storageToMarkdown(markdownToStorage(markdown));
+
+describe('markdownToStorage', () => {
+  it('converts headings and links to XHTML', () => {
+    expect(markdownToStorage('# Title\n\n## Section\n\nSee [Docs](https://example.com/docs)')).toBe(
+      '<h1>Title</h1>\n<h2>Section</h2>\n<p>See <a href="https://example.com/docs">Docs</a></p>'
+    );
+  });
+
+  it('converts code blocks to the code macro with their language', () => {
+    expect(markdownToStorage('```typescript\nconst a = 1 < 2;\n```')).toBe(
+      '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">typescript</ac:parameter>' +
+      '<ac:plain-text-body><![CDATA[const a = 1 < 2;]]></ac:plain-text-body></ac:structured-macro>'
+    );
+  });
+
+  it('keeps "]]>" in code from ending the CDATA section', () => {
+    expect(markdownToStorage('```\na]]>b\n```')).toContain('<![CDATA[a]]]]><![CDATA[>b]]>');
+  });
+
+  it('converts alerts to panel macros and checkbox lists to tasks', () => {
+    expect(markdownToStorage('> [!WARNING]\n> Careful')).toBe(
+      '<ac:structured-macro ac:name="warning"><ac:rich-text-body><p>Careful</p>\n</ac:rich-text-body></ac:structured-macro>'
+    );
+    expect(markdownToStorage('- [ ] todo\n- [x] done')).toBe(
+      '<ac:task-list>\n' +
+      '<ac:task><ac:task-status>incomplete</ac:task-status><ac:task-body>todo</ac:task-body></ac:task>\n' +
+      '<ac:task><ac:task-status>complete</ac:task-status><ac:task-body>done</ac:task-body></ac:task>\n' +
+      '</ac:task-list>'
+    );
+  });
+});
+
+describe('storageToMarkdown', () => {
+  it('keeps the text of macros it cannot convert and drops the wrapper', () => {
+    const storage =
+      '<p>See <ac:structured-macro ac:name="jira"><ac:parameter ac:name="key">PROJ-1</ac:parameter></ac:structured-macro></p>' +
+      '<ac:structured-macro ac:name="expand"><ac:rich-text-body><p>Hidden <strong>details</strong></p></ac:rich-text-body></ac:structured-macro>' +
+      '<ac:structured-macro ac:name="toc" />';
+    expect(storageToMarkdown(storage)).toBe('See PROJ-1\n\nHidden **details**');
+  });
+
+  it('renders page links by title and drops emoticons', () => {
+    expect(storageToMarkdown('<p>Read <ac:link><ri:page ri:content-title="Runbook" /></ac:link> first<ac:emoticon ac:name="smile" /></p>'))
+      .toBe('Read Runbook first');
+  });
+
+  it('reads code macros without a language', () => {
+    expect(storageToMarkdown('<ac:structured-macro ac:name="noformat"><ac:plain-text-body><![CDATA[a < b]]></ac:plain-text-body></ac:structured-macro>'))
+      .toBe('```\na < b\n```');
+  });
+});
+
+describe('round trip', () => {
+  it('preserves headings, paragraphs and links', () => {
+    const markdown = '# Title\n\n## Section\n\nSee [Docs](https://example.com/docs)';
+    expect(roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('preserves code blocks with their language', () => {
+    const markdown = '```typescript\nconst a = 1 < 2;\n```';
+    expect(roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('preserves nested and ordered lists', () => {
+    const storage = markdownToStorage('- one\n- two\n  - nested\n\n1. first\n2. second');
+    expect(markdownToStorage(storageToMarkdown(storage))).toBe(storage);
+  });
+
+  it('preserves tables', () => {
+    expect(roundTrip('| Name | Value |\n| --- | --- |\n| a | 1 |')).toBe('| Name | Value |\n| ---- | ----- |\n| a    | 1     |');
+  });
+
+  it('preserves panels and tasks', () => {
+    expect(roundTrip('> [!WARNING]\n> Careful')).toBe('> [!WARNING]\n> \n> Careful');
+    expect(roundTrip('- [ ] todo\n- [x] done')).toBe('- [ ] todo\n- [x] done');
+  });
+});
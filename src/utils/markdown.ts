@@ -0,0 +1,326 @@
+import MarkdownIt from 'markdown-it';
+import { JSDOM } from 'jsdom';
+import { NodeHtmlMarkdown, TranslatorConfigObject } from 'node-html-markdown';
+
+/**
+ * Conversion between Markdown and Confluence storage format (XHTML with
+ * ac:/ri: macros). Code blocks map to the `code` macro, GitHub-style alerts
+ * (`> [!INFO]`) map to the info/note/tip/warning panel macros, and task lists
+ * (`- [ ] item`) map to `ac:task-list`.
+ */
+
+const PANEL_MACROS = ['info', 'note', 'tip', 'warning'];
+const PANEL_MARKER_PATTERN = /^\[!(INFO|NOTE|TIP|WARNING)\][ \t]*\n?/i;
+const TASK_MARKER_PATTERN = /^\[([ xX])\][ \t]+/;
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toCdata(str: string): string {
+  // "]]>" cannot appear inside a CDATA section, so split it across two sections
+  return `<![CDATA[${str.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function createMarkdownRenderer(): MarkdownIt {
+  const md = new MarkdownIt({ html: true, xhtmlOut: true, linkify: true });
+
+  // Mark blockquotes that start with an alert marker as panels and list items
+  // that start with a checkbox as tasks, stripping the markers from the text.
+  md.core.ruler.push('confluence_macros', (state) => {
+    const tokens = state.tokens;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.type === 'blockquote_open' && tokens[i + 1]?.type === 'paragraph_open') {
+        const inline = tokens[i + 2];
+        const match = inline?.content.match(PANEL_MARKER_PATTERN);
+        if (match) {
+          token.meta = { panel: match[1].toLowerCase() };
+          stripInlinePrefix(inline, match[0]);
+          if (!inline.content.trim()) {
+            // Marker was alone on its line: drop the now-empty paragraph
+            tokens[i + 1].hidden = true;
+            tokens[i + 3].hidden = true;
+          }
+          const close = findClosing(tokens, i, 'blockquote_open', 'blockquote_close');
+          if (close !== -1) tokens[close].meta = token.meta;
+        }
+      }
+
+      if (token.type === 'bullet_list_open') {
+        const close = findClosing(tokens, i, 'bullet_list_open', 'bullet_list_close');
+        const items = directListItems(tokens, i, close);
+        const isTaskList = items.length > 0 && items.every(index =>
+          TASK_MARKER_PATTERN.test(tokens[index + 2]?.content || '')
+        );
+        if (isTaskList) {
+          token.meta = { taskList: true };
+          tokens[close].meta = token.meta;
+          for (const index of items) {
+            const inline = tokens[index + 2];
+            const match = inline.content.match(TASK_MARKER_PATTERN)!;
+            tokens[index].meta = { taskStatus: match[1] === ' ' ? 'incomplete' : 'complete' };
+            stripInlinePrefix(inline, match[0]);
+          }
+        }
+      }
+    }
+  });
+
+  md.renderer.rules.fence = (tokens, idx) => {
+    const token = tokens[idx];
+    const language = token.info.trim().split(/\s+/)[0];
+    return renderCodeMacro(token.content, language);
+  };
+
+  md.renderer.rules.code_block = (tokens, idx) => renderCodeMacro(tokens[idx].content);
+
+  md.renderer.rules.blockquote_open = (tokens, idx, options, env, self) => {
+    const panel = tokens[idx].meta?.panel;
+    return panel
+      ? `<ac:structured-macro ac:name="${panel}"><ac:rich-text-body>`
+      : self.renderToken(tokens, idx, options);
+  };
+
+  md.renderer.rules.blockquote_close = (tokens, idx, options, env, self) => {
+    return tokens[idx].meta?.panel
+      ? '</ac:rich-text-body></ac:structured-macro>\n'
+      : self.renderToken(tokens, idx, options);
+  };
+
+  md.renderer.rules.bullet_list_open = (tokens, idx, options, env, self) => {
+    return tokens[idx].meta?.taskList ? '<ac:task-list>\n' : self.renderToken(tokens, idx, options);
+  };
+
+  md.renderer.rules.bullet_list_close = (tokens, idx, options, env, self) => {
+    return tokens[idx].meta?.taskList ? '</ac:task-list>\n' : self.renderToken(tokens, idx, options);
+  };
+
+  md.renderer.rules.list_item_open = (tokens, idx, options, env, self) => {
+    const status = tokens[idx].meta?.taskStatus;
+    return status
+      ? `<ac:task><ac:task-status>${status}</ac:task-status><ac:task-body>`
+      : self.renderToken(tokens, idx, options);
+  };
+
+  md.renderer.rules.list_item_close = (tokens, idx, options, env, self) => {
+    const open = findOpening(tokens, idx, 'list_item_open', 'list_item_close');
+    return open !== -1 && tokens[open].meta?.taskStatus
+      ? '</ac:task-body></ac:task>\n'
+      : self.renderToken(tokens, idx, options);
+  };
+
+  return md;
+}
+
+type MarkdownToken = ReturnType<MarkdownIt['parse']>[number];
+
+function renderCodeMacro(code: string, language?: string): string {
+  const languageParam = language
+    ? `<ac:parameter ac:name="language">${escapeXml(language)}</ac:parameter>`
+    : '';
+  return `<ac:structured-macro ac:name="code">${languageParam}<ac:plain-text-body>${toCdata(code.replace(/\n$/, ''))}</ac:plain-text-body></ac:structured-macro>\n`;
+}
+
+function stripInlinePrefix(inline: MarkdownToken, prefix: string): void {
+  inline.content = inline.content.slice(prefix.length);
+  const firstText = inline.children?.find(child => child.type === 'text');
+  if (firstText) {
+    firstText.content = firstText.content.replace(prefix.trimEnd(), '').replace(/^[ \t]+/, '');
+  }
+  // A marker alone on its line is followed by a softbreak that should go too
+  if (inline.children?.[0]?.type === 'text' && !inline.children[0].content && inline.children[1]?.type === 'softbreak') {
+    inline.children.splice(0, 2);
+  }
+}
+
+function findClosing(tokens: MarkdownToken[], openIndex: number, openType: string, closeType: string): number {
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    if (tokens[i].type === openType) depth++;
+    if (tokens[i].type === closeType && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function findOpening(tokens: MarkdownToken[], closeIndex: number, openType: string, closeType: string): number {
+  let depth = 0;
+  for (let i = closeIndex; i >= 0; i--) {
+    if (tokens[i].type === closeType) depth++;
+    if (tokens[i].type === openType && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function directListItems(tokens: MarkdownToken[], openIndex: number, closeIndex: number): number[] {
+  const items: number[] = [];
+  const level = tokens[openIndex].level + 1;
+  for (let i = openIndex + 1; i < closeIndex; i++) {
+    if (tokens[i].type === 'list_item_open' && tokens[i].level === level) {
+      items.push(i);
+    }
+  }
+  return items;
+}
+
+const markdownRenderer = createMarkdownRenderer();
+
+/**
+ * Converts Markdown to Confluence storage format.
+ * @param markdown - The Markdown source
+ * @returns Storage-format XHTML suitable for body.storage.value
+ */
+export function markdownToStorage(markdown: string): string {
+  return markdownRenderer.render(markdown).trim();
+}
+
+const markdownTranslators: TranslatorConfigObject = {
+  'task-box': ({ node }) => ({
+    content: node.getAttribute('data-status') === 'complete' ? '[x] ' : '[ ] ',
+    noEscape: true,
+    preserveIfEmpty: true
+  }),
+  'panel-marker': ({ node }) => ({
+    content: `[!${(node.getAttribute('data-panel') || 'info').toUpperCase()}]`,
+    noEscape: true,
+    preserveIfEmpty: true,
+    surroundingNewlines: 1
+  })
+};
+
+function findChild(element: Element, localName: string, nameAttr?: string): Element | undefined {
+  return Array.from(element.children).find(child =>
+    child.localName === localName && (!nameAttr || child.getAttribute('ac:name') === nameAttr)
+  );
+}
+
+function replaceWithChildren(element: Element, source: Element | undefined = element): void {
+  const fragment = element.ownerDocument.createDocumentFragment();
+  if (source) {
+    while (source.firstChild) fragment.appendChild(source.firstChild);
+  }
+  element.replaceWith(fragment);
+}
+
+function convertMacro(document: Document, macro: Element): void {
+  const name = macro.getAttribute('ac:name') || '';
+
+  if (name === 'code' || name === 'noformat') {
+    const pre = document.createElement('pre');
+    const code = document.createElement('code');
+    const language = findChild(macro, 'ac:parameter', 'language')?.textContent;
+    if (language) code.className = `language-${language}`;
+    code.textContent = findChild(macro, 'ac:plain-text-body')?.textContent || '';
+    pre.appendChild(code);
+    macro.replaceWith(pre);
+    return;
+  }
+
+  if (PANEL_MACROS.includes(name)) {
+    const quote = document.createElement('blockquote');
+    const marker = document.createElement('panel-marker');
+    marker.setAttribute('data-panel', name);
+    quote.appendChild(marker);
+    const body = findChild(macro, 'ac:rich-text-body');
+    if (body) {
+      while (body.firstChild) quote.appendChild(body.firstChild);
+    }
+    macro.replaceWith(quote);
+    return;
+  }
+
+  // Unknown macros keep whatever body they have and lose the wrapper
+  replaceWithChildren(macro, findChild(macro, 'ac:rich-text-body') || findChild(macro, 'ac:plain-text-body'));
+}
+
+function convertTaskList(document: Document, taskList: Element): void {
+  const list = document.createElement('ul');
+  for (const task of Array.from(taskList.children).filter(child => child.localName === 'ac:task')) {
+    const item = document.createElement('li');
+    const box = document.createElement('task-box');
+    box.setAttribute('data-status', findChild(task, 'ac:task-status')?.textContent?.trim() || 'incomplete');
+    item.appendChild(box);
+    const body = findChild(task, 'ac:task-body');
+    if (body) {
+      while (body.firstChild) item.appendChild(body.firstChild);
+    }
+    list.appendChild(item);
+  }
+  taskList.replaceWith(list);
+}
+
+function convertLink(document: Document, link: Element): void {
+  const body = findChild(link, 'ac:plain-text-link-body') || findChild(link, 'ac:link-body');
+  const resource = Array.from(link.children).find(child => child.localName.startsWith('ri:'));
+  const text = body?.textContent
+    || resource?.getAttribute('ri:content-title')
+    || resource?.getAttribute('ri:filename')
+    || resource?.getAttribute('ri:username')
+    || resource?.getAttribute('ri:account-id')
+    || '';
+  link.replaceWith(document.createTextNode(text));
+}
+
+function convertImage(document: Document, image: Element): void {
+  const resource = Array.from(image.children).find(child => child.localName.startsWith('ri:'));
+  const src = resource?.getAttribute('ri:value') || resource?.getAttribute('ri:filename') || '';
+  const img = document.createElement('img');
+  img.setAttribute('src', src);
+  img.setAttribute('alt', image.getAttribute('ac:alt') || resource?.getAttribute('ri:filename') || '');
+  image.replaceWith(img);
+}
+
+/**
+ * Converts Confluence storage format to Markdown.
+ * @param storage - Storage-format XHTML from body.storage.value
+ * @returns Markdown rendering of the content
+ */
+export function storageToMarkdown(storage: string): string {
+  // The HTML parser does not understand CDATA sections or self-closing custom
+  // elements, so normalise both before handing the markup to jsdom.
+  const html = storage
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => escapeXml(text))
+    .replace(/<((?:ac|ri):[\w-]+)([^>]*?)\s*\/>/g, '<$1$2></$1>');
+
+  const { document } = new JSDOM('<!DOCTYPE html><body></body>').window;
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  // Walk in document order over a static snapshot: converting an outer macro
+  // moves its body into the replacement, where nested macros are still visited.
+  for (const element of Array.from(container.querySelectorAll('*'))) {
+    if (!container.contains(element)) continue;
+
+    switch (element.localName) {
+      case 'ac:structured-macro':
+      case 'ac:macro':
+        convertMacro(document, element);
+        break;
+      case 'ac:task-list':
+        convertTaskList(document, element);
+        break;
+      case 'ac:link':
+        convertLink(document, element);
+        break;
+      case 'ac:image':
+        convertImage(document, element);
+        break;
+      case 'ac:emoticon':
+      case 'ac:placeholder':
+        element.remove();
+        break;
+      default:
+        if (element.localName.startsWith('ac:') || element.localName.startsWith('ri:')) {
+          replaceWithChildren(element);
+        }
+    }
+  }
+
+  return NodeHtmlMarkdown.translate(container.innerHTML, { bulletMarker: '-' }, markdownTranslators).trim();
+}
@@ -4,6 +4,7 @@ import { randomBytes } from 'crypto';
 import { Logger } from './logger.js';
 import axios from 'axios';
 import { getProxyConfig } from './proxy.js';
+import { getTokenStorePath, saveOAuthTokens } from './oauth.js';
 
 const logger = new Logger('oauth-setup');
 
@@ -53,6 +54,15 @@ export async function runOAuthSetup(): Promise<void> {
       config.cloudId = await getCloudId(tokens.access_token);
     }
     
+    // Persist tokens so the server can use and refresh them
+    await saveOAuthTokens({
+      clientId: config.clientId,
+      cloudId: config.cloudId,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined
+    });
+    
     // Display results
     displayResults(config, tokens);
     
@@ -294,8 +304,9 @@ function displayResults(config: OAuthConfig, tokens: any): void {
   if (tokens.refresh_token) {
     logger.info(`ATLASSIAN_OAUTH_REFRESH_TOKEN=${maskSecret(tokens.refresh_token)}`);
   }
+  logger.info(`\nTokens have been saved to ${getTokenStorePath()} and will be refreshed automatically.`);
   logger.info('\n⚠️  Keep these credentials secure and do not commit them to version control!');
-  logger.info('⚠️  Token values have been masked above. Copy full tokens during setup or re-run to generate new ones.');
+  logger.info('⚠️  Token values have been masked above. The server reads them from the token store, so they do not need to be copied.');
   
   // Also show URLs
   const baseUrl = `https://api.atlassian.com/ex/jira/${config.cloudId}`;
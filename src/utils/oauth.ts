@@ -0,0 +1,247 @@
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { Logger } from './logger.js';
+import { getProxyConfig } from './proxy.js';
+
+const logger = new Logger('oauth');
+
+const TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+const API_BASE_URL = 'https://api.atlassian.com/ex';
+
+// Refresh this long before the access token actually expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+export interface OAuthClientConfig {
+  clientId: string;
+  clientSecret: string;
+  cloudId: string;
+  accessToken?: string;
+  refreshToken?: string;
+  tokenStorePath?: string;
+}
+
+/**
+ * Token data persisted in the local token store.
+ */
+export interface StoredOAuthTokens {
+  clientId: string;
+  cloudId?: string;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+/**
+ * Returns the path of the local OAuth token store.
+ */
+export function getTokenStorePath(): string {
+  return process.env.ATLASSIAN_OAUTH_TOKEN_STORE || join(homedir(), '.mcp-atlassian', 'oauth-tokens.json');
+}
+
+async function loadTokens(path: string): Promise<StoredOAuthTokens | null> {
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes OAuth tokens to the local token store, readable only by the current user.
+ * @param tokens - The tokens to persist
+ * @param path - Token store path (default: getTokenStorePath())
+ */
+export async function saveOAuthTokens(tokens: StoredOAuthTokens, path: string = getTokenStorePath()): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await fs.writeFile(path, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Supplies OAuth 2.0 (3LO) access tokens for Atlassian Cloud, refreshing them
+ * before expiry or after a 401 and persisting rotated refresh tokens.
+ */
+export class OAuthTokenProvider {
+  private accessToken?: string;
+  private refreshToken?: string;
+  private expiresAt?: number;
+  private refreshing: Promise<string> | null = null;
+  private loaded: Promise<void> | null = null;
+  private tokenStorePath: string;
+
+  constructor(private config: OAuthClientConfig) {
+    this.accessToken = config.accessToken;
+    this.refreshToken = config.refreshToken;
+    this.tokenStorePath = config.tokenStorePath || getTokenStorePath();
+  }
+
+  /**
+   * Returns the api.atlassian.com base URL for the given product.
+   */
+  getApiBaseUrl(product: 'jira' | 'confluence'): string {
+    const base = `${API_BASE_URL}/${product}/${this.config.cloudId}`;
+    return product === 'confluence' ? `${base}/wiki` : base;
+  }
+
+  /**
+   * Returns a valid access token, refreshing it first if it is about to expire.
+   * @param forceRefresh - Refresh even if the current token looks valid
+   */
+  async getAccessToken(forceRefresh: boolean = false): Promise<string> {
+    await this.loadStoredTokens();
+
+    const expired = this.expiresAt !== undefined && Date.now() >= this.expiresAt - EXPIRY_MARGIN_MS;
+    if (this.accessToken && !expired && !forceRefresh) {
+      return this.accessToken;
+    }
+
+    if (!this.refreshToken) {
+      if (this.accessToken && !forceRefresh) {
+        return this.accessToken;
+      }
+      throw new Error('OAuth access token expired and no refresh token is available. Re-run --oauth-setup');
+    }
+
+    // Share a single in-flight refresh between concurrent requests
+    if (!this.refreshing) {
+      this.refreshing = this.refresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Installs interceptors that add the bearer token to every request and
+   * retry once with a refreshed token when a request fails with 401.
+   */
+  attach(client: AxiosInstance): void {
+    client.interceptors.request.use(async (config) => {
+      const token = await this.getAccessToken();
+      config.headers.set('Authorization', `Bearer ${token}`);
+      return config;
+    });
+
+    client.interceptors.response.use(undefined, async (error) => {
+      const config = error instanceof AxiosError
+        ? error.config as (InternalAxiosRequestConfig & { oauthRetried?: boolean }) | undefined
+        : undefined;
+      if (!config || error.response?.status !== 401 || config.oauthRetried || !this.refreshToken) {
+        throw error;
+      }
+
+      config.oauthRetried = true;
+
+      // Another request may already have refreshed the token this one was sent with
+      const staleToken = config.headers.get('Authorization') !== `Bearer ${this.accessToken}`;
+      if (!staleToken) {
+        logger.info('Received 401, refreshing OAuth access token');
+      }
+      const token = await this.getAccessToken(!staleToken);
+      config.headers.set('Authorization', `Bearer ${token}`);
+      return client.request(config);
+    });
+  }
+
+  private loadStoredTokens(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const stored = await loadTokens(this.tokenStorePath);
+        if (!stored || stored.clientId !== this.config.clientId) {
+          return;
+        }
+        if (stored.cloudId && stored.cloudId !== this.config.cloudId) {
+          return;
+        }
+        // The store holds the most recently rotated tokens, so it wins over env values
+        this.accessToken = stored.accessToken;
+        this.refreshToken = stored.refreshToken || this.refreshToken;
+        this.expiresAt = stored.expiresAt;
+        logger.debug(`Loaded OAuth tokens from ${this.tokenStorePath}`);
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async refresh(): Promise<string> {
+    const proxyConfig = getProxyConfig('atlassian', TOKEN_URL);
+
+    try {
+      const response = await axios.post(TOKEN_URL, {
+        grant_type: 'refresh_token',
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        refresh_token: this.refreshToken
+      }, {
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        proxy: false,
+        ...proxyConfig
+      });
+
+      const tokens = response.data;
+      this.accessToken = tokens.access_token;
+      // Atlassian rotates refresh tokens; keep the old one if none was returned
+      this.refreshToken = tokens.refresh_token || this.refreshToken;
+      this.expiresAt = tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined;
+
+      logger.info('OAuth access token refreshed');
+      await this.persist();
+
+      return tokens.access_token;
+    } catch (error) {
+      const reason = (error instanceof AxiosError && error.response?.data?.error_description)
+        || (error instanceof Error ? error.message : 'Unknown error');
+      logger.error(`Failed to refresh OAuth access token: ${reason}`);
+      throw new Error(`Failed to refresh OAuth access token: ${reason}`, { cause: error });
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await saveOAuthTokens({
+        clientId: this.config.clientId,
+        cloudId: this.config.cloudId,
+        accessToken: this.accessToken!,
+        refreshToken: this.refreshToken,
+        expiresAt: this.expiresAt
+      }, this.tokenStorePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Could not persist OAuth tokens to ${this.tokenStorePath}: ${errorMessage}`);
+    }
+  }
+}
+
+let sharedProvider: OAuthTokenProvider | null | undefined;
+
+/**
+ * Returns the OAuth token provider configured through ATLASSIAN_OAUTH_* environment
+ * variables, or null if OAuth is not configured. The instance is shared so that
+ * Jira and Confluence use (and rotate) the same tokens.
+ */
+export function getOAuthProvider(): OAuthTokenProvider | null {
+  if (sharedProvider !== undefined) {
+    return sharedProvider;
+  }
+
+  const clientId = process.env.ATLASSIAN_OAUTH_CLIENT_ID;
+  const clientSecret = process.env.ATLASSIAN_OAUTH_CLIENT_SECRET;
+  const cloudId = process.env.ATLASSIAN_OAUTH_CLOUD_ID;
+
+  if (!clientId || !clientSecret || !cloudId) {
+    sharedProvider = null;
+    return sharedProvider;
+  }
+
+  sharedProvider = new OAuthTokenProvider({
+    clientId,
+    clientSecret,
+    cloudId,
+    accessToken: process.env.ATLASSIAN_OAUTH_ACCESS_TOKEN,
+    refreshToken: process.env.ATLASSIAN_OAUTH_REFRESH_TOKEN
+  });
+  return sharedProvider;
+}
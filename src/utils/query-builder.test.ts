@@ -0,0 +1,106 @@
+import { assertBalancedParentheses, combineQuery, compileQuery, resolveQuery, splitOrderBy } from './query-builder.js';
+import { ValidationError } from './errors.js';
+
+describe('compileQuery', () => {
+  it('ANDs clauses by default and ORs them with match any', () => {
+    const clauses = [
+      { field: 'project', operator: '=' as const, value: 'PROJ' },
+      { field: 'status', operator: 'in' as const, value: ['Open', 'In Progress'] }
+    ];
+    expect(compileQuery({ clauses }, 'jql')).toBe('(project = "PROJ" AND status IN ("Open", "In Progress"))');
+    expect(compileQuery({ clauses, match: 'any' }, 'jql')).toBe('(project = "PROJ" OR status IN ("Open", "In Progress"))');
+  });
+
+  it('quotes field names that need it and values that contain quotes', () => {
+    expect(compileQuery({ clauses: [{ field: 'Story Points', operator: '>', value: 3 }] }, 'jql')).toBe('"Story Points" > 3');
+    expect(compileQuery({ clauses: [{ field: 'cf[10010]', operator: '=', value: 'say "hi"\\' }] }, 'jql'))
+      .toBe('cf[10010] = "say \\"hi\\"\\\\"');
+  });
+
+  it('compiles functions and empty checks', () => {
+    expect(compileQuery({
+      clauses: [
+        { field: 'assignee', operator: '=', value: { function: 'currentUser' } },
+        { field: 'created', operator: '>=', value: { function: 'startOfWeek', args: ['-1'] } },
+        { field: 'resolution', operator: 'IS EMPTY' as 'is empty' }
+      ]
+    }, 'jql')).toBe('(assignee = currentUser() AND created >= startOfWeek("-1") AND resolution IS EMPTY)');
+  });
+
+  it('escapes Lucene syntax in text searches', () => {
+    expect(compileQuery({ text: 'C++ (beta)' }, 'cql')).toBe('text ~ "C\\\\+\\\\+ \\\\(beta\\\\)"');
+  });
+
+  it('compiles date ranges for each language', () => {
+    const query = { dateRanges: [{ field: 'created', from: '-7d', to: '2024-05-02' }] };
+    expect(compileQuery(query, 'jql')).toBe('created >= "-7d" AND created <= "2024-05-02"');
+    expect(compileQuery(query, 'cql')).toBe('created >= now("-7d") AND created <= "2024-05-02"');
+  });
+
+  it('appends the sort order', () => {
+    expect(compileQuery({
+      clauses: [{ field: 'project', operator: '=', value: 'PROJ' }],
+      orderBy: [{ field: 'priority', direction: 'desc' }, { field: 'created' }]
+    }, 'jql')).toBe('project = "PROJ" ORDER BY priority DESC, created');
+    expect(compileQuery({ orderBy: [{ field: 'updated', direction: 'asc' }] }, 'jql')).toBe('ORDER BY updated ASC');
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => compileQuery({}, 'jql')).toThrow(ValidationError);
+    expect(() => compileQuery({ clauses: [{ field: 'status', operator: 'like' as '=', value: 'x' }] }, 'jql')).toThrow('Unknown query operator');
+    expect(() => compileQuery({ clauses: [{ field: 'status', operator: 'in', value: [] }] }, 'jql')).toThrow('non-empty list');
+    expect(() => compileQuery({ clauses: [{ field: 'status', operator: '=', value: ['a'] }] }, 'jql')).toThrow('single value');
+    expect(() => compileQuery({ clauses: [{ field: 'x', operator: '=', value: { function: 'drop table' } }] }, 'jql')).toThrow('Invalid query function');
+    expect(() => compileQuery({ dateRanges: [{ field: 'created', from: 'yesterday' }] }, 'jql')).toThrow('Invalid date');
+    expect(() => compileQuery({ dateRanges: [{ field: 'created' }] }, 'jql')).toThrow('needs from, to or both');
+  });
+});
+
+describe('resolveQuery', () => {
+  it('takes exactly one of the raw and structured query', () => {
+    expect(resolveQuery('project = PROJ', undefined, 'jql')).toBe('project = PROJ');
+    expect(resolveQuery(undefined, { text: 'login' }, 'cql')).toBe('text ~ "login"');
+    expect(() => resolveQuery('project = PROJ', { text: 'login' }, 'jql')).toThrow('not both');
+    expect(() => resolveQuery(undefined, undefined, 'cql')).toThrow('A CQL string or structuredQuery is required');
+  });
+});
+
+describe('splitOrderBy', () => {
+  it('ignores ORDER BY inside strings and parentheses', () => {
+    expect(splitOrderBy('summary ~ "order by" ORDER BY created DESC')).toEqual({ where: 'summary ~ "order by"', orderBy: 'created DESC' });
+    expect(splitOrderBy('key in (order by)')).toEqual({ where: 'key in (order by)' });
+    expect(splitOrderBy('order by rank')).toEqual({ where: '', orderBy: 'rank' });
+  });
+});
+
+describe('combineQuery', () => {
+  it('keeps an OR in the query inside the filter', () => {
+    expect(combineQuery(['project in ("A", "B")'], 'assignee = currentUser() OR reporter = currentUser() ORDER BY updated DESC'))
+      .toBe('project in ("A", "B") AND (assignee = currentUser() OR reporter = currentUser()) ORDER BY updated DESC');
+  });
+
+  it('handles queries that only sort', () => {
+    expect(combineQuery(['space = "DEV"'], 'ORDER BY created')).toBe('space = "DEV" ORDER BY created');
+  });
+
+  it('returns the query unchanged without filters', () => {
+    expect(combineQuery([], 'a = 1 OR b = 2')).toBe('a = 1 OR b = 2');
+  });
+
+  it('refuses queries whose parentheses could close the filter early', () => {
+    expect(() => combineQuery(['project in ("A")'], 'x = 1) OR (y = 2')).toThrow(ValidationError);
+    expect(() => combineQuery(['project in ("A")'], 'x = 1) OR (y = 2')).toThrow("')' at position 6 has no matching '('");
+    expect(() => combineQuery(['space = "DEV"'], 'x = 1) OR y = 2 ORDER BY (created')).toThrow('Unbalanced parentheses');
+  });
+});
+
+describe('assertBalancedParentheses', () => {
+  it('accepts nested parentheses and ignores those inside strings', () => {
+    expect(() => assertBalancedParentheses('(a = 1 OR (b = 2)) AND summary ~ "smile :)"')).not.toThrow();
+    expect(() => assertBalancedParentheses("text ~ 'it\\'s (not' AND c = 3")).not.toThrow();
+  });
+
+  it('rejects a parenthesis left open', () => {
+    expect(() => assertBalancedParentheses('(a = 1 OR (b = 2)')).toThrow("1 '(' not closed");
+  });
+});
@@ -0,0 +1,272 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * Compiles structured queries to JQL or CQL and combines queries with
+ * filter clauses without changing their meaning.
+ */
+
+export type QueryLanguage = 'jql' | 'cql';
+
+export type QueryOperator =
+  | '=' | '!=' | '>' | '>=' | '<' | '<='
+  | '~' | '!~'
+  | 'in' | 'not in'
+  | 'is empty' | 'is not empty';
+
+/** A literal value, or a function call such as currentUser() or startOfWeek("-1") */
+export type QueryValue = string | number | { function: string; args?: string[] };
+
+export interface QueryClause {
+  field: string;
+  operator: QueryOperator;
+  /** A list for in / not in, nothing for is empty / is not empty, a single value otherwise */
+  value?: QueryValue | QueryValue[];
+}
+
+export interface DateRange {
+  field: string;
+  /** Inclusive lower bound: yyyy-MM-dd, "yyyy-MM-dd HH:mm" or a relative period such as -7d */
+  from?: string;
+  /** Inclusive upper bound, in the same formats */
+  to?: string;
+}
+
+export interface StructuredQuery {
+  clauses?: QueryClause[];
+  /** Whether all clauses must match or any of them (default: all) */
+  match?: 'all' | 'any';
+  /** Free text searched in summary, description and comments (Jira) or title and body (Confluence) */
+  text?: string;
+  dateRanges?: DateRange[];
+  orderBy?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+}
+
+const OPERATORS: QueryOperator[] = ['=', '!=', '>', '>=', '<', '<=', '~', '!~', 'in', 'not in', 'is empty', 'is not empty'];
+const PLAIN_FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+const CUSTOM_FIELD_PATTERN = /^cf\[\d+\]$/;
+const FUNCTION_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}[-/]\d{2}[-/]\d{2}( \d{2}:\d{2})?$/;
+const RELATIVE_DATE_PATTERN = /^[-+]?\d+[wdhm]$/;
+// Characters with a meaning in the Lucene syntax used by the ~ operator
+const LUCENE_SPECIAL_CHARS = /[+\-&|!(){}[\]^"~*?:\\/]/g;
+
+/**
+ * Quotes a value as a JQL/CQL string literal.
+ */
+export function quoteQueryValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function compileField(field: string): string {
+  const name = String(field ?? '').trim();
+  if (!name) {
+    throw new ValidationError('Query clause field must not be empty');
+  }
+  // Names such as "Story Points" must be quoted; cf[10010] must not
+  return PLAIN_FIELD_PATTERN.test(name) || CUSTOM_FIELD_PATTERN.test(name) ? name : quoteQueryValue(name);
+}
+
+function compileValue(value: QueryValue, textSearch: boolean): string {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new ValidationError(`Invalid query value: ${value}`);
+    }
+    return String(value);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    if (!FUNCTION_NAME_PATTERN.test(value.function || '')) {
+      throw new ValidationError(`Invalid query function: ${value.function}`);
+    }
+    return `${value.function}(${(value.args || []).map(arg => quoteQueryValue(String(arg))).join(', ')})`;
+  }
+
+  if (typeof value !== 'string') {
+    throw new ValidationError(`Invalid query value: ${JSON.stringify(value)}`);
+  }
+
+  // Text searches match words literally rather than as Lucene syntax
+  return quoteQueryValue(textSearch ? value.replace(LUCENE_SPECIAL_CHARS, '\\$&') : value);
+}
+
+function compileClause(clause: QueryClause): string {
+  const operator = String(clause.operator ?? '').trim().toLowerCase() as QueryOperator;
+  if (!OPERATORS.includes(operator)) {
+    throw new ValidationError(`Unknown query operator '${clause.operator}'. Use one of: ${OPERATORS.join(', ')}`);
+  }
+
+  const field = compileField(clause.field);
+
+  if (operator === 'is empty' || operator === 'is not empty') {
+    return `${field} ${operator.toUpperCase()}`;
+  }
+
+  if (operator === 'in' || operator === 'not in') {
+    if (!Array.isArray(clause.value) || clause.value.length === 0) {
+      throw new ValidationError(`Operator '${operator}' on ${clause.field} needs a non-empty list of values`);
+    }
+    return `${field} ${operator.toUpperCase()} (${clause.value.map(value => compileValue(value, false)).join(', ')})`;
+  }
+
+  if (clause.value === undefined || clause.value === null || Array.isArray(clause.value)) {
+    throw new ValidationError(`Operator '${operator}' on ${clause.field} needs a single value`);
+  }
+  return `${field} ${operator} ${compileValue(clause.value, operator === '~' || operator === '!~')}`;
+}
+
+function compileDate(value: string, language: QueryLanguage): string {
+  const date = String(value).trim();
+  if (RELATIVE_DATE_PATTERN.test(date)) {
+    // JQL takes relative periods as values; CQL only through now()
+    return language === 'jql' ? quoteQueryValue(date) : `now(${quoteQueryValue(date)})`;
+  }
+  if (DATE_PATTERN.test(date)) {
+    return quoteQueryValue(date);
+  }
+  throw new ValidationError(`Invalid date '${value}': use yyyy-MM-dd, "yyyy-MM-dd HH:mm" or a relative period such as -7d`);
+}
+
+/**
+ * Compiles a structured query to JQL or CQL. Clauses are combined with the
+ * match mode; text and date ranges always narrow the result further.
+ */
+export function compileQuery(query: StructuredQuery, language: QueryLanguage): string {
+  if (!query || typeof query !== 'object') {
+    throw new ValidationError('Structured query must be an object');
+  }
+
+  const conditions: string[] = [];
+
+  const clauses = (query.clauses || []).map(compileClause);
+  if (clauses.length > 0) {
+    const joined = clauses.join(query.match === 'any' ? ' OR ' : ' AND ');
+    conditions.push(clauses.length > 1 ? `(${joined})` : joined);
+  }
+
+  if (query.text?.trim()) {
+    conditions.push(`text ~ ${compileValue(query.text.trim(), true)}`);
+  }
+
+  for (const range of query.dateRanges || []) {
+    if (!range.from && !range.to) {
+      throw new ValidationError(`Date range on ${range.field} needs from, to or both`);
+    }
+    const field = compileField(range.field);
+    if (range.from) {
+      conditions.push(`${field} >= ${compileDate(range.from, language)}`);
+    }
+    if (range.to) {
+      conditions.push(`${field} <= ${compileDate(range.to, language)}`);
+    }
+  }
+
+  let compiled = conditions.join(' AND ');
+
+  if (query.orderBy?.length) {
+    const order = query.orderBy.map(({ field, direction }) => {
+      if (direction && direction !== 'asc' && direction !== 'desc') {
+        throw new ValidationError(`Invalid sort direction '${direction}': use asc or desc`);
+      }
+      return `${compileField(field)}${direction ? ` ${direction.toUpperCase()}` : ''}`;
+    });
+    compiled = `${compiled} ORDER BY ${order.join(', ')}`.trim();
+  }
+
+  if (!compiled) {
+    throw new ValidationError('Structured query is empty: give clauses, text, dateRanges or orderBy');
+  }
+  return compiled;
+}
+
+/**
+ * Returns the query to run from either a raw query string or a structured
+ * query, of which exactly one must be given.
+ */
+export function resolveQuery(raw: string | undefined, structured: StructuredQuery | undefined, language: QueryLanguage): string {
+  const label = language.toUpperCase();
+  if (raw?.trim() && structured) {
+    throw new ValidationError(`Pass either a ${label} string or structuredQuery, not both`);
+  }
+  if (structured) {
+    return compileQuery(structured, language);
+  }
+  if (raw === undefined || raw === null) {
+    throw new ValidationError(`A ${label} string or structuredQuery is required`);
+  }
+  return raw;
+}
+
+/**
+ * Splits a query into its condition and its ORDER BY part, ignoring
+ * "order by" inside quoted strings and parentheses.
+ */
+export function splitOrderBy(query: string): { where: string; orderBy?: string } {
+  let quote: string | undefined;
+  let depth = 0;
+
+  for (let index = 0; index < query.length; index++) {
+    const char = query[index];
+    if (quote) {
+      if (char === '\\') {
+        index++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && /[oO]/.test(char) && /\s|^/.test(query[index - 1] ?? '')) {
+      const match = /^order\s+by\s/i.exec(query.slice(index));
+      if (match) {
+        return { where: query.slice(0, index).trim(), orderBy: query.slice(index + match[0].length).trim() };
+      }
+    }
+  }
+
+  return { where: query.trim() };
+}
+
+/**
+ * Throws if a query closes a parenthesis it did not open or leaves one open,
+ * ignoring parentheses inside quoted strings. Such a query could close the
+ * parentheses it is wrapped in and OR its way past a filter.
+ */
+export function assertBalancedParentheses(query: string): void {
+  let quote: string | undefined;
+  let depth = 0;
+
+  for (let index = 0; index < query.length; index++) {
+    const char = query[index];
+    if (quote) {
+      if (char === '\\') {
+        index++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth < 0) {
+      throw new ValidationError(`Unbalanced parentheses in query: ')' at position ${index + 1} has no matching '('. Query: ${query}`);
+    }
+  }
+
+  if (depth > 0) {
+    throw new ValidationError(`Unbalanced parentheses in query: ${depth} '(' not closed. Query: ${query}`);
+  }
+}
+
+/**
+ * ANDs filter clauses with a query, parenthesising the query's condition so
+ * an OR in it cannot escape the filter and keeping its ORDER BY at the end.
+ */
+export function combineQuery(filters: string[], query: string): string {
+  assertBalancedParentheses(query);
+  const { where, orderBy } = splitOrderBy(query);
+  const conditions = [...filters, ...(where ? [filters.length > 0 ? `(${where})` : where] : [])];
+  return `${conditions.join(' AND ')}${orderBy ? ` ORDER BY ${orderBy}` : ''}`;
+}
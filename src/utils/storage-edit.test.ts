@@ -0,0 +1,78 @@
+import { applyPageEdits, splitStorageBlocks } from './storage-edit.js';
+import { ValidationError } from './errors.js';
+
+const page = '<h1>Overview</h1><p>Intro</p><h2>Status</h2><p>Draft</p><h2>Owners</h2><p>Jane</p>';
+const paragraph = (text: string): string => `<p>${text}</p>`;
+
+describe('splitStorageBlocks', () => {
+  it('splits after block elements and rejoins to the input', () => {
+    const storage = '<p>One</p><ul><li>Two</li></ul>\n<p>Three</p>';
+    const blocks = splitStorageBlocks(storage);
+    expect(blocks).toEqual(['<p>One</p>', '<ul><li>Two</li>', '</ul>\n', '<p>Three</p>']);
+    expect(blocks.join('')).toBe(storage);
+  });
+
+  it('returns no blocks for an empty body', () => {
+    expect(splitStorageBlocks('')).toEqual([]);
+  });
+});
+
+describe('applyPageEdits', () => {
+  it('appends to the end of the page', () => {
+    expect(applyPageEdits(page, [{ type: 'append', content: 'Next steps' }], paragraph))
+      .toBe(`${page}<p>Next steps</p>`);
+  });
+
+  it('appends to the end of a section', () => {
+    expect(applyPageEdits(page, [{ type: 'append', heading: 'Status', content: 'Reviewed' }], paragraph))
+      .toBe('<h1>Overview</h1><p>Intro</p><h2>Status</h2><p>Draft</p><p>Reviewed</p><h2>Owners</h2><p>Jane</p>');
+  });
+
+  it('replaces a section up to the next heading of the same level', () => {
+    expect(applyPageEdits(page, [{ type: 'replace_section', heading: '## status', content: 'Final' }], paragraph))
+      .toBe('<h1>Overview</h1><p>Intro</p><h2>Status</h2><p>Final</p><h2>Owners</h2><p>Jane</p>');
+  });
+
+  it('replaces a section that contains lower-level headings', () => {
+    expect(applyPageEdits(page, [{ type: 'replace_section', heading: 'Overview', content: 'Gone' }], paragraph))
+      .toBe('<h1>Overview</h1><p>Gone</p>');
+  });
+
+  it('finds and replaces text outside markup, escaping it as storage', () => {
+    const storage = '<p>Tom &amp; Jerry</p><ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[Tom & Jerry]]></ac:plain-text-body></ac:structured-macro>';
+    const result = applyPageEdits(storage, [{ type: 'find_replace', find: 'Tom & Jerry', replace: 'A < B', all: true }], paragraph);
+    expect(result).toBe('<p>A &lt; B</p><ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[A < B]]></ac:plain-text-body></ac:structured-macro>');
+  });
+
+  it('leaves tag names and attributes alone', () => {
+    expect(() => applyPageEdits('<p class="note">Text</p>', [{ type: 'find_replace', find: 'note', replace: 'x' }], paragraph))
+      .toThrow("Text 'note' was not found on the page");
+  });
+
+  it('requires all for text that appears more than once', () => {
+    const storage = '<p>Draft</p><p>Draft</p>';
+    expect(() => applyPageEdits(storage, [{ type: 'find_replace', find: 'Draft', replace: 'Final' }], paragraph))
+      .toThrow('appears 2 times');
+    expect(applyPageEdits(storage, [{ type: 'find_replace', find: 'Draft', replace: 'Final', all: true }], paragraph))
+      .toBe('<p>Final</p><p>Final</p>');
+  });
+
+  it('applies edits in order', () => {
+    const result = applyPageEdits(page, [
+      { type: 'replace_section', heading: 'Owners', content: 'Bob' },
+      { type: 'find_replace', find: 'Bob', replace: 'Alice' }
+    ], paragraph);
+    expect(result).toBe('<h1>Overview</h1><p>Intro</p><h2>Status</h2><p>Draft</p><h2>Owners</h2><p>Alice</p>');
+  });
+
+  it('lists the headings when the heading is missing', () => {
+    expect(() => applyPageEdits(page, [{ type: 'append', heading: 'Risks', content: 'None' }], paragraph))
+      .toThrow(new ValidationError('Heading \'Risks\' not found on the page. Headings: "Overview", "Status", "Owners"'));
+  });
+
+  it('rejects an ambiguous heading', () => {
+    const storage = '<h2>Notes</h2><p>A</p><h2>Notes</h2><p>B</p>';
+    expect(() => applyPageEdits(storage, [{ type: 'replace_section', heading: 'Notes', content: 'C' }], paragraph))
+      .toThrow('appears 2 times');
+  });
+});
@@ -0,0 +1,164 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * A partial edit of a Confluence page body. Content is given in the page
+ * update's contentFormat and converted to storage format before it is applied.
+ */
+export type PageEdit =
+  /** Add content at the end of the page, or at the end of the section under heading */
+  | { type: 'append'; content: string; heading?: string }
+  /** Replace everything between a heading and the next heading of the same or a higher level */
+  | { type: 'replace_section'; heading: string; content: string }
+  /** Replace text within a single run of text (not across formatting or markup) */
+  | { type: 'find_replace'; find: string; replace: string; all?: boolean };
+
+interface Heading {
+  level: number;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const BLOCK_END = /(?<=<\/(?:p|h[1-6]|li|ul|ol|table|tbody|thead|tr|pre|blockquote|div|ac:structured-macro|ac:task|ac:task-list|ac:layout-section|ac:layout)>)(?!\n)|(?<=\n)/;
+
+/**
+ * Splits storage format into block-level chunks for line-based diffing and
+ * merging. Joining the chunks with '' gives back the input exactly.
+ */
+export function splitStorageBlocks(storage: string): string[] {
+  return storage ? storage.split(BLOCK_END).filter(chunk => chunk !== '') : [];
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function normalizeHeading(text: string): string {
+  return text.replace(/^\s*#+\s*/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function findHeadings(storage: string): Heading[] {
+  const headings: Heading[] = [];
+  const pattern = /<h([1-6])(?:\s[^>]*)?>([\s\S]*?)<\/h\1>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(storage)) !== null) {
+    headings.push({
+      level: Number(match[1]),
+      text: decodeEntities(match[2].replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim(),
+      start: match.index,
+      end: match.index + match[0].length
+    });
+  }
+  return headings;
+}
+
+/**
+ * Locates the section under a heading: from the end of the heading to the
+ * next heading of the same or a higher level, or the end of the page.
+ */
+function findSection(storage: string, heading: string): { headingEnd: number; sectionEnd: number } {
+  const headings = findHeadings(storage);
+  const wanted = normalizeHeading(heading);
+  const matches = headings.filter(h => h.text.toLowerCase() === wanted);
+
+  if (matches.length === 0) {
+    const available = headings.slice(0, 20).map(h => `"${h.text}"`).join(', ');
+    throw new ValidationError(
+      `Heading '${heading}' not found on the page.` + (available ? ` Headings: ${available}` : ' The page has no headings.')
+    );
+  }
+  if (matches.length > 1) {
+    throw new ValidationError(`Heading '${heading}' appears ${matches.length} times on the page; edit the page content instead`);
+  }
+
+  const target = matches[0];
+  const next = headings.find(h => h.start > target.start && h.level <= target.level);
+  return { headingEnd: target.end, sectionEnd: next ? next.start : storage.length };
+}
+
+function findReplace(storage: string, find: string, replace: string, all: boolean): string {
+  if (!find) {
+    throw new ValidationError('find must not be empty');
+  }
+
+  // Odd tokens are CDATA sections or tags; even tokens are escaped text
+  const tokens = storage.split(/(<!\[CDATA\[[\s\S]*?\]\]>|<[^>]*>)/);
+  const escapedFind = escapeXmlText(find);
+  const escapedReplace = escapeXmlText(replace);
+
+  let count = 0;
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (index % 2 === 0) {
+      count += token.split(escapedFind).length - 1;
+    } else if (token.startsWith('<![CDATA[')) {
+      count += token.slice(9, -3).split(find).length - 1;
+    }
+  }
+
+  if (count === 0) {
+    throw new ValidationError(`Text '${find}' was not found on the page`);
+  }
+  if (count > 1 && !all) {
+    throw new ValidationError(`Text '${find}' appears ${count} times on the page; set all to replace every occurrence`);
+  }
+
+  return tokens.map((token, index) => {
+    if (index % 2 === 0) {
+      return token.split(escapedFind).join(escapedReplace);
+    }
+    if (token.startsWith('<![CDATA[')) {
+      // "]]>" cannot appear inside CDATA, so split it across two sections
+      const replacement = replace.replace(/]]>/g, ']]]]><![CDATA[>');
+      return `<![CDATA[${token.slice(9, -3).split(find).join(replacement)}]]>`;
+    }
+    return token;
+  }).join('');
+}
+
+/**
+ * Applies partial edits to a page body in storage format, in order.
+ * @param storage - Current page body
+ * @param edits - Edits to apply
+ * @param toStorage - Converts edit content from the caller's format to storage format
+ */
+export function applyPageEdits(storage: string, edits: PageEdit[], toStorage: (content: string) => string): string {
+  let result = storage;
+
+  for (const edit of edits) {
+    switch (edit.type) {
+      case 'append': {
+        const content = toStorage(edit.content);
+        if (edit.heading) {
+          const { sectionEnd } = findSection(result, edit.heading);
+          result = result.slice(0, sectionEnd) + content + result.slice(sectionEnd);
+        } else {
+          result += content;
+        }
+        break;
+      }
+      case 'replace_section': {
+        const { headingEnd, sectionEnd } = findSection(result, edit.heading);
+        result = result.slice(0, headingEnd) + toStorage(edit.content) + result.slice(sectionEnd);
+        break;
+      }
+      case 'find_replace':
+        result = findReplace(result, edit.find, edit.replace, edit.all ?? false);
+        break;
+      default:
+        throw new ValidationError(`Unknown edit type: ${(edit as { type: string }).type}`);
+    }
+  }
+
+  return result;
+}